@@ -11,34 +11,72 @@ import { expect, test } from '@playwright/test'
 // import from 'electron-playwright-helpers'
 import {
   addTimeout,
+  assertIpcContract,
+  assertNoUnexpectedDialogs,
+  checkIpcContract,
+  clearIpcLog,
+  clickContextMenuItem,
   clickMenuItem,
+  clearDialogCalls,
   clickMenuItemById,
+  createDialogFixture,
+  createIpcHelpers,
+  diffMenus,
+  dismissContextMenu,
+  expectIpcMessage,
   findLatestBuild,
   findMenuItem,
   getApplicationMenu,
+  getCapturedMessages,
+  getDialogCalls,
+  getIpcLog,
   getMenuItemAttribute,
   getMenuItemById,
+  getMenuItemByPath,
   getWindowByMatcher,
   getWindowByTitle,
   getWindowByUrl,
+  installIpcBridge,
+  ipcMainCallAllListeners,
   ipcMainCallFirstListener,
   ipcMainEmit,
   ipcMainInvokeHandler,
+  ipcRendererCallAllListeners,
   ipcRendererCallFirstListener,
   ipcRendererEmit,
   ipcRendererInvoke,
   ipcRendererSend,
   isSerializedNativeImageSuccess,
   isSerializedNativeImageError,
+  lintApplicationMenu,
+  mockIpcMainHandler,
+  onLiveDialog,
   parseElectronApp,
+  postToPort,
+  pressMenuAccelerator,
+  queryMenuItems,
+  restoreAllDialogs,
   retryUntilTruthy,
+  serializeMenu,
+  startContextMenuCapture,
+  startIpcRecording,
+  startMenuCapture,
+  startMessageCapture,
   stubDialog,
   stubDialogMatchers,
+  waitForCapturedMessage,
+  waitForContextMenu,
+  waitForDialogCall,
+  waitForIpcMessage,
+  waitForLiveDialog,
+  waitForMenu,
+  waitForMenuItem,
   waitForMenuItemStatus,
   waitForWindowByMatcher,
   waitForWindowByTitle,
   waitForWindowByUrl,
 } from '../../src' // <-- replace with 'electron-playwright-helpers'
+import type { MenuItemPartial } from '../../src'
 
 import { Page, _electron as electron } from '../../node_modules/playwright-core' // <-- replace with 'playwright-core'
 import { getApp, setApp } from './app-manager'
@@ -886,6 +924,116 @@ test.describe('Dialog Matchers', () => {
     const result = await ipcMainInvokeHandler(app, 'show-select-image-dialog')
     expect(result.filePaths).toEqual(['/selected-via-button-label.png'])
   })
+
+  test('stubDialogMatchers with filters and properties matchers', async () => {
+    const app = getApp()
+
+    await stubDialogMatchers(app, [
+      {
+        method: 'showOpenDialog',
+        matcher: { properties: ['openDirectory'] },
+        value: { filePaths: ['/a-folder'], canceled: false },
+      },
+      {
+        method: 'showOpenDialog',
+        matcher: {
+          properties: ['openFile'],
+          filters: { name: 'Images', extensions: ['png', 'gif'] },
+        },
+        value: { filePaths: ['/an-image.gif'], canceled: false },
+      },
+    ])
+
+    const result = await ipcMainInvokeHandler(app, 'show-select-image-dialog')
+    expect(result.filePaths).toEqual(['/an-image.gif'])
+  })
+
+  test('stubDialogMatchers with exact buttons, defaultId and cancelId', async () => {
+    const app = getApp()
+
+    await stubDialogMatchers(app, [
+      {
+        method: 'showMessageBox',
+        matcher: { buttons: ['Save', "Don't Save", 'Cancel'], cancelId: 2 },
+        value: { response: 1 },
+      },
+      {
+        method: 'showMessageBox',
+        matcher: { buttons: ['Cancel', 'Delete'], defaultId: 0 },
+        value: { response: 1 },
+      },
+    ])
+
+    expect(await ipcMainInvokeHandler(app, 'show-save-changes-dialog')).toBe(1)
+    expect(await ipcMainInvokeHandler(app, 'show-delete-confirmation')).toBe(1)
+  })
+
+  test('stubDialogMatchers with a parentWindow matcher', async () => {
+    const app = getApp()
+
+    await stubDialogMatchers(app, [
+      {
+        method: 'showMessageBox',
+        matcher: { parentWindow: { url: /index\.html/ } },
+        value: { response: 1 },
+      },
+      { method: 'showMessageBox', matcher: {}, value: { response: 2 } },
+    ])
+
+    // the example app opens its dialogs without a parent window
+    expect(await ipcMainInvokeHandler(app, 'show-delete-confirmation')).toBe(2)
+    const withParent = await app.evaluate(async ({ dialog, BrowserWindow }) => {
+      const [win] = BrowserWindow.getAllWindows()
+      const { response } = await dialog.showMessageBox(win, { message: 'Hi' })
+      return response
+    })
+    expect(withParent).toBe(1)
+  })
+
+  test('stubDialogMatchers with matcher and responder functions', async () => {
+    const app = getApp()
+
+    await stubDialogMatchers(app, [
+      {
+        method: 'showSaveDialog',
+        matcher: (options) => options.buttonLabel === 'Export',
+        respond: (options) => ({ filePath: `/exports/${options.defaultPath}` }),
+      },
+      {
+        method: 'showMessageBox',
+        matcher: {},
+        respond: (options) => ({
+          response: options.buttons!.indexOf('Delete'),
+        }),
+      },
+    ])
+
+    const result = await ipcMainInvokeHandler(app, 'show-export-dialog')
+    expect(result).toEqual({ canceled: false, filePath: '/exports/export.txt' })
+    expect(await ipcMainInvokeHandler(app, 'show-delete-confirmation')).toBe(1)
+  })
+
+  test('stub handles restore the original dialog methods', async () => {
+    const app = getApp()
+    const source = () =>
+      app.evaluate(({ dialog }) => dialog.showOpenDialog.toString())
+
+    await restoreAllDialogs(app)
+    const original = await source()
+
+    const handle = await stubDialogMatchers(app, [
+      {
+        method: 'showOpenDialog',
+        matcher: {},
+        value: { filePaths: ['/stubbed.txt'], canceled: false },
+      },
+    ])
+    expect(handle.methods).toEqual(['showOpenDialog'])
+    expect(await source()).not.toBe(original)
+
+    await handle.restore()
+    expect(await source()).toBe(original)
+  })
 })
 
 test.describe('Window Helpers', () => {
@@ -1024,3 +1172,647 @@ test.describe('Window Helpers', () => {
     ).rejects.toThrow(/timeout/i)
   })
 })
+
+test.describe('Dialog call log', () => {
+  test('records the options the app passed to a stubbed dialog', async () => {
+    const app = getApp()
+    await clearDialogCalls(app)
+    const stub = await stubDialog(app, 'showOpenDialog', {
+      filePaths: ['/images/cat.png'],
+    })
+
+    await ipcMainInvokeHandler(app, 'show-select-image-dialog')
+
+    const [call] = await getDialogCalls(app, { method: 'showOpenDialog' })
+    expect(call.options?.title).toBe('Select Image')
+    expect(call.options?.filters).toEqual([
+      { name: 'Images', extensions: ['png', 'jpg', 'gif'] },
+    ])
+    expect(call.stubIndex).toBe(0)
+    expect(call.returnValue).toEqual({
+      canceled: false,
+      filePaths: ['/images/cat.png'],
+    })
+    await stub.restore()
+  })
+
+  test('waits for a dialog call matching a pattern', async () => {
+    const app = getApp()
+    await clearDialogCalls(app)
+    const stub = await stubDialog(app, 'showSaveDialog', {
+      filePath: '/exports/export.txt',
+    })
+
+    void ipcMainInvokeHandler(app, 'show-export-dialog')
+
+    const call = await waitForDialogCall(app, {
+      method: 'showSaveDialog',
+      options: { defaultPath: /export\.txt$/ },
+    })
+    expect(call.options?.buttonLabel).toBe('Export')
+    await stub.restore()
+  })
+})
+
+test.describe('Dialog response sequences', () => {
+  test('answers the first confirmation differently from the second', async () => {
+    const app = getApp()
+    const stub = await stubDialogMatchers(app, [
+      {
+        method: 'showMessageBox',
+        matcher: { title: 'Delete File' },
+        values: [{ response: 0 }, { response: 1 }], // "Cancel", then "Delete"
+        whenExhausted: 'throw',
+      },
+    ])
+
+    expect(await ipcMainInvokeHandler(app, 'show-delete-confirmation')).toBe(0)
+    expect(await stub.remaining()).toEqual([1])
+    expect(await ipcMainInvokeHandler(app, 'show-delete-confirmation')).toBe(1)
+    expect(await stub.remaining()).toEqual([0])
+    await expect(
+      ipcMainInvokeHandler(app, 'show-delete-confirmation')
+    ).rejects.toThrow(/no responses left/)
+
+    await stub.restore()
+  })
+})
+
+test.describe('Live dialogs', () => {
+  test('waitForLiveDialog holds the dialog open until the test responds', async () => {
+    const app = getApp()
+    const stub = await stubDialogMatchers(app, [
+      { method: 'showMessageBox', matcher: { title: 'Delete File' }, live: true },
+    ])
+
+    let settled = false
+    const response = ipcMainInvokeHandler(app, 'show-delete-confirmation').then(
+      (value) => {
+        settled = true
+        return value
+      }
+    )
+
+    const dialog = await waitForLiveDialog(app, { method: 'showMessageBox' })
+    expect(dialog.options?.buttons).toEqual(['Cancel', 'Delete'])
+    expect(settled).toBe(false)
+
+    await dialog.respond({ response: 1 })
+    expect(await response).toBe(1)
+    await stub.restore()
+  })
+
+  test('onLiveDialog answers each dialog as it opens', async () => {
+    const app = getApp()
+    const stub = await stubDialogMatchers(app, [
+      { method: 'showSaveDialog', matcher: {}, live: true },
+    ])
+
+    const stop = onLiveDialog(app, async (dialog) => {
+      await dialog.respond({
+        filePath: `/exports/${dialog.options?.defaultPath}`,
+      })
+    })
+    const first = await ipcMainInvokeHandler(app, 'show-export-dialog')
+    const second = await ipcMainInvokeHandler(app, 'show-export-dialog')
+    await stop()
+
+    expect(first.filePath).toBe('/exports/export.txt')
+    expect(second.filePath).toBe('/exports/export.txt')
+    await stub.restore()
+  })
+})
+
+test.describe('Strict dialog mode', () => {
+  test('reports dialogs that no stub expected', async () => {
+    const app = getApp()
+    const stub = await stubDialogMatchers(
+      app,
+      [
+        {
+          method: 'showMessageBox',
+          matcher: { title: 'Delete File' },
+          value: { response: 1 },
+        },
+      ],
+      { strict: true }
+    )
+
+    expect(await ipcMainInvokeHandler(app, 'show-delete-confirmation')).toBe(1)
+    await assertNoUnexpectedDialogs(app)
+
+    // not stubbed, but strict mode keeps the real dialog from opening
+    const result = await ipcMainInvokeHandler(app, 'show-select-image-dialog')
+    expect(result).toEqual({ canceled: false, filePaths: [] })
+    await expect(assertNoUnexpectedDialogs(app)).rejects.toThrow(
+      /showOpenDialog\(\{"title":"Select Image"/
+    )
+    await stub.restore()
+  })
+})
+
+test.describe('Dialog fixtures', () => {
+  test('open and save dialogs answer with files in a temp directory', async () => {
+    const app = getApp()
+    const files = await createDialogFixture(app, {
+      'draft.md': '# Draft',
+      published: {},
+    })
+
+    await files.open('draft.md', { message: 'Open a file' })
+    await clickMenuItemById(app, 'open-file')
+    await expect
+      .poll(() => ipcMainInvokeHandler(app, 'get-opened-file'))
+      .toBe(files.path('draft.md'))
+
+    await files.save('published/final.md')
+    await clickMenuItemById(app, 'save-file')
+    await expect
+      .poll(() => ipcMainInvokeHandler(app, 'get-opened-file'))
+      .toBe(files.path('published/final.md'))
+
+    // the example app only remembers the path, it doesn't write the file
+    await expect(files.readSaved()).rejects.toThrow(/has not written/)
+    await files.cleanup()
+    expect(await files.exists('draft.md')).toBe(false)
+  })
+})
+
+test.describe('Window-scoped dialog stubs', () => {
+  test('a stub with a window only answers dialogs attached to it', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    const stub = await stubDialogMatchers(app, [
+      {
+        method: 'showMessageBox',
+        matcher: {},
+        window: page,
+        value: { response: 1 },
+      },
+      { method: 'showMessageBox', matcher: {}, value: { response: 2 } },
+    ])
+
+    const windowId = await (await app.browserWindow(page)).evaluate(
+      (win) => win.id
+    )
+    const responses = await app.evaluate(
+      async ({ dialog, BrowserWindow }, id) => {
+        const win = BrowserWindow.fromId(id)!
+        const withParent = await dialog.showMessageBox(win, { message: 'Hi' })
+        const withoutParent = await dialog.showMessageBox({ message: 'Hi' })
+        return [withParent.response, withoutParent.response]
+      },
+      windowId
+    )
+    expect(responses).toEqual([1, 2])
+    await stub.restore()
+  })
+})
+
+test.describe('Mocked ipcMain handlers', () => {
+  test('replaces a handler, records calls and restores it', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    const realCount = await ipcRendererInvoke(page, 'how-many-windows')
+
+    const mock = await mockIpcMainHandler(app, 'how-many-windows', {
+      replies: [{ value: 42 }, { error: 'too many windows' }],
+    })
+    expect(await ipcRendererInvoke(page, 'how-many-windows', 'arg')).toBe(42)
+    await expect(ipcRendererInvoke(page, 'how-many-windows')).rejects.toThrow(
+      /too many windows/
+    )
+
+    const calls = await mock.calls()
+    expect(calls.map((call) => call.args)).toEqual([['arg'], []])
+    const webContentsId = await (await app.browserWindow(page)).evaluate(
+      (win) => win.webContents.id
+    )
+    expect(calls[0].senderId).toBe(webContentsId)
+
+    await mock.restore()
+    expect(await ipcRendererInvoke(page, 'how-many-windows')).toBe(realCount)
+  })
+
+  test('answers with a responder running in the main process', async () => {
+    const app = getApp()
+    const mock = await mockIpcMainHandler(
+      app,
+      'get-opened-file',
+      (_event, suffix: string) => `/mocked/file${suffix ?? ''}`
+    )
+    expect(await ipcMainInvokeHandler(app, 'get-opened-file', '.txt')).toBe(
+      '/mocked/file.txt'
+    )
+    await mock.restore()
+  })
+})
+
+test.describe('IPC recording', () => {
+  test('records sends and invokes from the renderer', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    const recording = await startIpcRecording(app)
+
+    await ipcRendererSend(page, 'main-asynchronous-data', 'hello')
+    const count = await ipcRendererInvoke(page, 'how-many-windows')
+
+    const sent = await waitForIpcMessage(app, 'main-asynchronous-data')
+    expect(sent.direction).toBe('renderer-to-main')
+    expect(sent.args).toEqual(['hello'])
+    const invoked = await expectIpcMessage(app, {
+      channel: 'how-many-windows',
+      kind: 'invoke',
+    })
+    expect(invoked.returnValue).toBe(count)
+
+    await recording.stop()
+    await clearIpcLog(app)
+    await ipcRendererSend(page, 'main-asynchronous-data')
+    expect(await getIpcLog(app)).toEqual([])
+  })
+})
+
+test.describe('IPC bridge', () => {
+  test('registers a preload that exposes the bridge to the page', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    const bridge = await installIpcBridge(app, { reload: true })
+    await page.waitForLoadState('domcontentloaded')
+    await page.waitForSelector('h1')
+
+    expect(
+      await page.evaluate(
+        () => typeof (window as any).__electronPlaywrightHelpersIpc
+      )
+    ).toBe('object')
+    expect(
+      await ipcRendererCallFirstListener(page, 'get-synchronous-data')
+    ).toBe('Synchronous Data')
+
+    await bridge.uninstall()
+  })
+})
+
+test.describe('ipcMain events from a source window', () => {
+  test('gives listeners a sender they can reply to', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    await app.evaluate(({ ipcMain }) => {
+      ipcMain.on('reply-with-message', (event, text) => {
+        event.reply('add-message', text, 'reply-message')
+        event.returnValue = event.sender.id
+      })
+    })
+
+    const senderId = await ipcMainCallFirstListener(
+      app,
+      'reply-with-message',
+      'Replied!',
+      { source: page }
+    )
+    await expect(page.locator('#reply-message')).toHaveText('Replied!')
+    const webContentsId = await (await app.browserWindow(page)).evaluate(
+      (win) => win.webContents.id
+    )
+    expect(senderId).toBe(webContentsId)
+
+    await app.evaluate(({ ipcMain }) => {
+      ipcMain.removeAllListeners('reply-with-message')
+    })
+  })
+})
+
+test.describe('Calling all listeners', () => {
+  test('collects the result of every ipcMain listener', async () => {
+    const app = getApp()
+    await app.evaluate(({ ipcMain }) => {
+      ipcMain.on('main-asynchronous-data', () => {
+        throw new Error('second listener failed')
+      })
+    })
+
+    const results = await ipcMainCallAllListeners(
+      app,
+      'main-asynchronous-data'
+    )
+    expect(results.map(({ value, error }) => ({ value, error }))).toEqual([
+      { value: 'Main Asynchronous Data', error: undefined },
+      { value: undefined, error: 'second listener failed' },
+    ])
+    expect(results[0].durationMs).toBeGreaterThanOrEqual(900)
+
+    await app.evaluate(({ ipcMain }) => {
+      const listeners = ipcMain.listeners('main-asynchronous-data')
+      ipcMain.removeListener(
+        'main-asynchronous-data',
+        listeners[listeners.length - 1] as () => void
+      )
+    })
+  })
+
+  test('collects the result of every ipcRenderer listener', async () => {
+    const page = await getApp().firstWindow()
+    const results = await ipcRendererCallAllListeners(
+      page,
+      'get-synchronous-data'
+    )
+    expect(results).toHaveLength(1)
+    expect(results[0].value).toBe('Synchronous Data')
+  })
+})
+
+test.describe('IPC contracts', () => {
+  test('the example app matches its declared channels', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    await assertIpcContract(
+      app,
+      {
+        handle: [
+          'get-opened-file',
+          'show-delete-confirmation',
+          'show-save-changes-dialog',
+          'show-select-image-dialog',
+          'show-export-dialog',
+          'how-many-windows',
+        ],
+        on: ['new-window', 'main-synchronous-data', 'main-asynchronous-data'],
+        renderer: [
+          'get-synchronous-data',
+          'get-asynchronous-data',
+          'add-message',
+        ],
+      },
+      { pages: [page] }
+    )
+  })
+
+  test('reports a channel the contract is missing', async () => {
+    const app = getApp()
+    const report = await checkIpcContract(app, {
+      handle: ['get-opened-file'],
+    })
+    expect(report.ok).toBe(false)
+    expect(report.problems).toContainEqual({
+      problem: 'unexpected',
+      kind: 'handle',
+      channel: 'how-many-windows',
+    })
+  })
+})
+
+test.describe('Typed IPC helpers', () => {
+  interface ExampleChannels {
+    handle: {
+      'how-many-windows': () => number
+      'get-opened-file': () => string | undefined
+    }
+    on: {
+      'main-synchronous-data': () => string
+    }
+    renderer: {
+      'get-synchronous-data': () => string
+      'add-message': (content: string, id: string) => void
+    }
+  }
+
+  test('calls the example app through its channel map', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    const ipc = createIpcHelpers<ExampleChannels>(app)
+
+    const count: number = await ipc.invoke('how-many-windows')
+    expect(count).toBeGreaterThan(0)
+    expect(await ipc.callFirstListener('main-synchronous-data')).toBe(
+      'Main Synchronous Data'
+    )
+    expect(
+      await ipc.renderer(page).callFirstListener('get-synchronous-data')
+    ).toBe('Synchronous Data')
+    await ipc.renderer(page).emit('add-message', 'Typed!', 'typed-message')
+    await expect(page.locator('#typed-message')).toHaveText('Typed!')
+  })
+})
+
+test.describe('MessagePort capture', () => {
+  test('captures port traffic and posts onto a captured port', async () => {
+    const app = getApp()
+    const capture = await startMessageCapture(app)
+    await app.evaluate(({ MessageChannelMain }) => {
+      const { port1, port2 } = new MessageChannelMain()
+      const received: unknown[] = []
+      port2.on('message', (event) => received.push(event.data))
+      port2.start()
+      Object.assign(globalThis, { testPorts: { port1, port2, received } })
+      port1.postMessage('hello')
+    })
+
+    const sent = await waitForCapturedMessage(app, {
+      target: 'port',
+      direction: 'in',
+    })
+    expect(sent.data).toBe('hello')
+    const [posted] = await getCapturedMessages(app, {
+      target: 'port',
+      direction: 'out',
+    })
+    await postToPort(app, posted.id, 'from the test')
+    await expect
+      .poll(() =>
+        app.evaluate(
+          () =>
+            (globalThis as unknown as { testPorts: { received: unknown[] } })
+              .testPorts.received
+        )
+      )
+      .toEqual(['hello', 'from the test'])
+
+    await capture.stop()
+    await app.evaluate(() => {
+      const { testPorts } = globalThis as unknown as {
+        testPorts: { port1: { close(): void }; port2: { close(): void } }
+      }
+      testPorts.port1.close()
+      testPorts.port2.close()
+    })
+  })
+})
+
+test.describe('menu snapshots', () => {
+  test('serialize the application menu as an outline', async () => {
+    const outline = await serializeMenu(getApp())
+    expect(outline).toContain('  New Window  accelerator=CmdOrCtrl+N')
+    expect(outline).not.toContain('commandId')
+  })
+
+  test('diff the menu before and after a click', async () => {
+    const app = getApp()
+    const before = await getApplicationMenu(app)
+    const checked = await getMenuItemAttribute(app, 'checkbox', 'checked')
+    await clickMenuItemById(app, 'checkbox')
+    const diff = diffMenus(before, await getApplicationMenu(app))
+    expect(diff.added).toEqual([])
+    expect(diff.removed).toEqual([])
+    expect(diff.changed).toEqual([
+      {
+        path: [expect.any(String), 'Checkbox'],
+        field: 'checked',
+        before: checked,
+        after: !checked
+      }
+    ])
+    // put it back for the tests that follow
+    await clickMenuItemById(app, 'checkbox')
+  })
+})
+
+test.describe('menu paths', () => {
+  test('get a menu item by its label path', async () => {
+    const item = await getMenuItemByPath(getApp(), ['File', 'New Window'])
+    expect(item.id).toBe('new-window')
+  })
+
+  test('name the closest path when a label is wrong', async () => {
+    await expect(
+      getMenuItemByPath(getApp(), ['File', 'New Windows'])
+    ).rejects.toThrow(/The closest existing path is ".* > New Window"/)
+  })
+})
+
+test.describe('context menus', () => {
+  test('capture a popup menu and click an item in it', async () => {
+    const app = getApp()
+    await using _capture = await startContextMenuCapture(app)
+    await app.evaluate(({ Menu, BrowserWindow }) => {
+      const menu = Menu.buildFromTemplate([
+        {
+          label: 'Copy Link',
+          click: () => Object.assign(globalThis, { testContextMenu: 'copied' })
+        }
+      ])
+      menu.popup({ window: BrowserWindow.getAllWindows()[0], x: 5, y: 5 })
+    })
+
+    const popup = await waitForContextMenu(app)
+    expect(popup.items.map((item) => item.label)).toEqual(['Copy Link'])
+    await clickContextMenuItem(app, ['Copy Link'])
+    expect(
+      await app.evaluate(
+        () =>
+          (globalThis as unknown as { testContextMenu?: string })
+            .testContextMenu
+      )
+    ).toBe('copied')
+    expect(await dismissContextMenu(app)).toBe(false)
+  })
+})
+
+test.describe('menu accelerators', () => {
+  test('press a menu accelerator through the keyboard path', async () => {
+    const app = getApp()
+    const [newPage, item] = await Promise.all([
+      app.waitForEvent('window'),
+      pressMenuAccelerator(app, 'CmdOrCtrl+N', {
+        window: await app.firstWindow()
+      })
+    ])
+    expect(item.id).toBe('new-window')
+    expect(newPage).toBeTruthy()
+    await newPage.close()
+  })
+
+  test('refuse an accelerator no menu item has', async () => {
+    await expect(
+      pressMenuAccelerator(getApp(), 'CmdOrCtrl+Alt+Shift+F12')
+    ).rejects.toThrow(/no menu item has the accelerator/)
+  })
+})
+
+test.describe('menu lint', () => {
+  test('lint the application menu', async () => {
+    const findings = await lintApplicationMenu(getApp(), {
+      rules: { 'no-id-or-role': false }
+    })
+    // the example app labels "Open File" without an ellipsis
+    expect(findings.map(({ rule, path }) => [rule, path.at(-1)])).toContainEqual(
+      ['missing-ellipsis', 'Open File']
+    )
+    expect(findings.filter(({ rule }) => rule.startsWith('duplicate'))).toEqual(
+      []
+    )
+  })
+})
+
+test.describe('waitForMenu', () => {
+  test('wait for the menu to satisfy a predicate', async () => {
+    const app = getApp()
+    const checkbox = (menu: MenuItemPartial[]) =>
+      menu
+        .flatMap((item) => item.submenu ?? [])
+        .find((item) => item.id === 'checkbox')
+    const wasChecked = checkbox(await getApplicationMenu(app))?.checked
+    await clickMenuItemById(app, 'checkbox')
+    const menu = await waitForMenu(
+      app,
+      (menu) => checkbox(menu)?.checked === !wasChecked
+    )
+    expect(checkbox(menu)?.label).toBe('Checkbox')
+    // put it back for the tests that follow
+    await clickMenuItemById(app, 'checkbox')
+  })
+})
+
+test.describe('menu queries', () => {
+  test('query menu items on several properties at once', async () => {
+    const matches = await queryMenuItems(getApp(), {
+      label: /File$/,
+      accelerator: 'CmdOrCtrl+O'
+    })
+    expect(matches.map(({ path }) => path.at(-1))).toEqual(['Open File'])
+    expect(matches[0].item.id).toBe('open-file')
+  })
+
+  test('find every menu item with a property', async () => {
+    const app = getApp()
+    const checkboxes = await findMenuItem(app, 'type', 'checkbox', undefined, {
+      match: 'all'
+    })
+    expect(checkboxes.map((item) => item.id)).toContain('checkbox')
+    const newWindow = await findMenuItem(app, 'id', 'new-window', undefined, {
+      match: 'unique'
+    })
+    expect(newWindow?.label).toBe('New Window')
+  })
+})
+
+test.describe('menu sources', () => {
+  test('read and click a window menu set while capturing', async () => {
+    const app = getApp()
+    const page = await app.firstWindow()
+    await using _capture = await startMenuCapture(app)
+    // the example app has no window menus of its own - give the first one
+    await app.evaluate(({ BrowserWindow, Menu }) => {
+      const menu = Menu.buildFromTemplate([
+        {
+          label: 'Window',
+          submenu: [{ label: 'Mark', id: 'window-mark', type: 'checkbox' }]
+        }
+      ])
+      BrowserWindow.getAllWindows()[0].setMenu(menu)
+    })
+    const source = { window: page }
+    await waitForMenuItem(app, 'window-mark', { source })
+    await clickMenuItemById(app, 'window-mark', { source })
+    const item = await getMenuItemById(app, 'window-mark', { source })
+    expect(item.checked).toBe(true)
+    const menu = await getApplicationMenu(app, { source })
+    expect(menu.map((item) => item.label)).toEqual(['Window'])
+  })
+
+  test('refuse a tray the app never created', async () => {
+    await expect(
+      getApplicationMenu(getApp(), { source: 'tray' })
+    ).rejects.toThrow(/no tray menu captured/)
+  })
+})
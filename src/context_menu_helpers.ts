@@ -0,0 +1,384 @@
+import type { ElectronApplication } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import {
+  MenuItemPartial,
+  MenuPathSegment,
+  cleanMenuItem,
+  menuItemAtPath,
+} from './menu_helpers'
+import {
+  RetryOptions,
+  RetryUntilTruthyOptions,
+  retry,
+  retryUntilTruthy,
+} from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A menu the app popped up - usually a context menu - while popups were
+ * captured.
+ *
+ * @category Menu
+ */
+export type ContextMenuPopup = {
+  /** Assigned by the helpers, in the order the menus popped up. */
+  id: number
+  /** The id of the BrowserWindow it popped up in, if there was one. */
+  windowId: number | undefined
+  /** Where it popped up, if the app said - otherwise, at the cursor. */
+  x: number | undefined
+  y: number | undefined
+  /** False once an item was clicked, or it was dismissed or closed. */
+  open: boolean
+  /** When it popped up, in milliseconds since the epoch (main process clock). */
+  timestamp: number
+  /** The menu's items, as `getApplicationMenu()` returns them. */
+  items: MenuItemPartial[]
+}
+
+/**
+ * Returned by `startContextMenuCapture()`.
+ *
+ * @category Menu
+ */
+export type ContextMenuCapture = {
+  /** Stop capturing: from now on, popups are shown natively again. */
+  stop(): Promise<void>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.contextMenu` - see `MainDialogState`
+ * for why it lives over there.
+ *
+ * @ignore
+ */
+export type MainContextMenuState = {
+  /** the most recent popups, oldest first */
+  popups: {
+    info: Omit<ContextMenuPopup, 'items'>
+    menu: Electron.Menu
+    window: Electron.BrowserWindow | undefined
+    callback: (() => void) | undefined
+  }[]
+  nextId: number
+  /** undoes the patches, while capturing */
+  stop: (() => void) | undefined
+}
+
+/** how many popups the main process remembers */
+const keepPopups = 20
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Start capturing the menus the app pops up with `menu.popup()` - context
+ * menus, mostly - instead of showing them. No native menu ever appears, so
+ * nothing blocks the test, and the menus can be read with
+ * `getContextMenus()`, clicked with `clickContextMenuItem()` and dismissed
+ * with `dismissContextMenu()`.
+ *
+ * The menu still emits `menu-will-show` when it "pops up", and
+ * `menu-will-close` - followed by the `callback` the app passed to `popup()`
+ * - when it is clicked or dismissed, so the app sees what it would see with a
+ * native menu. As with a native menu, a new popup closes the one still open.
+ * The last 20 popups are kept.
+ *
+ * Capture works by wrapping `Menu.prototype.popup()` and `closePopup()`;
+ * `stop()` puts them back. Starting again while capturing keeps the one
+ * capture going.
+ *
+ * @example
+ * ```ts
+ * await using _capture = await startContextMenuCapture(app)
+ * await page.click('#file-list li', { button: 'right' })
+ * const menu = await waitForContextMenu(app)
+ * await clickContextMenuItem(app, ['Rename'])
+ * ```
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the capture once it has started.
+ */
+export async function startContextMenuCapture(
+  app: ElectronApplication,
+): Promise<ContextMenuCapture> {
+  await retry(() =>
+    app.evaluate(({ Menu, BrowserWindow }, keepPopups) => {
+      const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+      const state: MainContextMenuState = (root.contextMenu ??= {
+        popups: [],
+        nextId: 1,
+        stop: undefined,
+      })
+      if (state.stop) return
+
+      const close = (popup: MainContextMenuState['popups'][number]) => {
+        popup.info.open = false
+        popup.menu.emit('menu-will-close', { sender: popup.menu })
+        popup.callback?.()
+      }
+      const proto = Menu.prototype
+      const hadOwn = {
+        popup: Object.prototype.hasOwnProperty.call(proto, 'popup'),
+        closePopup: Object.prototype.hasOwnProperty.call(proto, 'closePopup'),
+      }
+      const originalPopup = proto.popup
+      const originalClosePopup = proto.closePopup
+      proto.popup = function (
+        this: Electron.Menu,
+        options: Electron.PopupOptions = {},
+      ) {
+        const window = (options.window ??
+          BrowserWindow.getFocusedWindow() ??
+          undefined) as Electron.BrowserWindow | undefined
+        for (const popup of state.popups) {
+          if (popup.info.open) close(popup)
+        }
+        state.popups.push({
+          info: {
+            id: state.nextId++,
+            windowId: window?.id,
+            x: options.x,
+            y: options.y,
+            open: true,
+            timestamp: Date.now(),
+          },
+          menu: this,
+          window,
+          callback: options.callback,
+        })
+        if (state.popups.length > keepPopups) state.popups.shift()
+        this.emit('menu-will-show', { sender: this })
+      }
+      proto.closePopup = function (
+        this: Electron.Menu,
+        window?: Electron.BaseWindow,
+      ) {
+        for (const popup of state.popups) {
+          if (!popup.info.open || popup.menu !== this) continue
+          if (window && popup.window !== window) continue
+          close(popup)
+        }
+      }
+
+      state.stop = () => {
+        // put the prototype back as it was - methods it inherited stay inherited
+        if (hadOwn.popup) proto.popup = originalPopup
+        else delete (proto as Partial<Electron.Menu>).popup
+        if (hadOwn.closePopup) proto.closePopup = originalClosePopup
+        else delete (proto as Partial<Electron.Menu>).closePopup
+        state.stop = undefined
+      }
+    }, keepPopups),
+  )
+
+  const stop = async () => {
+    await retry(() =>
+      app.evaluate(() => {
+        const state: MainContextMenuState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.contextMenu
+        state?.stop?.()
+      }),
+    )
+  }
+  return { stop, [Symbol.asyncDispose]: stop }
+}
+
+/**
+ * List the menus popped up since `startContextMenuCapture()`, oldest first -
+ * open or not, up to the last 20.
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the popups.
+ */
+export function getContextMenus(
+  app: ElectronApplication,
+): Promise<ContextMenuPopup[]> {
+  return retry(() =>
+    app.evaluate((_electron, cleanMenuItemSource) => {
+      const cleanMenuItem = new Function(
+        `return (${cleanMenuItemSource})`,
+      )() as (menuItem: Electron.MenuItem) => MenuItemPartial
+      const state: MainContextMenuState | undefined = (globalThis as any)
+        .__electronPlaywrightHelpers?.contextMenu
+      return (state?.popups ?? []).map(({ info, menu }) => ({
+        ...info,
+        items: menu.items.map((item) => cleanMenuItem(item)),
+      }))
+    }, cleanMenuItem.toString()),
+  )
+}
+
+/** the popup an action with no popup named should act on */
+async function openContextMenu(
+  app: ElectronApplication,
+): Promise<ContextMenuPopup | undefined> {
+  const popups = await getContextMenus(app)
+  return popups.reverse().find((popup) => popup.open)
+}
+
+/**
+ * Wait until a captured menu is open, and return it - the most recent, if
+ * several popped up. A menu already open counts.
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param options - Optional. How long to wait, and how often to look. Defaults to 5000ms.
+ * @returns A promise that resolves with the open popup.
+ * @throws {Error} if no menu pops up before the timeout
+ */
+export async function waitForContextMenu(
+  app: ElectronApplication,
+  options: Partial<RetryUntilTruthyOptions> = {},
+): Promise<ContextMenuPopup> {
+  try {
+    return await retryUntilTruthy(() => openContextMenu(app), options)
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.includes('Timeout')) throw err
+    throw explainError(
+      new Error(
+        `waitForContextMenu: no menu popped up within ${options.timeout ?? 5000}ms`,
+      ),
+      errorHelp.contextMenuNotOpen,
+    )
+  }
+}
+
+/** the item with `id`, at any depth of `items` */
+function itemWithId(
+  items: MenuItemPartial[],
+  id: string,
+): MenuItemPartial | undefined {
+  for (const item of items) {
+    if (item.id === id) return item
+    const found = item.submenu && itemWithId(item.submenu, id)
+    if (found) return found
+  }
+}
+
+/**
+ * Click an item in the open context menu - the most recent popup that hasn't
+ * been clicked or dismissed. The menu closes first, as a native one would,
+ * then the item's `click` handler runs with the menu's window as its
+ * `focusedWindow`.
+ *
+ * As with `clickMenuItemById()`, the click itself is never retried.
+ *
+ * @example
+ * ```ts
+ * await clickContextMenuItem(app, ['Sort By', /^Name/])
+ * await clickContextMenuItem(app, 'rename-file')
+ * ```
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param item - The item's `id`, or its label path within the menu - see `getMenuItemByPath()`.
+ * @param options - Optional. Passed to `retry()`.
+ * @returns A promise that resolves once the item's `click` handler has run.
+ * @throws {Error} if no menu is open, or it has no such item
+ */
+export async function clickContextMenuItem(
+  app: ElectronApplication,
+  item: string | MenuPathSegment[],
+  options: Partial<RetryOptions> = {},
+): Promise<void> {
+  const popup = await openContextMenu(app)
+  if (!popup) {
+    throw explainError(
+      new Error(`clickContextMenuItem: no context menu is open`),
+      errorHelp.contextMenuNotOpen,
+    )
+  }
+  const menuItem =
+    typeof item === 'string'
+      ? itemWithId(popup.items, item)
+      : menuItemAtPath(popup.items, item)
+  if (!menuItem) {
+    throw new Error(
+      `Menu item with id ${item} not found in context menu ${popup.id}`,
+    )
+  }
+  if (menuItem.commandId === undefined) {
+    throw explainError(
+      new Error(`Menu item ${JSON.stringify(item)} has no commandId`),
+      errorHelp.menuItemNoCommandId,
+    )
+  }
+  await retry(
+    () =>
+      app.evaluate(
+        async (_electron, { popupId, commandId }) => {
+          const state: MainContextMenuState | undefined = (globalThis as any)
+            .__electronPlaywrightHelpers?.contextMenu
+          const popup = state?.popups.find(({ info }) => info.id === popupId)
+          if (!popup?.info.open) {
+            throw new Error(`Context menu ${popupId} is no longer open`)
+          }
+          function findMenuItem(
+            menu: Electron.Menu,
+          ): Electron.MenuItem | undefined {
+            for (const item of menu.items) {
+              if (item.commandId === commandId) return item
+              const found = item.submenu && findMenuItem(item.submenu)
+              if (found) return found
+            }
+          }
+          const menuItem = findMenuItem(popup.menu)
+          if (!menuItem) {
+            throw new Error(`Menu item with commandId ${commandId} not found`)
+          }
+          popup.info.open = false
+          popup.menu.emit('menu-will-close', { sender: popup.menu })
+          popup.callback?.()
+          // what Electron passes: (event, focusedWindow, focusedWebContents)
+          const click = menuItem.click as unknown as (
+            ...args: unknown[]
+          ) => unknown
+          await click({}, popup.window, popup.window?.webContents)
+        },
+        { popupId: popup.id, commandId: menuItem.commandId },
+      ),
+    // a click is not idempotent - same policy as clickMenuItemById()
+    { disable: true, ...options },
+  )
+}
+
+/**
+ * Dismiss the open context menu without clicking anything, as pressing
+ * Escape would: it emits `menu-will-close`, then the app's `callback` runs.
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with true if a menu was open, false if not.
+ */
+export async function dismissContextMenu(
+  app: ElectronApplication,
+): Promise<boolean> {
+  return retry(() =>
+    app.evaluate(() => {
+      const state: MainContextMenuState | undefined = (globalThis as any)
+        .__electronPlaywrightHelpers?.contextMenu
+      const popup = [...(state?.popups ?? [])]
+        .reverse()
+        .find(({ info }) => info.open)
+      if (!popup) return false
+      popup.info.open = false
+      popup.menu.emit('menu-will-close', { sender: popup.menu })
+      popup.callback?.()
+      return true
+    }),
+  )
+}
@@ -0,0 +1,217 @@
+import type { ElectronApplication } from 'playwright-core'
+import type { DialogCall, DialogMethod } from './dialog_matchers'
+import { errorHelp, explainError } from './error_help'
+import { retry, retryUntilTruthy, RetryUntilTruthyOptions } from './utilities'
+
+/**
+ * Describes the dialog call to wait for. Every property is optional, and only
+ * the ones given are checked.
+ *
+ * @category Dialog
+ */
+export type DialogCallMatcher = {
+  /** The dialog method that was called. */
+  method?: DialogMethod
+  /**
+   * Expected option values. A string or RegExp is matched against the option's
+   * value (strings exactly, as the dialog stub matchers do). Anything else -
+   * an array of `filters`, a `defaultId` - is compared by value.
+   */
+  options?: Record<string, unknown>
+}
+
+/**
+ * Test a recorded call against a `DialogCallMatcher`.
+ *
+ * @ignore
+ */
+export function dialogCallMatches(
+  call: DialogCall,
+  matcher: DialogCallMatcher,
+): boolean {
+  if (matcher.method !== undefined && call.method !== matcher.method) {
+    return false
+  }
+  for (const [key, expected] of Object.entries(matcher.options ?? {})) {
+    const actual = call.options?.[key]
+    if (expected instanceof RegExp) {
+      if (typeof actual !== 'string' || !expected.test(actual)) return false
+    } else if (typeof expected === 'string') {
+      if (actual !== expected) return false
+    } else if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Get the calls the app has made to stubbed dialog methods, oldest first.
+ *
+ * Every stubbing function - `stubDialog()`, `stubMultipleDialogs()`,
+ * `stubAllDialogs()` and `stubDialogMatchers()` - records each call with the
+ * options the app passed, the parent window, which stub answered and what it
+ * returned. Calls to methods that are not stubbed are not recorded. Restoring
+ * the stubs keeps the log; `clearDialogCalls()` empties it.
+ *
+ * @example
+ * ```ts
+ * await stubDialog(app, 'showSaveDialog', { filePath: '/tmp/report.pdf' })
+ * await clickMenuItemById(app, 'export-pdf')
+ * const [call] = await getDialogCalls(app, { method: 'showSaveDialog' })
+ * expect(call.options?.defaultPath).toBe('~/Documents/report.pdf')
+ * expect(call.options?.filters).toEqual([{ name: 'PDF', extensions: ['pdf'] }])
+ * ```
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param filter - Optional. `method` limits the result to one dialog method.
+ * @returns A promise that resolves with the recorded calls.
+ */
+export async function getDialogCalls(
+  app: ElectronApplication,
+  filter: { method?: DialogMethod } = {},
+): Promise<DialogCall[]> {
+  const calls = await retry(() =>
+    app.evaluate(
+      () =>
+        ((globalThis as any).__electronPlaywrightHelpers?.dialog?.calls ??
+          []) as DialogCall[],
+    ),
+  )
+  return filter.method === undefined
+    ? calls
+    : calls.filter((call) => call.method === filter.method)
+}
+
+/**
+ * Empty the dialog call log, e.g. between the steps of a test.
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves when the log is empty.
+ */
+export function clearDialogCalls(app: ElectronApplication): Promise<void> {
+  return retry(() =>
+    app.evaluate(() => {
+      const state = (globalThis as any).__electronPlaywrightHelpers?.dialog
+      if (state) state.calls = []
+    }),
+  )
+}
+
+/**
+ * Wait until the app has called a stubbed dialog method in the way described,
+ * and return that call. A call already in the log counts, so call
+ * `clearDialogCalls()` first to wait only for calls made from then on.
+ *
+ * @example
+ * ```ts
+ * await stubDialog(app, 'showSaveDialog', { filePath: '/tmp/report.pdf' })
+ * await page.click('#export')
+ * const call = await waitForDialogCall(app, {
+ *   method: 'showSaveDialog',
+ *   options: { defaultPath: /report\.pdf$/ },
+ * })
+ * ```
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param matcher - A `DialogCallMatcher`, or a function which receives each recorded call.
+ * @param options - Optional. How long to wait, and how often to look. Defaults to 5000ms.
+ * @returns A promise that resolves with the first matching call.
+ * @throws {Error} if no matching call is recorded before the timeout
+ */
+export async function waitForDialogCall(
+  app: ElectronApplication,
+  matcher: DialogCallMatcher | ((call: DialogCall) => boolean),
+  options: Partial<RetryUntilTruthyOptions> = {},
+): Promise<DialogCall> {
+  const matches =
+    typeof matcher === 'function'
+      ? matcher
+      : (call: DialogCall) => dialogCallMatches(call, matcher)
+  let lastSeen: DialogCall[] = []
+  try {
+    return await retryUntilTruthy(async () => {
+      lastSeen = await getDialogCalls(app)
+      return lastSeen.find(matches)
+    }, options)
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.includes('Timeout')) throw err
+    const seen = lastSeen.length
+      ? lastSeen
+          .map((call) => `  ${call.method}(${JSON.stringify(call.options)})`)
+          .join('\n')
+      : '  (none)'
+    throw explainError(
+      new Error(
+        `waitForDialogCall: no matching dialog call. Recorded calls:\n${seen}`,
+      ),
+      errorHelp.waitForDialogCall,
+    )
+  }
+}
+
+/**
+ * Fail if the app called a dialog method that strict mode had no stub for -
+ * see the `strict` option of `stubDialogMatchers()`. Each surprise dialog is
+ * listed with the full options the app passed, and is reported only once, so
+ * the check suits an `afterEach` hook.
+ *
+ * @example
+ * ```ts
+ * test.beforeEach(async () => {
+ *   await stubDialogMatchers(app, [
+ *     { method: 'showMessageBox', matcher: { title: 'Quit?' }, value: { response: 0 } },
+ *   ], { strict: true })
+ * })
+ * test.afterEach(async () => {
+ *   await assertNoUnexpectedDialogs(app)
+ * })
+ * ```
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves if there were no unexpected dialogs.
+ * @throws {Error} listing every unexpected dialog since the last check, or if
+ * the app closed before they could be read
+ */
+export async function assertNoUnexpectedDialogs(
+  app: ElectronApplication,
+): Promise<void> {
+  const unexpected = await retry(
+    () =>
+      app.evaluate(() => {
+        const state = (globalThis as any).__electronPlaywrightHelpers?.dialog
+        if (!state?.unexpected) return [] as DialogCall[]
+        return state.unexpected.splice(0) as DialogCall[]
+      }),
+    // reading empties the list, so a second attempt after a lost reply would
+    // find nothing and pass - it is never retried
+    { disable: true },
+  )
+  if (unexpected === undefined) {
+    throw new Error(
+      'assertNoUnexpectedDialogs: the app closed before the dialogs could be read',
+    )
+  }
+  if (unexpected.length === 0) return
+  const list = unexpected
+    .map(
+      (call) =>
+        `  ${call.method}(${JSON.stringify(call.options)})` +
+        (call.windowId === undefined ? '' : ` in window ${call.windowId}`),
+    )
+    .join('\n')
+  throw explainError(
+    new Error(
+      `assertNoUnexpectedDialogs: the app opened ${unexpected.length} unexpected dialog(s):\n${list}`,
+    ),
+    errorHelp.assertNoUnexpectedDialogs,
+  )
+}
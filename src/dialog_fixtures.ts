@@ -0,0 +1,228 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { ElectronApplication } from 'playwright-core'
+import {
+  DialogStubHandle,
+  OpenDialogMatcherStub,
+  SaveDialogMatcherStub,
+  stubDialogMatchers,
+} from './dialog_matchers'
+import { errorHelp, explainError } from './error_help'
+
+/**
+ * A directory tree to create for a `DialogFixture`: each key is a file or
+ * directory name. A string or Buffer is a file's content, a nested object is
+ * a directory (an empty object for an empty one).
+ *
+ * @example
+ * ```ts
+ * {
+ *   'notes.txt': 'hello',
+ *   photos: { 'cat.png': pngBuffer, 'dog.png': pngBuffer },
+ *   empty: {},
+ * }
+ * ```
+ *
+ * @category Dialog
+ */
+export type DialogFileTree = {
+  [name: string]: string | Buffer | DialogFileTree
+}
+
+/**
+ * A temporary directory for an open/save dialog flow, and the stubs that
+ * point the app's dialogs into it. Every path taken or returned is relative
+ * to `root`, and must stay inside it - one that leads out of `root`, such as
+ * `'../x'` or an absolute path, is rejected. Call `cleanup()` - or use
+ * `await using` - when done.
+ *
+ * @category Dialog
+ */
+export type DialogFixture = {
+  /** The absolute path of the temporary directory. */
+  root: string
+  /**
+   * Resolve a path relative to `root`.
+   * @throws {Error} if the path leads outside `root`
+   */
+  path(relativePath: string): string
+  /**
+   * Answer the app's open dialogs with these files. Stubs both
+   * `showOpenDialog` and `showOpenDialogSync`, for dialogs that match
+   * `matcher` (all of them by default).
+   */
+  open(
+    relativePaths: string | string[],
+    matcher?: OpenDialogMatcherStub['matcher'],
+  ): Promise<DialogStubHandle>
+  /**
+   * Answer the app's save dialogs with this file, which needn't exist yet.
+   * Stubs both `showSaveDialog` and `showSaveDialogSync`, for dialogs that
+   * match `matcher` (all of them by default).
+   */
+  save(
+    relativePath: string,
+    matcher?: SaveDialogMatcherStub['matcher'],
+  ): Promise<DialogStubHandle>
+  /**
+   * Read back what the app wrote to the path of the last `save()` call, or
+   * to `relativePath`. Returns a Buffer when `encoding` is null.
+   * @throws {Error} if the file does not exist
+   */
+  readSaved(relativePath?: string): Promise<string>
+  readSaved(relativePath: string | undefined, encoding: null): Promise<Buffer>
+  /** Whether a file or directory exists in the fixture. */
+  exists(relativePath: string): Promise<boolean>
+  /** Restore every stub the fixture installed and delete the directory. */
+  cleanup(): Promise<void>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/** resolve `relativePath` against `dir`, refusing anything that leaves it */
+function resolveInside(dir: string, relativePath: string): string {
+  const resolved = path.resolve(dir, relativePath)
+  const relative = path.relative(dir, resolved)
+  if (
+    relative === '..' ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`${relativePath} is outside the fixture directory ${dir}`)
+  }
+  return resolved
+}
+
+async function writeTree(dir: string, tree: DialogFileTree): Promise<void> {
+  await fs.mkdir(dir, { recursive: true })
+  for (const [name, entry] of Object.entries(tree)) {
+    const target = resolveInside(dir, name)
+    if (typeof entry === 'string' || Buffer.isBuffer(entry)) {
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, entry)
+    } else {
+      await writeTree(target, entry)
+    }
+  }
+}
+
+/**
+ * Build a temporary directory tree from a declarative spec, and get back a
+ * fixture that stubs the open and save dialogs with paths inside it. The
+ * stubs are ordinary `stubDialogMatchers()` stubs, so the call log,
+ * `restoreAllDialogs()` and the rest work as usual.
+ *
+ * The directory is created by the test process and read by the app, which is
+ * fine as long as both run on the same machine - as they do with Playwright's
+ * Electron support.
+ *
+ * @example
+ * ```ts
+ * await using files = await createDialogFixture(app, {
+ *   'draft.md': '# Draft',
+ * })
+ * await files.open('draft.md')
+ * await files.save('published/final.md')
+ * await clickMenuItemById(app, 'open-file')
+ * await clickMenuItemById(app, 'save-as')
+ * expect(await files.readSaved()).toBe('# Draft')
+ * ```
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param tree - Optional. The files and directories to create.
+ * @returns A promise that resolves with the fixture once the files exist.
+ */
+export async function createDialogFixture(
+  app: ElectronApplication,
+  tree: DialogFileTree = {},
+): Promise<DialogFixture> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'epwh-dialog-'))
+  try {
+    await writeTree(root, tree)
+  } catch (err) {
+    await fs.rm(root, { recursive: true, force: true })
+    throw err
+  }
+
+  const handles: DialogStubHandle[] = []
+  let lastSaved: string | undefined
+  const resolve = (relativePath: string) => resolveInside(root, relativePath)
+
+  const fixture: DialogFixture = {
+    root,
+    path: resolve,
+    open: async (relativePaths, matcher = {}) => {
+      const filePaths = [relativePaths].flat().map(resolve)
+      const handle = await stubDialogMatchers(app, [
+        {
+          method: 'showOpenDialog',
+          matcher,
+          value: { canceled: false, filePaths },
+        },
+        // one matcher serves both methods, whose options are alike
+        {
+          method: 'showOpenDialogSync',
+          matcher: matcher as OpenDialogMatcherStub['matcher'],
+          value: filePaths,
+        },
+      ])
+      handles.push(handle)
+      return handle
+    },
+    save: async (relativePath, matcher = {}) => {
+      const filePath = resolve(relativePath)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      const handle = await stubDialogMatchers(app, [
+        {
+          method: 'showSaveDialog',
+          matcher,
+          value: { canceled: false, filePath },
+        },
+        {
+          method: 'showSaveDialogSync',
+          matcher: matcher as SaveDialogMatcherStub['matcher'],
+          value: filePath,
+        },
+      ])
+      lastSaved = relativePath
+      handles.push(handle)
+      return handle
+    },
+    readSaved: (async (
+      relativePath: string | undefined = lastSaved,
+      encoding: BufferEncoding | null = 'utf8',
+    ) => {
+      if (relativePath === undefined) {
+        throw new Error('readSaved: no path given, and save() was never called')
+      }
+      try {
+        return await fs.readFile(resolve(relativePath), encoding)
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        throw explainError(
+          new Error(`readSaved: the app has not written ${relativePath}`),
+          errorHelp.dialogFixtureReadSaved,
+        )
+      }
+    }) as DialogFixture['readSaved'],
+    exists: async (relativePath) =>
+      fs.access(resolve(relativePath)).then(
+        () => true,
+        () => false,
+      ),
+    cleanup: async () => {
+      // the app may be gone already, but the directory is ours to remove
+      try {
+        for (const handle of handles.splice(0).reverse()) {
+          await handle.restore()
+        }
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    },
+    [Symbol.asyncDispose]: () => fixture.cleanup(),
+  }
+  return fixture
+}
@@ -1,15 +1,28 @@
 import { ElectronApplication } from 'playwright-core'
-import { retry } from './utilities'
+import {
+  DialogMatcherStub,
+  DialogOptionsMap,
+  DialogStubHandle,
+  DialogStubResponse,
+  stubDialogMatchers,
+} from './dialog_matchers'
 
 export type DialogMethodStub<T extends keyof Electron.Dialog> = {
   method: T
   value: Awaited<ReturnType<Electron.Dialog[T]>>
 }
 
+/**
+ * A stub for one dialog method: a `value` to answer every call with, `values`
+ * to answer successive calls with, or a `respond` function - see
+ * `DialogStubResponse`.
+ */
 export type DialogMethodStubPartial<T extends keyof Electron.Dialog> = {
   method: T
-  value: Partial<Awaited<ReturnType<Electron.Dialog[T]>>>
-}
+} & DialogStubResponse<
+  Partial<Awaited<ReturnType<Electron.Dialog[T]>>>,
+  DialogOptionsMap[T]
+>
 
 type DialogDefaults = {
   [K in keyof Electron.Dialog]: Awaited<ReturnType<Electron.Dialog[K]>>
@@ -49,6 +62,8 @@ const dialogDefaults: DialogDefaults = {
  * Note: Each dialog method can only be stubbed with one value at a time, so you will want to call
  * `stubDialog` before each time that you expect your application to call the dialog method.
  *
+ * The returned handle puts the original method back - see `DialogStubHandle`.
+ *
  * @example
  * ```ts
  * await stubDialog(app, 'showOpenDialog', {
@@ -69,15 +84,15 @@ const dialogDefaults: DialogDefaults = {
  * @param value {ReturnType<Electron.Dialog>} The value that your application will receive when calling this dialog method.
  *   See the [Electron docs](https://www.electronjs.org/docs/latest/api/dialog#dialogshowopendialogbrowserwindow-options) for
  *   the return value of each method.
- * @returns {Promise<void>} A promise that resolves when the mock is applied.
- * @fullfil {void} - A promise that resolves when the mock is applied.
+ * @returns {Promise<DialogStubHandle>} A promise that resolves when the mock is applied.
+ * @fullfil {DialogStubHandle} - A handle which restores the original method.
  *
  */
 export function stubDialog<T extends keyof Electron.Dialog>(
   app: ElectronApplication,
   method: T,
   value?: Partial<Awaited<ReturnType<Electron.Dialog[T]>>>,
-) {
+): Promise<DialogStubHandle> {
   if (!value) value = dialogDefaults[method]
   return stubMultipleDialogs(app, [{ method, value }])
 }
@@ -92,6 +107,10 @@ export function stubDialog<T extends keyof Electron.Dialog>(
  * "when my application calls dialog.showOpenDialog, return this value instead". This allows you
  * to test your application's behavior when the user selects a file, or cancels the dialog, etc.
  *
+ * This is `stubDialogMatchers()` with a match-everything matcher for each method, so the
+ * returned handle works the same way - see `DialogStubHandle`. Each mock can take `values`
+ * instead of `value`, to answer successive calls differently.
+ *
  * @example
  * ```ts
  * await stubMultipleDialogs(app, [
@@ -109,6 +128,11 @@ export function stubDialog<T extends keyof Electron.Dialog>(
  *       canceled: false,
  *     },
  *   },
+ *   {
+ *     // "Cancel" the first time, "OK" every time after that
+ *     method: 'showMessageBoxSync',
+ *     values: [1, 0],
+ *   },
  * ])
  * await clickMenuItemById(app, 'save-file')
  * // when your application calls dialog.showSaveDialog,
@@ -119,48 +143,20 @@ export function stubDialog<T extends keyof Electron.Dialog>(
  *
  * @param app {ElectronApplication} The Playwright ElectronApplication instance.
  * @param mocks {DialogMethodStubPartial[]} An array of dialog method mocks to apply.
- * @returns {Promise<void>} A promise that resolves when the mocks are applied.
- * @fullfil {void} - A promise that resolves when the mocks are applied.
+ * @returns {Promise<DialogStubHandle>} A promise that resolves when the mocks are applied.
+ * @fullfil {DialogStubHandle} - A handle which restores the original methods.
  */
 export function stubMultipleDialogs<T extends keyof Electron.Dialog>(
   app: ElectronApplication,
   mocks: DialogMethodStubPartial<T>[],
-) {
-  const mocksRequired = mocks.map((mock) => {
-    const methodDefault = dialogDefaults[mock.method]
-    if (!methodDefault) return mock as DialogMethodStub<T>
-    if (typeof mock.value === 'object') {
-      mock.value = Object.assign({}, methodDefault, mock.value)
-    } else {
-      mock.value = mock.value ?? methodDefault
-    }
-    return mock as DialogMethodStub<T>
-  })
-
+): Promise<DialogStubHandle> {
   // idea from https://github.com/microsoft/playwright/issues/8278#issuecomment-1009957411 by @MikeJerred
-  return retry(() =>
-    app.evaluate(({ dialog }, mocks) => {
-      mocks.forEach((mock: DialogMethodStub<keyof Electron.Dialog>) => {
-        const thisDialog = dialog[mock.method]
-        if (!thisDialog) {
-          throw new Error(`can't find ${mock.method} on dialog module.`)
-        }
-        if (mock.method.endsWith('Sync')) {
-          // @ts-ignore
-          dialog[mock.method] = () => {
-            // console.log(`Dialog.${v.method}(${args.join(', ')})`)
-            return mock.value
-          }
-        } else {
-          // @ts-ignore
-          dialog[mock.method] = async () => {
-            // console.log(`Dialog.${v.method}(${args.join(', ')})`)
-            return mock.value
-          }
-        }
-      })
-    }, mocksRequired),
-  )
+  // stubDialogMatchers() fills in the defaults for any value left out
+  const stubs = mocks.map((mock) => ({
+    ...mock,
+    matcher: {},
+  })) as DialogMatcherStub[]
+  return stubDialogMatchers(app, stubs)
 }
 
 /**
@@ -174,10 +170,12 @@ export function stubMultipleDialogs<T extends keyof Electron.Dialog>(
  * @category Dialog
  *
  * @param app {ElectronApplication} The Playwright ElectronApplication instance.
- * @returns {Promise<void>} A promise that resolves when the mocks are applied.
- * @fullfil {void} - A promise that resolves when the mocks are applied.
+ * @returns {Promise<DialogStubHandle>} A promise that resolves when the mocks are applied.
+ * @fullfil {DialogStubHandle} - A handle which restores the original methods.
  */
-export function stubAllDialogs(app: ElectronApplication) {
+export function stubAllDialogs(
+  app: ElectronApplication,
+): Promise<DialogStubHandle> {
   // reformat the dialogDefaults object into the format that stubMultipleDialogs expects
   const stubMultipleDialogsArgs = []
   for (const [method, value] of Object.entries(dialogDefaults)) {
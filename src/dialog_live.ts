@@ -0,0 +1,254 @@
+import type { ElectronApplication } from 'playwright-core'
+import type {
+  LiveDialogInfo,
+  LiveDialogMethod,
+  MainDialogState,
+  MessageBoxReturnValue,
+  OpenDialogReturnValue,
+  SaveDialogReturnValue,
+} from './dialog_matchers'
+import { errorHelp, explainError, teardownErrorMatch } from './error_help'
+import { errToString, retry } from './utilities'
+
+/**
+ * What each live dialog method can be answered with. As with stub values,
+ * anything left out is filled in from the method's default.
+ *
+ * @category Dialog
+ */
+export type LiveDialogAnswerMap = {
+  showMessageBox: Partial<MessageBoxReturnValue>
+  showOpenDialog: Partial<OpenDialogReturnValue>
+  showSaveDialog: Partial<SaveDialogReturnValue>
+  showCertificateTrustDialog: void
+}
+
+/**
+ * A dialog the app is waiting on, caught by a `live: true` stub. The app's
+ * call stays pending - as if the dialog were open on screen - until the test
+ * calls `respond()`.
+ *
+ * @category Dialog
+ */
+export type LiveDialog<M extends LiveDialogMethod = LiveDialogMethod> =
+  LiveDialogInfo & {
+    method: M
+    /**
+     * Answer the dialog, settling the app's pending call.
+     * @throws {Error} if the dialog has already been answered
+     */
+    respond(value?: LiveDialogAnswerMap[M]): Promise<void>
+  }
+
+/**
+ * Options for `waitForLiveDialog()` and `onLiveDialog()`.
+ *
+ * @category Dialog
+ */
+export type LiveDialogOptions<M extends LiveDialogMethod = LiveDialogMethod> = {
+  /** Only take dialogs opened with this method. */
+  method?: M
+  /** How long to wait, in milliseconds. Defaults to 5000. */
+  timeout?: number
+}
+
+function createLiveDialog<M extends LiveDialogMethod>(
+  app: ElectronApplication,
+  info: LiveDialogInfo,
+): LiveDialog<M> {
+  return {
+    ...info,
+    method: info.method as M,
+    respond: (value) =>
+      retry(
+        () =>
+          app.evaluate(
+            (_electron, { id, value }) => {
+              const state: MainDialogState | undefined = (globalThis as any)
+                .__electronPlaywrightHelpers?.dialog
+              const index =
+                state?.live.findIndex((live) => live.id === id) ?? -1
+              if (!state || index < 0) {
+                throw new Error(`Live dialog ${id} has already been answered`)
+              }
+              const [live] = state.live.splice(index, 1)
+              live.answer(value)
+            },
+            { id: info.id, value: value as unknown },
+          ),
+        // answering is one-shot: a second attempt after a lost reply would
+        // only report that the dialog had already been answered
+        { disable: true },
+      ),
+  }
+}
+
+/**
+ * Claim the oldest live dialog not yet handed to the test, waiting up to
+ * `timeout` for one to open. Resolves with undefined on timeout.
+ */
+function nextLiveDialog(
+  app: ElectronApplication,
+  method: LiveDialogMethod | undefined,
+  timeout: number,
+): Promise<LiveDialogInfo | undefined> {
+  return retry(() =>
+    app.evaluate(
+      (_electron, { method, timeout }) =>
+        new Promise<LiveDialogInfo | undefined>((resolve) => {
+          const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+          const state: MainDialogState = (root.dialog ??= {
+            originals: {},
+            owners: {},
+            nextHandleId: 1,
+            calls: [],
+            unexpected: [],
+            stubs: {},
+            nextLiveId: 1,
+            live: [],
+            liveWaiters: [],
+          })
+          const take = () => {
+            const live = state.live.find(
+              (live) =>
+                !live.delivered &&
+                (method === undefined || live.method === method),
+            )
+            if (!live) return false
+            live.delivered = true
+            resolve({
+              id: live.id,
+              method: live.method,
+              options: live.options,
+              windowId: live.windowId,
+              stubIndex: live.stubIndex,
+            })
+            return true
+          }
+          if (take()) return
+          // the waiter holds `resolve`, and with it this promise, so V8 can't
+          // collect the promise Playwright is awaiting while the app is idle
+          const wait = () => {
+            if (take()) clearTimeout(timer)
+            else state.liveWaiters.push(wait)
+          }
+          const timer = setTimeout(() => {
+            state.liveWaiters = state.liveWaiters.filter((w) => w !== wait)
+            resolve(undefined)
+          }, timeout)
+          state.liveWaiters.push(wait)
+        }),
+      { method, timeout },
+    ),
+  )
+}
+
+/**
+ * Wait for the app to open a dialog caught by a live stub, and return it so
+ * the test can look around - at the app's windows, its state - before
+ * deciding the answer. Like `page.on('dialog')` for web pages, except that
+ * the dialog is only ever answered by the test.
+ *
+ * Each live dialog is handed out once, oldest first, so two consecutive calls
+ * get two different dialogs.
+ *
+ * @example
+ * ```ts
+ * await stubDialogMatchers(app, [
+ *   { method: 'showMessageBox', matcher: { title: 'Delete File' }, live: true },
+ * ])
+ * await page.click('#delete')
+ * const dialog = await waitForLiveDialog(app, { method: 'showMessageBox' })
+ * expect(dialog.options?.message).toContain('delete this file')
+ * // the app is still waiting: nothing may have been deleted yet
+ * await expect(page.locator('.file')).toHaveCount(1)
+ * await dialog.respond({ response: 1 })
+ * ```
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param options - Optional. Which method to wait for, and for how long.
+ * @returns A promise that resolves with the live dialog.
+ * @throws {Error} if no live dialog opens before the timeout
+ */
+export async function waitForLiveDialog<
+  M extends LiveDialogMethod = LiveDialogMethod,
+>(
+  app: ElectronApplication,
+  options: LiveDialogOptions<M> = {},
+): Promise<LiveDialog<M>> {
+  const { method, timeout = 5000 } = options
+  const info = await nextLiveDialog(app, method, timeout)
+  if (!info) {
+    throw explainError(
+      new Error(
+        `waitForLiveDialog: no ${method ?? 'live'} dialog opened within ${timeout}ms`,
+      ),
+      errorHelp.waitForLiveDialog,
+    )
+  }
+  return createLiveDialog<M>(app, info)
+}
+
+/**
+ * Hand every live dialog to `handler` as it opens, until the returned
+ * function is called. The handler is expected to `respond()`; one that
+ * doesn't leaves the app waiting. A handler that throws doesn't stop the
+ * listening - later dialogs are still handed to it - but the returned
+ * function rejects with the first error.
+ *
+ * @example
+ * ```ts
+ * const stop = onLiveDialog(app, async (dialog) => {
+ *   await expect(page.locator('#status')).toHaveText('Saving...')
+ *   await dialog.respond({ response: 0 })
+ * })
+ * // ...
+ * await stop()
+ * ```
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param handler - Called with each live dialog, one at a time.
+ * @param options - Optional. `method` limits the handler to one dialog method.
+ * @returns A function which stops listening. It resolves once any dialog
+ *   being handled is done, and rejects with the handler's first error if it
+ *   ever threw.
+ */
+export function onLiveDialog<M extends LiveDialogMethod = LiveDialogMethod>(
+  app: ElectronApplication,
+  handler: (dialog: LiveDialog<M>) => unknown,
+  options: Pick<LiveDialogOptions<M>, 'method'> = {},
+): () => Promise<void> {
+  let stopped = false
+  let failure: unknown
+  let handlerFailure: unknown
+  // short polls, so stopping doesn't wait out a long one
+  const listening = (async () => {
+    while (!stopped) {
+      const info = await nextLiveDialog(app, options.method, 250)
+      if (!info) continue
+      try {
+        await handler(createLiveDialog<M>(app, info))
+      } catch (err) {
+        // one bad dialog must not leave every later one pending: keep
+        // listening, and report the first failure from stop()
+        handlerFailure ??= err
+      }
+    }
+  })().catch((err) => {
+    failure = err
+  })
+  return async () => {
+    stopped = true
+    await listening
+    if (handlerFailure !== undefined) throw handlerFailure
+    // the app closing under the listener is how most tests end
+    const closed = teardownErrorMatch.some((match) =>
+      errToString(failure).includes(match),
+    )
+    if (failure !== undefined && !closed) throw failure
+  }
+}
@@ -1,4 +1,5 @@
-import { ElectronApplication } from 'playwright-core'
+import { ElectronApplication, Page } from 'playwright-core'
+import { retry } from './utilities'
 
 /**
  * A serializable pattern for matching dialog options.
@@ -42,6 +43,34 @@ export function matchesPattern(
 // Dialog Option Types for Matching
 // ============================================================================
 
+/**
+ * Matches the window a dialog is attached to - the optional first argument of
+ * every dialog method except showErrorBox. A matcher with `parentWindow` never
+ * matches a dialog opened without a parent.
+ *
+ * @category Dialog
+ */
+export type ParentWindowMatcher = {
+  /** Match against the window's title (BrowserWindow.getTitle()) */
+  title?: string | RegExp
+  /** Match against the URL loaded in the window (webContents.getURL()) */
+  url?: string | RegExp
+}
+
+/**
+ * Matches one entry of the `filters` option of an open or save dialog. Passes
+ * when at least one of the dialog's filters has a matching `name` and offers
+ * every one of `extensions` (in any order, without the leading dot).
+ *
+ * @category Dialog
+ */
+export type FileFilterMatcher = {
+  /** Match against FileFilter.name, e.g. 'Images' */
+  name?: string | RegExp
+  /** Extensions the filter must include, e.g. `['png', 'jpg']` */
+  extensions?: string[]
+}
+
 /**
  * Matchable options for showMessageBox/showMessageBoxSync.
  * All properties are optional - only provided properties will be matched.
@@ -57,8 +86,17 @@ export type MessageBoxMatcher = {
   detail?: string | RegExp
   /** Match against MessageBoxOptions.checkboxLabel */
   checkboxLabel?: string | RegExp
-  /** Match against any button text in MessageBoxOptions.buttons array */
-  buttons?: string | RegExp
+  /**
+   * A string or RegExp matches if any one button's text matches. An array
+   * matches the whole list exactly, in order - one pattern per button.
+   */
+  buttons?: string | RegExp | Array<string | RegExp>
+  /** Match against MessageBoxOptions.defaultId */
+  defaultId?: number
+  /** Match against MessageBoxOptions.cancelId */
+  cancelId?: number
+  /** Match against the parent window, when the app passes one */
+  parentWindow?: ParentWindowMatcher
 }
 
 /**
@@ -73,6 +111,15 @@ export type OpenDialogMatcher = {
   buttonLabel?: string | RegExp
   /** Match against OpenDialogOptions.message (macOS) */
   message?: string | RegExp
+  /** Match against one of OpenDialogOptions.filters */
+  filters?: FileFilterMatcher
+  /**
+   * Properties the dialog must be opened with, e.g. `['openDirectory']`.
+   * Others may be set too.
+   */
+  properties?: OpenDialogProperty[]
+  /** Match against the parent window, when the app passes one */
+  parentWindow?: ParentWindowMatcher
 }
 
 /**
@@ -89,6 +136,15 @@ export type SaveDialogMatcher = {
   message?: string | RegExp
   /** Match against SaveDialogOptions.nameFieldLabel (macOS) */
   nameFieldLabel?: string | RegExp
+  /** Match against one of SaveDialogOptions.filters */
+  filters?: FileFilterMatcher
+  /**
+   * Properties the dialog must be opened with, e.g. `['showOverwriteConfirmation']`.
+   * Others may be set too.
+   */
+  properties?: SaveDialogProperty[]
+  /** Match against the parent window, when the app passes one */
+  parentWindow?: ParentWindowMatcher
 }
 
 /**
@@ -107,19 +163,44 @@ export type ErrorBoxMatcher = {
 export type CertificateTrustDialogMatcher = {
   /** Match against CertificateTrustDialogOptions.message */
   message?: string | RegExp
+  /** Match against the parent window, when the app passes one */
+  parentWindow?: ParentWindowMatcher
 }
 
 // ============================================================================
 // Serializable Matcher Types (for crossing evaluate boundary)
 // ============================================================================
 
+/** A value of OpenDialogOptions.properties, e.g. 'openDirectory'. */
+export type OpenDialogProperty = NonNullable<
+  Electron.OpenDialogOptions['properties']
+>[number]
+
+/** A value of SaveDialogOptions.properties, e.g. 'showHiddenFiles'. */
+export type SaveDialogProperty = NonNullable<
+  Electron.SaveDialogOptions['properties']
+>[number]
+
+export type SerializedParentWindowMatcher = {
+  title?: StringMatcher
+  url?: StringMatcher
+}
+
+export type SerializedFileFilterMatcher = {
+  name?: StringMatcher
+  extensions?: string[]
+}
+
 export type SerializedMessageBoxMatcher = {
   type?: StringMatcher
   message?: StringMatcher
   title?: StringMatcher
   detail?: StringMatcher
   checkboxLabel?: StringMatcher
-  buttons?: StringMatcher
+  buttons?: StringMatcher | StringMatcher[]
+  defaultId?: number
+  cancelId?: number
+  parentWindow?: SerializedParentWindowMatcher
 }
 
 export type SerializedOpenDialogMatcher = {
@@ -127,6 +208,9 @@ export type SerializedOpenDialogMatcher = {
   defaultPath?: StringMatcher
   buttonLabel?: StringMatcher
   message?: StringMatcher
+  filters?: SerializedFileFilterMatcher
+  properties?: OpenDialogProperty[]
+  parentWindow?: SerializedParentWindowMatcher
 }
 
 export type SerializedSaveDialogMatcher = {
@@ -135,6 +219,9 @@ export type SerializedSaveDialogMatcher = {
   buttonLabel?: StringMatcher
   message?: StringMatcher
   nameFieldLabel?: StringMatcher
+  filters?: SerializedFileFilterMatcher
+  properties?: SaveDialogProperty[]
+  parentWindow?: SerializedParentWindowMatcher
 }
 
 export type SerializedErrorBoxMatcher = {
@@ -144,6 +231,7 @@ export type SerializedErrorBoxMatcher = {
 
 export type SerializedCertificateTrustDialogMatcher = {
   message?: StringMatcher
+  parentWindow?: SerializedParentWindowMatcher
 }
 
 // ============================================================================
@@ -181,77 +269,234 @@ export type SaveDialogReturnValue = {
   bookmark?: string
 }
 
+/**
+ * What a sequenced stub does once every one of its `values` has been used:
+ * - `'repeatLast'` (default) keeps answering with the last value
+ * - `'fallThrough'` stops matching, so a later stub or the method's default answers
+ * - `'throw'` throws inside the app, like `throwOnUnmatched`
+ *
+ * @category Dialog
+ */
+export type DialogSequenceExhausted = 'repeatLast' | 'fallThrough' | 'throw'
+
+/**
+ * The options each dialog method is called with, as handed to function
+ * matchers and responders. showErrorBox(title, content) takes no options
+ * object, so its arguments arrive as `{ title, content }`.
+ *
+ * @category Dialog
+ */
+export type DialogOptionsMap = {
+  showMessageBox: Electron.MessageBoxOptions
+  showMessageBoxSync: Electron.MessageBoxSyncOptions
+  showOpenDialog: Electron.OpenDialogOptions
+  showOpenDialogSync: Electron.OpenDialogSyncOptions
+  showSaveDialog: Electron.SaveDialogOptions
+  showSaveDialogSync: Electron.SaveDialogSyncOptions
+  showErrorBox: { title: string; content: string }
+  showCertificateTrustDialog: Electron.CertificateTrustDialogOptions
+}
+
+/**
+ * A predicate deciding whether a stub answers a dialog call. It runs inside
+ * the Electron main process, so - like an `electronApp.evaluate()` callback -
+ * it is sent as source and cannot use variables from the test's scope.
+ *
+ * @category Dialog
+ */
+export type DialogMatcherFunction<O> = (
+  options: O,
+  parentWindow: Electron.BaseWindow | undefined,
+) => boolean
+
+/**
+ * Computes a stub's answer from the options the app passed, inside the
+ * Electron main process (see `DialogMatcherFunction` for what that rules out).
+ * Object results are merged into the method's default, as stub values are.
+ * It must return its answer synchronously, even for the async dialog methods.
+ *
+ * @category Dialog
+ */
+export type DialogResponder<O, V> = (
+  options: O,
+  parentWindow: Electron.BaseWindow | undefined,
+) => V
+
+/**
+ * How a stub answers: the same `value` every time, each of `values` in turn -
+ * e.g. "Cancel" for the first confirmation and "OK" for the second - or
+ * whatever its `respond` function works out from the dialog's options.
+ *
+ * @category Dialog
+ */
+export type DialogStubResponse<V, O = unknown> =
+  | {
+      value: V
+      values?: undefined
+      whenExhausted?: undefined
+      respond?: undefined
+    }
+  | {
+      value?: undefined
+      /** Answers for successive calls, in order. */
+      values: V[]
+      /** What to do after the last of `values`. Defaults to `'repeatLast'`. */
+      whenExhausted?: DialogSequenceExhausted
+      respond?: undefined
+    }
+  | {
+      value?: undefined
+      values?: undefined
+      whenExhausted?: undefined
+      /** Computes the answer to each call, in the main process. */
+      respond: DialogResponder<O, V>
+    }
+
+/**
+ * Limits a stub to dialogs attached to one window: a BrowserWindow id, the
+ * window's title (a string matches exactly), or the Playwright `Page` it
+ * shows. Compared against the parent window the app passes to the dialog
+ * method, so a stub with a `window` never answers a dialog without a parent.
+ *
+ * @category Dialog
+ */
+export type DialogWindowSelector = number | string | RegExp | Page
+
+/**
+ * Don't answer at all: the app's call stays pending until the test answers it
+ * through `waitForLiveDialog()` or `onLiveDialog()`, just as a real dialog
+ * would stay open until the user clicks. Only the async dialog methods can be
+ * live - the sync ones would block the very process that has to hear the answer.
+ *
+ * @category Dialog
+ */
+export type DialogLiveResponse = {
+  live: true
+  value?: undefined
+  values?: undefined
+  whenExhausted?: undefined
+  respond?: undefined
+}
+
 /**
  * A matcher stub for showMessageBox.
  */
 export type MessageBoxMatcherStub = {
   method: 'showMessageBox'
-  matcher: MessageBoxMatcher
-  value: Partial<MessageBoxReturnValue>
-}
+  matcher:
+    | MessageBoxMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showMessageBox']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & (
+  | DialogStubResponse<
+      Partial<MessageBoxReturnValue>,
+      DialogOptionsMap['showMessageBox']
+    >
+  | DialogLiveResponse
+)
 
 /**
  * A matcher stub for showMessageBoxSync.
  */
 export type MessageBoxSyncMatcherStub = {
   method: 'showMessageBoxSync'
-  matcher: MessageBoxMatcher
-  value: number
-}
+  matcher:
+    | MessageBoxMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showMessageBoxSync']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & DialogStubResponse<number, DialogOptionsMap['showMessageBoxSync']>
 
 /**
  * A matcher stub for showOpenDialog.
  */
 export type OpenDialogMatcherStub = {
   method: 'showOpenDialog'
-  matcher: OpenDialogMatcher
-  value: Partial<OpenDialogReturnValue>
-}
+  matcher:
+    | OpenDialogMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showOpenDialog']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & (
+  | DialogStubResponse<
+      Partial<OpenDialogReturnValue>,
+      DialogOptionsMap['showOpenDialog']
+    >
+  | DialogLiveResponse
+)
 
 /**
  * A matcher stub for showOpenDialogSync.
  */
 export type OpenDialogSyncMatcherStub = {
   method: 'showOpenDialogSync'
-  matcher: OpenDialogMatcher
-  value: string[] | undefined
-}
+  matcher:
+    | OpenDialogMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showOpenDialogSync']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & DialogStubResponse<
+  string[] | undefined,
+  DialogOptionsMap['showOpenDialogSync']
+>
 
 /**
  * A matcher stub for showSaveDialog.
  */
 export type SaveDialogMatcherStub = {
   method: 'showSaveDialog'
-  matcher: SaveDialogMatcher
-  value: Partial<SaveDialogReturnValue>
-}
+  matcher:
+    | SaveDialogMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showSaveDialog']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & (
+  | DialogStubResponse<
+      Partial<SaveDialogReturnValue>,
+      DialogOptionsMap['showSaveDialog']
+    >
+  | DialogLiveResponse
+)
 
 /**
  * A matcher stub for showSaveDialogSync.
  */
 export type SaveDialogSyncMatcherStub = {
   method: 'showSaveDialogSync'
-  matcher: SaveDialogMatcher
-  value: string | undefined
-}
+  matcher:
+    | SaveDialogMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showSaveDialogSync']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & DialogStubResponse<
+  string | undefined,
+  DialogOptionsMap['showSaveDialogSync']
+>
 
 /**
  * A matcher stub for showErrorBox.
  */
 export type ErrorBoxMatcherStub = {
   method: 'showErrorBox'
-  matcher: ErrorBoxMatcher
-  value: void
-}
+  matcher:
+    ErrorBoxMatcher | DialogMatcherFunction<DialogOptionsMap['showErrorBox']>
+} & DialogStubResponse<void, DialogOptionsMap['showErrorBox']>
 
 /**
  * A matcher stub for showCertificateTrustDialog.
  */
 export type CertificateTrustDialogMatcherStub = {
   method: 'showCertificateTrustDialog'
-  matcher: CertificateTrustDialogMatcher
-  value: void
-}
+  matcher:
+    | CertificateTrustDialogMatcher
+    | DialogMatcherFunction<DialogOptionsMap['showCertificateTrustDialog']>
+  /** Only answer dialogs attached to this window. */
+  window?: DialogWindowSelector
+} & (
+  | DialogStubResponse<void, DialogOptionsMap['showCertificateTrustDialog']>
+  | DialogLiveResponse
+)
 
 /**
  * Union type of all dialog matcher stubs.
@@ -270,63 +515,36 @@ export type DialogMatcherStub =
 // Serialized Matcher Stub Types (for crossing evaluate boundary)
 // ============================================================================
 
-type SerializedMessageBoxMatcherStub = {
-  method: 'showMessageBox'
-  matcher: SerializedMessageBoxMatcher
-  value: MessageBoxReturnValue
-}
-
-type SerializedMessageBoxSyncMatcherStub = {
-  method: 'showMessageBoxSync'
-  matcher: SerializedMessageBoxMatcher
-  value: number
-}
-
-type SerializedOpenDialogMatcherStub = {
-  method: 'showOpenDialog'
-  matcher: SerializedOpenDialogMatcher
-  value: OpenDialogReturnValue
-}
-
-type SerializedOpenDialogSyncMatcherStub = {
-  method: 'showOpenDialogSync'
-  matcher: SerializedOpenDialogMatcher
-  value: string[] | undefined
-}
-
-type SerializedSaveDialogMatcherStub = {
-  method: 'showSaveDialog'
-  matcher: SerializedSaveDialogMatcher
-  value: SaveDialogReturnValue
-}
-
-type SerializedSaveDialogSyncMatcherStub = {
-  method: 'showSaveDialogSync'
-  matcher: SerializedSaveDialogMatcher
-  value: string | undefined
-}
-
-type SerializedErrorBoxMatcherStub = {
-  method: 'showErrorBox'
-  matcher: SerializedErrorBoxMatcher
-  value: void
-}
-
-type SerializedCertificateTrustDialogMatcherStub = {
-  method: 'showCertificateTrustDialog'
-  matcher: SerializedCertificateTrustDialogMatcher
-  value: void
+/**
+ * A stub as it crosses into the main process: matcher serialized, defaults
+ * filled in. Inside Electron every method is handled the same way, so one
+ * shape covers them all.
+ */
+type SerializedDialogMatcher =
+  | SerializedMessageBoxMatcher
+  | SerializedOpenDialogMatcher
+  | SerializedSaveDialogMatcher
+  | SerializedErrorBoxMatcher
+  | SerializedCertificateTrustDialogMatcher
+
+type SerializedDialogMatcherStub = {
+  method: keyof Electron.Dialog
+  matcher: SerializedDialogMatcher
+  value: unknown
+  values?: unknown[]
+  whenExhausted?: DialogSequenceExhausted
+  /** source of a `DialogMatcherFunction`, checked after `matcher` */
+  predicate?: string
+  /** source of a `DialogResponder`, used instead of `value` */
+  responder?: string
+  /** leave the call pending for the test to answer */
+  live?: boolean
+  /** the parent window the call must come with */
+  window?: SerializedWindowSelector
 }
 
-type SerializedDialogMatcherStub =
-  | SerializedMessageBoxMatcherStub
-  | SerializedMessageBoxSyncMatcherStub
-  | SerializedOpenDialogMatcherStub
-  | SerializedOpenDialogSyncMatcherStub
-  | SerializedSaveDialogMatcherStub
-  | SerializedSaveDialogSyncMatcherStub
-  | SerializedErrorBoxMatcherStub
-  | SerializedCertificateTrustDialogMatcherStub
+/** A `DialogWindowSelector`, with a `Page` already resolved to its window id. */
+type SerializedWindowSelector = { id: number } | { title: StringMatcher }
 
 // ============================================================================
 // Default Return Values
@@ -358,6 +576,26 @@ const dialogMatcherDefaults: DialogMatcherDefaults = {
 // Serialization Helpers
 // ============================================================================
 
+function serializeParentWindowMatcher(
+  matcher: ParentWindowMatcher | undefined,
+): SerializedParentWindowMatcher | undefined {
+  if (!matcher) return undefined
+  return {
+    title: toSerializableMatcher(matcher.title),
+    url: toSerializableMatcher(matcher.url),
+  }
+}
+
+function serializeFileFilterMatcher(
+  matcher: FileFilterMatcher | undefined,
+): SerializedFileFilterMatcher | undefined {
+  if (!matcher) return undefined
+  return {
+    name: toSerializableMatcher(matcher.name),
+    extensions: matcher.extensions,
+  }
+}
+
 function serializeMessageBoxMatcher(
   matcher: MessageBoxMatcher,
 ): SerializedMessageBoxMatcher {
@@ -367,7 +605,12 @@ function serializeMessageBoxMatcher(
     title: toSerializableMatcher(matcher.title),
     detail: toSerializableMatcher(matcher.detail),
     checkboxLabel: toSerializableMatcher(matcher.checkboxLabel),
-    buttons: toSerializableMatcher(matcher.buttons),
+    buttons: Array.isArray(matcher.buttons)
+      ? matcher.buttons.map((button) => toSerializableMatcher(button))
+      : toSerializableMatcher(matcher.buttons),
+    defaultId: matcher.defaultId,
+    cancelId: matcher.cancelId,
+    parentWindow: serializeParentWindowMatcher(matcher.parentWindow),
   }
 }
 
@@ -379,6 +622,9 @@ function serializeOpenDialogMatcher(
     defaultPath: toSerializableMatcher(matcher.defaultPath),
     buttonLabel: toSerializableMatcher(matcher.buttonLabel),
     message: toSerializableMatcher(matcher.message),
+    filters: serializeFileFilterMatcher(matcher.filters),
+    properties: matcher.properties,
+    parentWindow: serializeParentWindowMatcher(matcher.parentWindow),
   }
 }
 
@@ -391,6 +637,9 @@ function serializeSaveDialogMatcher(
     buttonLabel: toSerializableMatcher(matcher.buttonLabel),
     message: toSerializableMatcher(matcher.message),
     nameFieldLabel: toSerializableMatcher(matcher.nameFieldLabel),
+    filters: serializeFileFilterMatcher(matcher.filters),
+    properties: matcher.properties,
+    parentWindow: serializeParentWindowMatcher(matcher.parentWindow),
   }
 }
 
@@ -408,70 +657,313 @@ function serializeCertificateTrustDialogMatcher(
 ): SerializedCertificateTrustDialogMatcher {
   return {
     message: toSerializableMatcher(matcher.message),
+    parentWindow: serializeParentWindowMatcher(matcher.parentWindow),
   }
 }
 
-function serializeMatcherStub(
-  stub: DialogMatcherStub,
-): SerializedDialogMatcherStub {
+function serializeMatcher(stub: DialogMatcherStub): SerializedDialogMatcher {
+  // function matchers cross over as `predicate` instead
+  if (typeof stub.matcher === 'function') return {}
   switch (stub.method) {
     case 'showMessageBox':
-      return {
-        method: 'showMessageBox',
-        matcher: serializeMessageBoxMatcher(stub.matcher),
-        value: {
-          ...dialogMatcherDefaults.showMessageBox,
-          ...stub.value,
-        },
-      }
     case 'showMessageBoxSync':
-      return {
-        method: 'showMessageBoxSync',
-        matcher: serializeMessageBoxMatcher(stub.matcher),
-        value: stub.value ?? dialogMatcherDefaults.showMessageBoxSync,
-      }
+      return serializeMessageBoxMatcher(stub.matcher)
     case 'showOpenDialog':
-      return {
-        method: 'showOpenDialog',
-        matcher: serializeOpenDialogMatcher(stub.matcher),
-        value: {
-          ...dialogMatcherDefaults.showOpenDialog,
-          ...stub.value,
-        },
-      }
     case 'showOpenDialogSync':
-      return {
-        method: 'showOpenDialogSync',
-        matcher: serializeOpenDialogMatcher(stub.matcher),
-        value: stub.value ?? dialogMatcherDefaults.showOpenDialogSync,
-      }
+      return serializeOpenDialogMatcher(stub.matcher)
     case 'showSaveDialog':
-      return {
-        method: 'showSaveDialog',
-        matcher: serializeSaveDialogMatcher(stub.matcher),
-        value: {
-          ...dialogMatcherDefaults.showSaveDialog,
-          ...stub.value,
-        },
-      }
     case 'showSaveDialogSync':
-      return {
-        method: 'showSaveDialogSync',
-        matcher: serializeSaveDialogMatcher(stub.matcher),
-        value: stub.value ?? dialogMatcherDefaults.showSaveDialogSync,
-      }
+      return serializeSaveDialogMatcher(stub.matcher)
     case 'showErrorBox':
-      return {
-        method: 'showErrorBox',
-        matcher: serializeErrorBoxMatcher(stub.matcher),
-        value: undefined,
-      }
+      return serializeErrorBoxMatcher(stub.matcher)
     case 'showCertificateTrustDialog':
-      return {
-        method: 'showCertificateTrustDialog',
-        matcher: serializeCertificateTrustDialogMatcher(stub.matcher),
-        value: undefined,
-      }
+      return serializeCertificateTrustDialogMatcher(stub.matcher)
+    default:
+      // only reachable from untyped callers - report it the way the main
+      // process would, rather than crashing on the missing return value
+      throw new Error(
+        `can't find ${(stub as DialogMatcherStub).method} on dialog module.`,
+      )
+  }
+}
+
+/**
+ * Fill in whatever a stub value leaves out from the method's default. Object
+ * results are merged, so `{ response: 1 }` still carries `checkboxChecked`.
+ */
+function withDefaults(method: keyof DialogMatcherDefaults, value: unknown) {
+  const fallback = dialogMatcherDefaults[method]
+  if (fallback && typeof fallback === 'object' && !Array.isArray(fallback)) {
+    return { ...fallback, ...(value as object) }
+  }
+  return value ?? fallback
+}
+
+async function serializeWindowSelector(
+  app: ElectronApplication,
+  selector: DialogWindowSelector | undefined,
+): Promise<SerializedWindowSelector | undefined> {
+  if (selector === undefined) return undefined
+  if (typeof selector === 'number') return { id: selector }
+  if (typeof selector === 'string' || selector instanceof RegExp) {
+    return { title: toSerializableMatcher(selector) }
+  }
+  // a Page - the main process knows windows, not pages, so look up its id
+  const browserWindow = await retry(() => app.browserWindow(selector))
+  return { id: await retry(() => browserWindow.evaluate((win) => win.id)) }
+}
+
+function serializeMatcherStub(
+  stub: DialogMatcherStub,
+): SerializedDialogMatcherStub {
+  const matcher = serializeMatcher(stub)
+  const predicate =
+    typeof stub.matcher === 'function' ? stub.matcher.toString() : undefined
+  if ('live' in stub && stub.live) {
+    // the types already rule these out, but not for untyped callers
+    const method = stub.method as DialogMethod
+    if (method.endsWith('Sync') || method === 'showErrorBox') {
+      throw new Error(
+        `${method} can't be live: it blocks the main process until it returns`,
+      )
+    }
+    return {
+      method: stub.method,
+      matcher,
+      predicate,
+      value: undefined,
+      live: true,
+    }
+  }
+  if (stub.respond) {
+    return {
+      method: stub.method,
+      matcher,
+      predicate,
+      value: undefined,
+      responder: stub.respond.toString(),
+    }
+  }
+  if (stub.values) {
+    return {
+      method: stub.method,
+      matcher,
+      predicate,
+      value: undefined,
+      values: stub.values.map((value) => withDefaults(stub.method, value)),
+      whenExhausted: stub.whenExhausted ?? 'repeatLast',
+    }
+  }
+  return {
+    method: stub.method,
+    matcher,
+    predicate,
+    // showErrorBox and showCertificateTrustDialog resolve with nothing
+    value: withDefaults(stub.method, stub.value),
+  }
+}
+
+// ============================================================================
+// Main Process State
+// ============================================================================
+
+/** The name of a method on Electron's `dialog` module. */
+export type DialogMethod = keyof Electron.Dialog
+
+/**
+ * One call the app made to a stubbed dialog method, as recorded in the main
+ * process. Read them back with `getDialogCalls()` or `waitForDialogCall()`.
+ *
+ * @category Dialog
+ */
+export type DialogCall = {
+  /** The dialog method the app called. */
+  method: DialogMethod
+  /**
+   * The options the app passed, as plain data. `showErrorBox(title, content)`
+   * takes no options object, so its arguments are recorded as `{ title, content }`.
+   */
+  options: Record<string, unknown> | undefined
+  /** The id of the parent BrowserWindow, when the app passed one. */
+  windowId: number | undefined
+  /** When the call happened, in milliseconds since the epoch (main process clock). */
+  timestamp: number
+  /**
+   * The index of the stub that answered, in the array passed to the stubbing
+   * function that installed it. `undefined` when no stub matched.
+   */
+  stubIndex: number | undefined
+  /** The value handed back to the app. */
+  returnValue: unknown
+  /**
+   * The message of the error thrown instead: no stub matched and
+   * `throwOnUnmatched` was set, a sequence ran out, or a stub's function threw.
+   */
+  error?: string
+  /** True when strict mode caught a call no stub matched. */
+  unexpected?: boolean
+}
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.dialog`.
+ *
+ * `evaluate()` callbacks cannot see anything in this module, so anything that
+ * has to outlive a single call - the original dialog methods above all - must
+ * live over there. Only the type is shared; every callback that touches the
+ * state creates it on first use.
+ *
+ * @ignore
+ */
+export type MainDialogState = {
+  /** the real dialog methods, stashed the first time each one is stubbed */
+  originals: Partial<Record<DialogMethod, unknown>>
+  /** which handle installed the stub currently in place for each method */
+  owners: Partial<Record<DialogMethod, number>>
+  /** the id the next stub handle will get */
+  nextHandleId: number
+  /** every call made to a stubbed method, oldest first */
+  calls: DialogCall[]
+  /** strict-mode calls no stub matched, not yet reported by assertNoUnexpectedDialogs() */
+  unexpected: DialogCall[]
+  /**
+   * the stubs each handle installed, by their position in the array passed to
+   * the stubbing function. `used` counts the `values` a sequence has handed out.
+   */
+  stubs: Record<number, (SerializedDialogMatcherStub & { used: number })[]>
+  /** the id the next live dialog will get */
+  nextLiveId: number
+  /** live dialogs the app is still waiting on, oldest first */
+  live: MainLiveDialog[]
+  /** waitForLiveDialog() calls to wake whenever a live dialog opens */
+  liveWaiters: (() => void)[]
+}
+
+/**
+ * A dialog the app opened through a live stub, as `waitForLiveDialog()` hands
+ * it to the test.
+ *
+ * @category Dialog
+ */
+export type LiveDialogInfo = {
+  /** Identifies the dialog until it is answered. */
+  id: number
+  /** The dialog method the app called. */
+  method: LiveDialogMethod
+  /** The options the app passed, as plain data. */
+  options: Record<string, unknown> | undefined
+  /** The id of the parent BrowserWindow, when the app passed one. */
+  windowId: number | undefined
+  /** The position of the live stub that caught the call. */
+  stubIndex: number
+}
+
+/** The dialog methods a stub can leave pending - see `DialogLiveResponse`. */
+export type LiveDialogMethod =
+  | 'showMessageBox'
+  | 'showOpenDialog'
+  | 'showSaveDialog'
+  | 'showCertificateTrustDialog'
+
+/**
+ * A live dialog as kept in the main process.
+ *
+ * @ignore
+ */
+export type MainLiveDialog = LiveDialogInfo & {
+  /** the handle whose stub caught it - restoring that handle settles it */
+  handleId: number
+  /** whether a waitForLiveDialog() call has already claimed it */
+  delivered: boolean
+  /** settle the app's pending call; defaults are filled in first */
+  answer: (value: unknown) => void
+}
+
+/**
+ * Returned by every dialog stubbing function. Restores the dialog methods that
+ * call replaced, either explicitly or at the end of an `await using` block.
+ *
+ * @example
+ * ```ts
+ * test('cancel the open dialog', async () => {
+ *   await using _stub = await stubDialog(app, 'showOpenDialog', { canceled: true })
+ *   await clickMenuItemById(app, 'open-file')
+ *   // the real dialog.showOpenDialog is back once the block ends
+ * })
+ * ```
+ *
+ * @category Dialog
+ */
+export type DialogStubHandle = {
+  /** The dialog methods this call replaced. */
+  methods: DialogMethod[]
+  /**
+   * Put back the original dialog methods this call replaced. A method that
+   * has been stubbed again since is left alone: the later stub owns it now.
+   * Dialogs its live stubs caught and the test has not answered get the
+   * method's default answer. Calling this more than once is harmless.
+   */
+  restore(): Promise<void>
+  /**
+   * How many of its `values` each sequenced stub has left, by position in the
+   * array passed to the stubbing function. Stubs with a single `value` never
+   * run out, and report `undefined`. Once restored, the handle reports none.
+   */
+  remaining(): Promise<(number | undefined)[]>
+  /** The same as `restore()`, for `await using`. */
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/**
+ * Build the handle for the stubs installed under `handleId`.
+ *
+ * @ignore
+ */
+function createDialogStubHandle(
+  app: ElectronApplication,
+  handleId: number,
+  methods: DialogMethod[],
+): DialogStubHandle {
+  const restore = () =>
+    retry(() =>
+      app.evaluate(
+        ({ dialog }, { handleId, methods }) => {
+          const state: MainDialogState | undefined = (globalThis as any)
+            .__electronPlaywrightHelpers?.dialog
+          if (!state) return
+          for (const method of methods) {
+            if (state.owners[method] !== handleId) continue
+            // @ts-ignore
+            dialog[method] = state.originals[method]
+            delete state.owners[method]
+          }
+          delete state.stubs[handleId]
+          // nothing can answer its live dialogs now, so the app would wait on
+          // them forever - they get the method's default instead
+          const orphaned = state.live.filter(
+            (live) => live.handleId === handleId,
+          )
+          state.live = state.live.filter((live) => live.handleId !== handleId)
+          for (const live of orphaned) live.answer(undefined)
+        },
+        { handleId, methods },
+      ),
+    )
+  const remaining = () =>
+    retry(() =>
+      app.evaluate((_electron, handleId) => {
+        const state: MainDialogState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.dialog
+        return (state?.stubs[handleId] ?? []).map((stub) =>
+          stub.values ? Math.max(stub.values.length - stub.used, 0) : undefined,
+        )
+      }, handleId),
+    )
+  return {
+    methods,
+    restore,
+    remaining,
+    [Symbol.asyncDispose]: restore,
   }
 }
 
@@ -485,6 +977,13 @@ export type StubDialogMatchersOptions = {
    * If false (default), return the default value for that dialog method.
    */
   throwOnUnmatched?: boolean
+  /**
+   * If true, stub every dialog method - not just those in `stubs` - so no
+   * real dialog can open, and record each call no stub matches as unexpected.
+   * The app still gets the method's default (or an error, with
+   * `throwOnUnmatched`), and `assertNoUnexpectedDialogs()` fails the test.
+   */
+  strict?: boolean
 }
 
 /**
@@ -496,6 +995,29 @@ export type StubDialogMatchersOptions = {
  * If no stub matches, either an error is thrown (if throwOnUnmatched is true)
  * or the default value is returned.
  *
+ * A stub can answer successive calls differently: give it `values` instead of
+ * `value`, and `whenExhausted` to say what happens after the last one. The
+ * returned handle's `remaining()` reports how many values each stub has left.
+ *
+ * In a multi-window app, `window` scopes a stub to dialogs attached to one
+ * window - by id, by title, or by the Playwright `Page` it shows.
+ *
+ * For anything a pattern can't express, `matcher` can be a function of the
+ * dialog's options and parent window, and `respond` can replace `value` with a
+ * function computing the answer. Both run inside the main process, so they
+ * can't use variables from the test - see `DialogMatcherFunction`.
+ *
+ * A stub with `live: true` doesn't answer at all: the app waits, as it would
+ * on a real dialog, until the test answers through `waitForLiveDialog()`.
+ *
+ * With `strict: true` every dialog method is stubbed, whether or not `stubs`
+ * mentions it, and any call no stub matches is recorded as unexpected for
+ * `assertNoUnexpectedDialogs()` to fail the test with.
+ *
+ * The original dialog methods are kept inside the main process the first time
+ * they are stubbed, so the returned handle can put them back - see
+ * `DialogStubHandle` and `restoreAllDialogs()`.
+ *
  * @example
  * ```ts
  * // Set up multiple dialog stubs at the start of your test
@@ -521,6 +1043,37 @@ export type StubDialogMatchersOptions = {
  *     value: { canceled: true },
  *   },
  * ])
+ *
+ * // The first "Save As..." name is rejected as taken, the second accepted
+ * await stubDialogMatchers(app, [
+ *   {
+ *     method: 'showMessageBox',
+ *     matcher: { message: /already exists/ },
+ *     values: [{ response: 1 }, { response: 0 }], // "Cancel", then "Replace"
+ *     whenExhausted: 'throw',
+ *   },
+ * ])
+ *
+ * // The preferences window's confirmation is cancelled, everyone else's accepted
+ * const prefsPage = await waitForWindowByTitle(app, 'Preferences')
+ * await stubDialogMatchers(app, [
+ *   { method: 'showMessageBox', matcher: {}, window: prefsPage, value: { response: 1 } },
+ *   { method: 'showMessageBox', matcher: {}, value: { response: 0 } },
+ * ])
+ *
+ * // Save next to the suggested file, and always pick "Replace"
+ * await stubDialogMatchers(app, [
+ *   {
+ *     method: 'showSaveDialog',
+ *     matcher: (options) => !!options.defaultPath?.endsWith('.md'),
+ *     respond: (options) => ({ filePath: `/tmp/${options.defaultPath}` }),
+ *   },
+ *   {
+ *     method: 'showMessageBox',
+ *     matcher: {},
+ *     respond: (options) => ({ response: options.buttons!.indexOf('Replace') }),
+ *   },
+ * ])
  * ```
  *
  * @category Dialog
@@ -528,450 +1081,447 @@ export type StubDialogMatchersOptions = {
  * @param app - The Playwright ElectronApplication instance.
  * @param stubs - Array of dialog matcher stubs to apply.
  * @param options - Optional configuration.
- * @returns A promise that resolves when the stubs are applied.
+ * @returns A promise that resolves with a handle to restore the stubbed methods.
  */
-export function stubDialogMatchers(
+export async function stubDialogMatchers(
   app: ElectronApplication,
   stubs: DialogMatcherStub[],
   options: StubDialogMatchersOptions = {},
-): Promise<void> {
-  const { throwOnUnmatched = false } = options
+): Promise<DialogStubHandle> {
+  const { throwOnUnmatched = false, strict = false } = options
 
   // Serialize all stubs for transfer across the evaluate boundary
-  const serializedStubs = stubs.map(serializeMatcherStub)
+  const serializedStubs = await Promise.all(
+    stubs.map(async (stub) => ({
+      ...serializeMatcherStub(stub),
+      window: await serializeWindowSelector(
+        app,
+        'window' in stub ? stub.window : undefined,
+      ),
+    })),
+  )
 
   // Group stubs by method for efficient lookup
-  const stubsByMethod = new Map<string, SerializedDialogMatcherStub[]>()
-  for (const stub of serializedStubs) {
+  // (keeping each stub's position, which is what the call log reports)
+  const stubsByMethod = new Map<
+    string,
+    (SerializedDialogMatcherStub & { index: number; used: number })[]
+  >()
+  serializedStubs.forEach((stub, index) => {
     const existing = stubsByMethod.get(stub.method) || []
-    existing.push(stub)
+    existing.push({ ...stub, index, used: 0 })
     stubsByMethod.set(stub.method, existing)
+  })
+
+  if (strict) {
+    // every method gets replaced, if only to catch the unexpected call
+    for (const method of Object.keys(dialogMatcherDefaults)) {
+      if (!stubsByMethod.has(method)) stubsByMethod.set(method, [])
+    }
   }
 
   const stubsGrouped = Object.fromEntries(stubsByMethod)
   const defaults = dialogMatcherDefaults
 
-  return app.evaluate(
-    ({ dialog }, { stubsGrouped, throwOnUnmatched, defaults }) => {
-      // Helper to check if a value matches a pattern (runs inside Electron)
-      const matchesPattern = (
-        value: string | undefined,
-        pattern: { source: string; flags: string } | string | undefined,
-      ): boolean => {
-        if (pattern === undefined) return true
-        if (value === undefined) return false
-        if (typeof pattern === 'string') return value === pattern
-        const regex = new RegExp(pattern.source, pattern.flags)
-        return regex.test(value)
-      }
-
-      // Check if MessageBoxOptions match a serialized matcher
-      const matchesMessageBox = (
-        options: Electron.MessageBoxOptions | undefined,
-        matcher: {
-          type?: { source: string; flags: string } | string
-          message?: { source: string; flags: string } | string
-          title?: { source: string; flags: string } | string
-          detail?: { source: string; flags: string } | string
-          checkboxLabel?: { source: string; flags: string } | string
-          buttons?: { source: string; flags: string } | string
-        },
-      ): boolean => {
-        if (!options) return true
-        if (!matchesPattern(options.type, matcher.type)) return false
-        if (!matchesPattern(options.message, matcher.message)) return false
-        if (!matchesPattern(options.title, matcher.title)) return false
-        if (!matchesPattern(options.detail, matcher.detail)) return false
-        if (!matchesPattern(options.checkboxLabel, matcher.checkboxLabel))
-          return false
-        if (matcher.buttons !== undefined && options.buttons) {
-          // Check if any button matches
-          const buttonMatches = options.buttons.some((btn) =>
-            matchesPattern(btn, matcher.buttons),
-          )
-          if (!buttonMatches) return false
-        }
-        return true
-      }
-
-      // Check if OpenDialogOptions match a serialized matcher
-      const matchesOpenDialog = (
-        options: Electron.OpenDialogOptions | undefined,
-        matcher: {
-          title?: { source: string; flags: string } | string
-          defaultPath?: { source: string; flags: string } | string
-          buttonLabel?: { source: string; flags: string } | string
-          message?: { source: string; flags: string } | string
-        },
-      ): boolean => {
-        if (!options) return true
-        if (!matchesPattern(options.title, matcher.title)) return false
-        if (!matchesPattern(options.defaultPath, matcher.defaultPath))
-          return false
-        if (!matchesPattern(options.buttonLabel, matcher.buttonLabel))
-          return false
-        if (!matchesPattern(options.message, matcher.message)) return false
-        return true
-      }
-
-      // Check if SaveDialogOptions match a serialized matcher
-      const matchesSaveDialog = (
-        options: Electron.SaveDialogOptions | undefined,
-        matcher: {
-          title?: { source: string; flags: string } | string
-          defaultPath?: { source: string; flags: string } | string
-          buttonLabel?: { source: string; flags: string } | string
-          message?: { source: string; flags: string } | string
-          nameFieldLabel?: { source: string; flags: string } | string
-        },
-      ): boolean => {
-        if (!options) return true
-        if (!matchesPattern(options.title, matcher.title)) return false
-        if (!matchesPattern(options.defaultPath, matcher.defaultPath))
-          return false
-        if (!matchesPattern(options.buttonLabel, matcher.buttonLabel))
-          return false
-        if (!matchesPattern(options.message, matcher.message)) return false
-        if (!matchesPattern(options.nameFieldLabel, matcher.nameFieldLabel))
-          return false
-        return true
-      }
-
-      // The optional first argument of every dialog method is typed as
-      // `Electron.BaseWindow` (Electron >= 30). `BrowserWindow extends
-      // BaseWindow`, so accepting `BaseWindow` accepts strictly more than
-      // before and no caller breaks. The runtime check below is unchanged:
-      // both window classes expose `id`, plain options objects don't.
-
-      // showMessageBox
-      if (stubsGrouped['showMessageBox']) {
-        const stubs = stubsGrouped['showMessageBox'] as Array<{
-          matcher: {
-            type?: { source: string; flags: string } | string
-            message?: { source: string; flags: string } | string
-            title?: { source: string; flags: string } | string
-            detail?: { source: string; flags: string } | string
-            checkboxLabel?: { source: string; flags: string } | string
-            buttons?: { source: string; flags: string } | string
-          }
-          value: { response: number; checkboxChecked: boolean }
-        }>
-        dialog.showMessageBox = async (
-          windowOrOptions?:
-            Electron.BaseWindow | Electron.MessageBoxOptions | undefined,
-          maybeOptions?: Electron.MessageBoxOptions,
-        ) => {
-          // Handle optional parent-window first argument
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.MessageBoxOptions)
-              : undefined)
-
-          for (const stub of stubs) {
-            if (matchesMessageBox(options, stub.matcher)) {
-              return stub.value
-            }
-          }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showMessageBox with options: ${JSON.stringify(
-                options,
-              )}`,
-            )
+  const handleId = await retry(
+    () =>
+      app.evaluate(
+        ({ dialog }, { stubsGrouped, throwOnUnmatched, strict, defaults }) => {
+          const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+          const state: MainDialogState = (root.dialog ??= {
+            originals: {},
+            owners: {},
+            nextHandleId: 1,
+            calls: [],
+            unexpected: [],
+            stubs: {},
+            nextLiveId: 1,
+            live: [],
+            liveWaiters: [],
+          })
+          const handleId = state.nextHandleId++
+          // every stub in its original position, for DialogStubHandle.remaining()
+          state.stubs[handleId] = Object.values(stubsGrouped)
+            .flat()
+            .sort((a, b) => a.index - b.index)
+
+          // Helper to check if a value matches a pattern (runs inside Electron)
+          const matchesPattern = (
+            value: string | undefined,
+            pattern: StringMatcher,
+          ): boolean => {
+            if (pattern === undefined) return true
+            if (value === undefined) return false
+            if (typeof pattern === 'string') return value === pattern
+            const regex = new RegExp(pattern.source, pattern.flags)
+            return regex.test(value)
           }
-          return defaults.showMessageBox
-        }
-      }
 
-      // showMessageBoxSync
-      if (stubsGrouped['showMessageBoxSync']) {
-        const stubs = stubsGrouped['showMessageBoxSync'] as Array<{
-          matcher: {
-            type?: { source: string; flags: string } | string
-            message?: { source: string; flags: string } | string
-            title?: { source: string; flags: string } | string
-            detail?: { source: string; flags: string } | string
-            checkboxLabel?: { source: string; flags: string } | string
-            buttons?: { source: string; flags: string } | string
-          }
-          value: number
-        }>
-        dialog.showMessageBoxSync = (
-          windowOrOptions?:
-            Electron.BaseWindow | Electron.MessageBoxOptions | undefined,
-          maybeOptions?: Electron.MessageBoxOptions,
-        ) => {
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.MessageBoxOptions)
-              : undefined)
-
-          for (const stub of stubs) {
-            if (matchesMessageBox(options, stub.matcher)) {
-              return stub.value
-            }
-          }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showMessageBoxSync with options: ${JSON.stringify(
-                options,
-              )}`,
+          // `window` is whatever the app passed as the parent - typed as
+          // BaseWindow, so title and URL are only read if the window has them
+          const matchesWindow = (
+            window: Electron.BaseWindow | undefined,
+            matcher: SerializedParentWindowMatcher,
+          ): boolean => {
+            if (!window) return false
+            const webContents = (window as Partial<Electron.BrowserWindow>)
+              .webContents
+            return (
+              matchesPattern(window.getTitle?.(), matcher.title) &&
+              matchesPattern(webContents?.getURL?.(), matcher.url)
             )
           }
-          return defaults.showMessageBoxSync
-        }
-      }
 
-      // showOpenDialog
-      if (stubsGrouped['showOpenDialog']) {
-        const stubs = stubsGrouped['showOpenDialog'] as Array<{
-          matcher: {
-            title?: { source: string; flags: string } | string
-            defaultPath?: { source: string; flags: string } | string
-            buttonLabel?: { source: string; flags: string } | string
-            message?: { source: string; flags: string } | string
+          const matchesWindowSelector = (
+            window: Electron.BaseWindow | undefined,
+            selector: SerializedWindowSelector,
+          ): boolean => {
+            if (!window) return false
+            return 'id' in selector
+              ? window.id === selector.id
+              : matchesPattern(window.getTitle?.(), selector.title)
           }
-          value: {
-            canceled: boolean
-            filePaths: string[]
-            bookmarks?: string[]
-          }
-        }>
-        dialog.showOpenDialog = async (
-          windowOrOptions?:
-            Electron.BaseWindow | Electron.OpenDialogOptions | undefined,
-          maybeOptions?: Electron.OpenDialogOptions,
-        ) => {
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.OpenDialogOptions)
-              : undefined)
-
-          for (const stub of stubs) {
-            if (matchesOpenDialog(options, stub.matcher)) {
-              return stub.value
-            }
-          }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showOpenDialog with options: ${JSON.stringify(
-                options,
-              )}`,
+
+          const matchesFilters = (
+            filters: Electron.FileFilter[] | undefined,
+            matcher: SerializedFileFilterMatcher,
+          ): boolean =>
+            (filters ?? []).some(
+              (filter) =>
+                matchesPattern(filter.name, matcher.name) &&
+                (matcher.extensions ?? []).every((ext) =>
+                  filter.extensions.includes(ext),
+                ),
             )
-          }
-          return defaults.showOpenDialog
-        }
-      }
 
-      // showOpenDialogSync
-      if (stubsGrouped['showOpenDialogSync']) {
-        const stubs = stubsGrouped['showOpenDialogSync'] as Array<{
-          matcher: {
-            title?: { source: string; flags: string } | string
-            defaultPath?: { source: string; flags: string } | string
-            buttonLabel?: { source: string; flags: string } | string
-            message?: { source: string; flags: string } | string
-          }
-          value: string[] | undefined
-        }>
-        dialog.showOpenDialogSync = (
-          windowOrOptions?:
-            Electron.BaseWindow | Electron.OpenDialogOptions | undefined,
-          maybeOptions?: Electron.OpenDialogOptions,
-        ) => {
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.OpenDialogOptions)
-              : undefined)
-
-          for (const stub of stubs) {
-            if (matchesOpenDialog(options, stub.matcher)) {
-              return stub.value
+          // Check dialog options against a serialized matcher. Every matcher
+          // property names the option it is compared with. String patterns
+          // match the option's text; `buttons` passes when any one button
+          // matches, or - given a list - when the buttons are exactly that
+          // list. `properties` must all be present, numbers must be equal.
+          const matchesOptions = (
+            options: Record<string, unknown> | undefined,
+            window: Electron.BaseWindow | undefined,
+            matcher: SerializedDialogMatcher,
+          ): boolean => {
+            const { parentWindow, ...rest } = matcher as Record<string, unknown>
+            if (
+              parentWindow &&
+              !matchesWindow(
+                window,
+                parentWindow as SerializedParentWindowMatcher,
+              )
+            ) {
+              return false
             }
+            if (!options) return true
+            for (const [key, pattern] of Object.entries(rest)) {
+              if (pattern === undefined) continue
+              const value = options[key]
+              if (key === 'buttons') {
+                const buttons = value as string[] | undefined
+                if (Array.isArray(pattern)) {
+                  const list = buttons ?? []
+                  if (
+                    list.length !== pattern.length ||
+                    !list.every((btn, i) => matchesPattern(btn, pattern[i]))
+                  ) {
+                    return false
+                  }
+                } else if (
+                  buttons &&
+                  !buttons.some((btn) =>
+                    matchesPattern(btn, pattern as StringMatcher),
+                  )
+                ) {
+                  return false
+                }
+              } else if (key === 'filters') {
+                if (
+                  !matchesFilters(
+                    value as Electron.FileFilter[] | undefined,
+                    pattern as SerializedFileFilterMatcher,
+                  )
+                ) {
+                  return false
+                }
+              } else if (key === 'properties') {
+                const properties = (value as string[] | undefined) ?? []
+                if (
+                  !(pattern as string[]).every((p) => properties.includes(p))
+                ) {
+                  return false
+                }
+              } else if (typeof pattern === 'number') {
+                if (value !== pattern) return false
+              } else if (
+                !matchesPattern(value as string, pattern as StringMatcher)
+              ) {
+                return false
+              }
+            }
+            return true
           }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showOpenDialogSync with options: ${JSON.stringify(
-                options,
-              )}`,
-            )
-          }
-          return defaults.showOpenDialogSync
-        }
-      }
 
-      // showSaveDialog
-      if (stubsGrouped['showSaveDialog']) {
-        const stubs = stubsGrouped['showSaveDialog'] as Array<{
-          matcher: {
-            title?: { source: string; flags: string } | string
-            defaultPath?: { source: string; flags: string } | string
-            buttonLabel?: { source: string; flags: string } | string
-            message?: { source: string; flags: string } | string
-            nameFieldLabel?: { source: string; flags: string } | string
-          }
-          value: { canceled: boolean; filePath?: string; bookmark?: string }
-        }>
-        dialog.showSaveDialog = async (
-          windowOrOptions?:
-            Electron.BaseWindow | Electron.SaveDialogOptions | undefined,
-          maybeOptions?: Electron.SaveDialogOptions,
-        ) => {
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.SaveDialogOptions)
-              : undefined)
-
-          // Electron >= 30 made `SaveDialogReturnValue.filePath` required,
-          // but our public `SaveDialogReturnValue` keeps it optional: stubbing
-          // a cancelled save dialog without a `filePath` is a legitimate (and
-          // already-published) usage. Cast rather than default it to `''` so
-          // the value the app receives is exactly what the user stubbed.
-          for (const stub of stubs) {
-            if (matchesSaveDialog(options, stub.matcher)) {
-              return stub.value as Electron.SaveDialogReturnValue
+          // The optional first argument of every dialog method is typed as
+          // `Electron.BaseWindow` (Electron >= 30). Both window classes expose
+          // `id`, plain options objects don't. showErrorBox() is the odd one
+          // out, taking (title, content) - those become its options.
+          const parseArgs = (
+            method: DialogMethod,
+            args: unknown[],
+          ): {
+            options: Record<string, unknown> | undefined
+            window: Electron.BaseWindow | undefined
+          } => {
+            if (method === 'showErrorBox') {
+              return {
+                options: { title: args[0], content: args[1] },
+                window: undefined,
+              }
+            }
+            const [windowOrOptions, maybeOptions] = args as [
+              object | undefined,
+              Record<string, unknown> | undefined,
+            ]
+            const isWindow =
+              !!windowOrOptions &&
+              ('webContents' in windowOrOptions || 'id' in windowOrOptions)
+            return {
+              options:
+                maybeOptions ||
+                (windowOrOptions && !isWindow
+                  ? (windowOrOptions as Record<string, unknown>)
+                  : undefined),
+              window: isWindow
+                ? (windowOrOptions as Electron.BaseWindow)
+                : undefined,
             }
           }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showSaveDialog with options: ${JSON.stringify(
-                options,
-              )}`,
-            )
-          }
-          return defaults.showSaveDialog as Electron.SaveDialogReturnValue
-        }
-      }
 
-      // showSaveDialogSync
-      if (stubsGrouped['showSaveDialogSync']) {
-        const stubs = stubsGrouped['showSaveDialogSync'] as Array<{
-          matcher: {
-            title?: { source: string; flags: string } | string
-            defaultPath?: { source: string; flags: string } | string
-            buttonLabel?: { source: string; flags: string } | string
-            message?: { source: string; flags: string } | string
-            nameFieldLabel?: { source: string; flags: string } | string
-          }
-          value: string | undefined
-        }>
-        dialog.showSaveDialogSync = (
-          windowOrOptions?:
-            Electron.BaseWindow | Electron.SaveDialogOptions | undefined,
-          maybeOptions?: Electron.SaveDialogOptions,
-        ) => {
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.SaveDialogOptions)
-              : undefined)
-
-          for (const stub of stubs) {
-            if (matchesSaveDialog(options, stub.matcher)) {
-              return stub.value
+          // Recorded options have to survive the trip back to the test, and
+          // must not change if the app mutates its options object afterwards.
+          const toPlain = (value: unknown) => {
+            if (value === undefined) return undefined
+            try {
+              return JSON.parse(JSON.stringify(value))
+            } catch (err) {
+              return { serializationError: String(err) }
             }
           }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showSaveDialogSync with options: ${JSON.stringify(
-                options,
-              )}`,
-            )
-          }
-          return defaults.showSaveDialogSync
-        }
-      }
 
-      // showErrorBox
-      if (stubsGrouped['showErrorBox']) {
-        const stubs = stubsGrouped['showErrorBox'] as Array<{
-          matcher: {
-            title?: { source: string; flags: string } | string
-            content?: { source: string; flags: string } | string
-          }
-          value: void
-        }>
-        dialog.showErrorBox = (title: string, content: string) => {
-          for (const stub of stubs) {
+          // Function matchers and responders arrive as source, the way
+          // evaluate() itself sends its callback
+          const compile = (source: string | undefined) =>
+            source === undefined
+              ? undefined
+              : (new Function(`return (${source})`)() as (
+                  options: unknown,
+                  parentWindow: Electron.BaseWindow | undefined,
+                ) => unknown)
+
+          // A responder's result is merged into the method's default, as the
+          // test side does for stub values
+          const withDefault = (method: DialogMethod, value: unknown) => {
+            const fallback = defaults[method]
             if (
-              matchesPattern(title, stub.matcher.title) &&
-              matchesPattern(content, stub.matcher.content)
+              fallback &&
+              typeof fallback === 'object' &&
+              !Array.isArray(fallback)
             ) {
-              return
+              return { ...fallback, ...(value as object) }
             }
+            return value ?? fallback
           }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showErrorBox with title: ${title}, content: ${content}`,
-            )
-          }
-        }
-      }
 
-      // showCertificateTrustDialog
-      if (stubsGrouped['showCertificateTrustDialog']) {
-        const stubs = stubsGrouped['showCertificateTrustDialog'] as Array<{
-          matcher: {
-            message?: { source: string; flags: string } | string
-          }
-          value: void
-        }>
-        dialog.showCertificateTrustDialog = async (
-          windowOrOptions?:
-            | Electron.BaseWindow
-            | Electron.CertificateTrustDialogOptions
-            | undefined,
-          maybeOptions?: Electron.CertificateTrustDialogOptions,
-        ) => {
-          const options =
-            maybeOptions ||
-            (windowOrOptions &&
-            !('webContents' in windowOrOptions) &&
-            !('id' in windowOrOptions)
-              ? (windowOrOptions as Electron.CertificateTrustDialogOptions)
-              : undefined)
-
-          for (const stub of stubs) {
-            if (matchesPattern(options?.message, stub.matcher.message)) {
-              return
+          for (const [name, stubs] of Object.entries(stubsGrouped)) {
+            const method = name as DialogMethod
+            if (!dialog[method]) {
+              throw new Error(`can't find ${method} on dialog module.`)
             }
+            const compiled = stubs.map((stub) => ({
+              predicate: compile(stub.predicate),
+              responder: compile(stub.responder),
+            }))
+            if (!(method in state.originals)) {
+              state.originals[method] = dialog[method]
+            }
+
+            const respond = (...args: unknown[]) => {
+              const { options, window } = parseArgs(method, args)
+              const call: DialogCall = {
+                method,
+                options: toPlain(options),
+                windowId: window?.id,
+                timestamp: Date.now(),
+                stubIndex: undefined,
+                returnValue: undefined,
+              }
+              state.calls.push(call)
+              // an error thrown by a stub's own function is the app's to handle,
+              // but the log notes which stub threw it
+              const run = (
+                stub: (typeof stubs)[number],
+                kind: string,
+                fn: NonNullable<(typeof compiled)[number]['predicate']>,
+              ) => {
+                try {
+                  return fn(options, window)
+                } catch (err) {
+                  const error = new Error(
+                    `Dialog stub ${stub.index} for ${method}: ${kind} threw ${String(err)}`,
+                  )
+                  call.stubIndex = stub.index
+                  call.error = error.message
+                  throw error
+                }
+              }
+              for (const [i, stub] of stubs.entries()) {
+                if (
+                  stub.window &&
+                  !matchesWindowSelector(window, stub.window)
+                ) {
+                  continue
+                }
+                if (!matchesOptions(options, window, stub.matcher)) continue
+                const { predicate, responder } = compiled[i]
+                if (predicate && !run(stub, 'matcher', predicate)) continue
+                if (stub.live) {
+                  call.stubIndex = stub.index
+                  // resolved from the test, through waitForLiveDialog()
+                  return new Promise((resolve) => {
+                    state.live.push({
+                      id: state.nextLiveId++,
+                      method: method as LiveDialogMethod,
+                      options: call.options,
+                      windowId: call.windowId,
+                      stubIndex: stub.index,
+                      handleId,
+                      delivered: false,
+                      answer: (answer) => {
+                        const value = withDefault(method, answer)
+                        call.returnValue = toPlain(value)
+                        resolve(value)
+                      },
+                    })
+                    for (const wake of state.liveWaiters.splice(0)) wake()
+                  })
+                }
+                let value = stub.value
+                if (responder) {
+                  value = withDefault(method, run(stub, 'responder', responder))
+                } else if (stub.values) {
+                  if (stub.used < stub.values.length) {
+                    value = stub.values[stub.used++]
+                  } else if (
+                    stub.whenExhausted === 'repeatLast' &&
+                    stub.values.length > 0
+                  ) {
+                    value = stub.values[stub.values.length - 1]
+                  } else if (stub.whenExhausted === 'throw') {
+                    const error = new Error(
+                      `Dialog stub ${stub.index} for ${method} has no responses left (it had ${stub.values.length})`,
+                    )
+                    call.stubIndex = stub.index
+                    call.error = error.message
+                    throw error
+                  } else {
+                    // exhausted, so let a later stub or the default answer
+                    continue
+                  }
+                }
+                call.stubIndex = stub.index
+                call.returnValue = toPlain(value)
+                return value
+              }
+              if (strict) {
+                call.unexpected = true
+                state.unexpected.push(call)
+              }
+              if (throwOnUnmatched) {
+                const error = new Error(
+                  `No matching stub for ${method} with options: ${JSON.stringify(
+                    options,
+                  )}`,
+                )
+                call.error = error.message
+                throw error
+              }
+              call.returnValue = toPlain(defaults[method])
+              return defaults[method]
+            }
+
+            // Electron >= 30 made `SaveDialogReturnValue.filePath` required, but
+            // our public `SaveDialogReturnValue` keeps it optional: stubbing a
+            // cancelled save dialog without a `filePath` is a legitimate (and
+            // already-published) usage. The value the app receives is exactly
+            // what the user stubbed, hence the untyped assignment.
+            // @ts-ignore
+            dialog[method] =
+              method.endsWith('Sync') || method === 'showErrorBox'
+                ? respond
+                : async (...args: unknown[]) => respond(...args)
+            state.owners[method] = handleId
           }
-          if (throwOnUnmatched) {
-            throw new Error(
-              `No matching stub for showCertificateTrustDialog with options: ${JSON.stringify(
-                options,
-              )}`,
-            )
-          }
-        }
+          return handleId
+        },
+        { stubsGrouped, throwOnUnmatched, strict, defaults },
+      ),
+    // installing is not idempotent - a second attempt would stub over the
+    // first - so, as with clickMenuItemById(), it is never retried
+    { disable: true },
+  )
+  if (handleId === undefined) {
+    throw new Error(
+      'stubDialogMatchers: the app closed while the stubs were being installed',
+    )
+  }
+
+  return createDialogStubHandle(
+    app,
+    handleId,
+    Object.keys(stubsGrouped) as DialogMethod[],
+  )
+}
+
+/**
+ * Put back every original dialog method that any of the stubbing functions
+ * replaced, regardless of which call replaced it.
+ *
+ * Originals are stashed inside the main process the first time a method is
+ * stubbed, so this works across any number of `stubDialog()`,
+ * `stubMultipleDialogs()`, `stubAllDialogs()` and `stubDialogMatchers()`
+ * calls. Methods that were never stubbed are not touched. Live dialogs the
+ * test has not answered get the method's default answer.
+ *
+ * @category Dialog
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves when the original methods are back.
+ */
+export function restoreAllDialogs(app: ElectronApplication): Promise<void> {
+  return retry(() =>
+    app.evaluate(({ dialog }) => {
+      const state: MainDialogState | undefined = (globalThis as any)
+        .__electronPlaywrightHelpers?.dialog
+      if (!state) return
+      for (const method of Object.keys(state.owners) as DialogMethod[]) {
+        // @ts-ignore
+        dialog[method] = state.originals[method]
+        delete state.owners[method]
       }
-    },
-    { stubsGrouped, throwOnUnmatched, defaults },
+      state.stubs = {}
+      // as restore() does for one handle: nothing is left to answer them
+      for (const live of state.live.splice(0)) live.answer(undefined)
+    }),
   )
 }
 
 /**
  * Clear all dialog matcher stubs and restore original dialog methods.
- * Note: This requires the app to have stored the original methods,
- * which is not done by default. You may need to restart the app
- * to fully restore dialog functionality.
+ *
+ * @deprecated Use `restoreAllDialogs()`, or `restore()` on the handle the
+ * stubbing function returned. This is now an alias for `restoreAllDialogs()`.
  *
  * @category Dialog
  *
@@ -979,38 +1529,5 @@ export function stubDialogMatchers(
  * @returns A promise that resolves when the stubs are cleared.
  */
 export function clearDialogMatchers(app: ElectronApplication): Promise<void> {
-  // Since we can't easily restore the original methods without storing them first,
-  // the best we can do is stub them with pass-through that throws
-  // Users should restart the app for full restoration
-  return app.evaluate(({ dialog }) => {
-    const notRestored = (method: string) => () => {
-      throw new Error(
-        `dialog.${method} was stubbed and cannot be restored. Restart the app to restore dialog functionality.`,
-      )
-    }
-    dialog.showMessageBox = notRestored(
-      'showMessageBox',
-    ) as typeof dialog.showMessageBox
-    dialog.showMessageBoxSync = notRestored(
-      'showMessageBoxSync',
-    ) as typeof dialog.showMessageBoxSync
-    dialog.showOpenDialog = notRestored(
-      'showOpenDialog',
-    ) as typeof dialog.showOpenDialog
-    dialog.showOpenDialogSync = notRestored(
-      'showOpenDialogSync',
-    ) as typeof dialog.showOpenDialogSync
-    dialog.showSaveDialog = notRestored(
-      'showSaveDialog',
-    ) as typeof dialog.showSaveDialog
-    dialog.showSaveDialogSync = notRestored(
-      'showSaveDialogSync',
-    ) as typeof dialog.showSaveDialogSync
-    dialog.showErrorBox = notRestored(
-      'showErrorBox',
-    ) as typeof dialog.showErrorBox
-    dialog.showCertificateTrustDialog = notRestored(
-      'showCertificateTrustDialog',
-    ) as typeof dialog.showCertificateTrustDialog
-  })
+  return restoreAllDialogs(app)
 }
@@ -201,6 +201,44 @@ export const errorHelp = {
     'ending in ".app" or ".exe" tells it the platform without any name parsing.',
   ].join('\n'),
 
+  /** appended when a renderer IPC helper's page has no `require()` and no bridge */
+  rendererRequire: [
+    "The page cannot require('electron'): the window has nodeIntegration off,",
+    'or contextIsolation on - as it should outside of tests. Call',
+    'installIpcBridge(app, { reload: true }) once, right after launching the',
+    'app, and the renderer IPC helpers will go through a test-only preload',
+    'instead. Turning nodeIntegration on just for tests works too, but then the',
+    'tests no longer run the configuration you ship.',
+  ].join('\n'),
+
+  /** appended when the bridge is installed, but the page loaded before it */
+  ipcBridgeNotLoaded: [
+    'installIpcBridge() has been called, but this page was loaded before it,',
+    "so the bridge's preload never ran in it. Sends and invokes are played from",
+    'the main process instead, but ipcRenderer listeners live in the renderer',
+    'and can only be reached from inside it. Pass { reload: true } to',
+    'installIpcBridge(), or reload the page yourself, before calling this.',
+  ].join('\n'),
+
+  /** appended when `getIpcChannels()` cannot see ipcMain's invoke handlers */
+  getIpcChannels: [
+    "getIpcChannels() lists ipcMain.handle() channels from ipcMain's private",
+    '_invokeHandlers map, which Electron has kept them in since Electron 7. The',
+    'map was not there, so this Electron build keeps its handlers somewhere',
+    'else and they cannot be listed. Pass the channels you expect the app to',
+    'handle to your own check instead of reading them back.',
+  ].join('\n'),
+
+  /** appended when `assertIpcContract()` finds the app and contract differ */
+  assertIpcContract: [
+    'A missing channel is often one the app registers lazily - in',
+    'app.whenReady(), when a window opens, or in a module imported on first',
+    'use. Check the contract once the app has got that far. Renderer channels',
+    'are checked in every open window unless `pages` is given, so a window',
+    'with a different preload may be missing channels the main window has.',
+    'Channels from a library the app uses can be left out with `ignore`.',
+  ].join('\n'),
+
   /** appended when `ipcMainInvokeHandler()` finds no registered handler */
   ipcMainInvokeHandler: [
     "ipcMainInvokeHandler() looks the channel up in ipcMain's private",
@@ -217,16 +255,97 @@ export const errorHelp = {
     'ipcMainCallFirstListener() instead.',
   ].join('\n'),
 
+  /** appended when `mockIpcMainHandler()` cannot reach ipcMain's handler map */
+  mockIpcMainHandler: [
+    "mockIpcMainHandler() swaps entries in ipcMain's private _invokeHandlers",
+    'map, which ipcMain.handle() has used since Electron 7. The map was not',
+    'there, so this Electron build keeps its handlers somewhere else and the',
+    "app's handler can neither be found nor put back. Mock the module the",
+    'handler calls instead, or register a test-only handler in the app.',
+  ].join('\n'),
+
+  /** appended when `waitForIpcMessage()` or `expectIpcMessage()` finds no match */
+  ipcMessageNotRecorded: [
+    'Only traffic sent while recording is in the log: start it with',
+    'startIpcRecording() before the step that sends the message, not after.',
+    'Channel strings are compared exactly.',
+    '',
+    'Messages a renderer sends on its own webContents.ipc, or posts through a',
+    'MessagePort, never pass through ipcMain and are not recorded. Neither are',
+    'messages sent from a preload script to the page - they never leave the',
+    'renderer.',
+  ].join('\n'),
+
+  /** appended when a messaging helper can't find what it was asked about */
+  messageCaptureMissing: [
+    'Utility processes and ports are only known to the helpers once captured:',
+    'call startMessageCapture() before the step that forks the process or',
+    'creates the channel. A port is captured the first time a message crosses',
+    'it in the main process; ports handed straight from one renderer to',
+    'another never do. A process can be named by its serviceName only if the',
+    'app passed one to utilityProcess.fork().',
+  ].join('\n'),
+
+  /** appended when `waitForDialogCall()` times out */
+  waitForDialogCall: [
+    'Only calls to STUBBED dialog methods are recorded - the log is written by',
+    'the stub itself. A method that was never stubbed, or whose stub was',
+    'restored before the app got to it, leaves no trace here.',
+    '',
+    'Check the recorded calls listed above against the matcher: option strings',
+    'are compared exactly, so a path with a different separator or a title with',
+    'a trailing space does not match, while a RegExp is tested as given. If the',
+    'dialog opens only after something asynchronous - a file being read, a',
+    'window loading - raise the timeout rather than the poll.',
+  ].join('\n'),
+
+  /** appended when strict mode caught dialogs that no stub matched */
+  assertNoUnexpectedDialogs: [
+    'In strict mode every dialog method is stubbed, so these dialogs were',
+    "never shown - the app got the method's default answer instead (or an",
+    'error, with `throwOnUnmatched`). Either add a stub for each of them, or',
+    'find out why the app opened them: they are listed with the exact options',
+    'the app passed, which is what the stub matchers are checked against.',
+  ].join('\n'),
+
+  /** appended when `waitForLiveDialog()` times out */
+  waitForLiveDialog: [
+    'Only dialogs caught by a stub with `live: true` wait for the test. A call',
+    'answered by an earlier stub in the list, or by a method stubbed again',
+    'later without `live`, returns at once and never shows up here -',
+    '`getDialogCalls()` tells you which stub answered each call.',
+    '',
+    'Each live dialog is handed out once: a dialog already taken by an earlier',
+    '`waitForLiveDialog()` or by an `onLiveDialog()` handler is not offered',
+    'again.',
+  ].join('\n'),
+
+  /** appended when `DialogFixture.readSaved()` finds no file */
+  dialogFixtureReadSaved: [
+    'The save stub only hands the path to the app; writing the file is up to',
+    'the app, and may still be in progress - wait for whatever the app shows',
+    'once it has saved before reading. If the app never asked for a path,',
+    '`getDialogCalls()` shows whether the save dialog was called at all, and',
+    'which stub answered it.',
+  ].join('\n'),
+
   /** appended when the app has no `Menu.setApplicationMenu()` menu installed */
   noApplicationMenu: [
-    'Every menu helper here reads the APPLICATION menu, the one installed with',
-    'Menu.setApplicationMenu(). Menu.getApplicationMenu() returned null, so',
-    'either nothing has been installed yet or the menu under test is a different',
-    'kind of menu entirely.',
+    'Without a `source` option the menu helpers read the APPLICATION menu, the',
+    'one installed with Menu.setApplicationMenu(). Menu.getApplicationMenu()',
+    'returned null, so either nothing has been installed yet or the menu under',
+    'test is a different kind of menu entirely.',
     '',
     'A context menu - built with Menu.buildFromTemplate() and shown with',
-    'menu.popup() - and a Tray menu are never reachable this way, no matter how',
-    'they are built. Those have to be driven through whatever code opens them.',
+    'menu.popup() - never becomes the application menu. Call',
+    'startContextMenuCapture() before the app pops it up, then click it with',
+    'clickContextMenuItem() - getContextMenus() lists what was shown.',
+    '',
+    'A tray, dock or window menu is reached through the `source` option of',
+    'getApplicationMenu(), getMenuItemById(), clickMenuItemById() and',
+    "waitForMenuItem() - `source: 'tray'`, `'dock'`, `{ tray: 2 }` or",
+    '`{ window: page }`. Tray and window menus are only seen once',
+    'startMenuCapture() is running, so start it right after launch.',
     '',
     'If the app does install an application menu, but installs it late (inside',
     'app.whenReady(), or when the first window opens), the test just got there',
@@ -292,6 +411,73 @@ export const errorHelp = {
     'are both faster and harder to get wrong.',
   ].join('\n'),
 
+  /** appended when no menu item is at the end of a label path */
+  menuItemPath: [
+    'Each segment is looked for only among the items of the menu the previous',
+    'segment matched, and a string segment has to equal the whole label - case,',
+    'punctuation and all. Only `&` mnemonic markers are ignored. A trailing',
+    'ellipsis is a common catch: "Export…" (one character) is not "Export...".',
+    'Pass a RegExp segment, such as /^Export/, to match part of a label.',
+    '',
+    'Labels of role items are filled in by Electron, and differ by platform -',
+    'print the menu with serializeMenu(electronApp) to see the labels as they',
+    'are, or match such items by role with clickMenuItem(electronApp, "role",',
+    '"quit") instead.',
+  ].join('\n'),
+
+  /** appended when a context menu helper finds no popup open */
+  contextMenuNotOpen: [
+    'Only menus popped up while capturing are seen: call',
+    'startContextMenuCapture() before the step that opens the menu. A menu',
+    'counts as open until an item in it is clicked, it is dismissed, the app',
+    'closes it, or another menu pops up.',
+    '',
+    'A right-click reaches the app as the webContents "context-menu" event, or',
+    'as an IPC message from the renderer, so the menu pops up a moment after',
+    'the click resolves - wait for it with waitForContextMenu() rather than',
+    'reading getContextMenus() straight away.',
+  ].join('\n'),
+
+  /** appended when `pressMenuAccelerator()` matches no item, or several */
+  menuAccelerator: [
+    'The accelerator is looked up among the `accelerator` properties of the',
+    'application menu, once both are put in one form: CmdOrCtrl is Cmd on macOS',
+    'and Ctrl elsewhere, modifier order does not matter, and neither does the',
+    "case of the key. Role items rely on Electron's default accelerators, which",
+    'are not set on the item - so they cannot be matched unless the template',
+    'gives them one. Print the menu with serializeMenu(electronApp) to see the',
+    'accelerators that are set.',
+    '',
+    'When several items share an accelerator, only one of them ever responds,',
+    'and which one depends on the platform. That is a bug in the menu rather',
+    'than in the test - give each item its own.',
+  ].join('\n'),
+
+  /** appended when `waitForMenu()` times out */
+  waitForMenu: [
+    'The predicate is given a serialized copy of the menu, read afresh on every',
+    'poll, so compare values rather than objects. Roles are lower-cased by',
+    'Electron ("togglefullscreen", not "toggleFullScreen"), and labels of role',
+    'items are filled in by Electron and differ by platform. Functions such as',
+    '`click` are not in the copy at all.',
+    '',
+    'If the item shown above is the right one, the app has not changed it yet:',
+    'check the step that should have, or allow a longer timeout.',
+  ].join('\n'),
+
+  /** appended when the menu a `source` option names can't be found */
+  menuSource: [
+    'Electron has no way to read back the menu of a window or a tray, so those',
+    'menus are only seen if they are set while startMenuCapture() is running.',
+    'Start it before the window or tray is created - right after launch is',
+    'best - and the menus the app sets from then on can be read.',
+    '',
+    'A window that never had a menu of its own shows the application menu on',
+    'Windows and Linux: read that one with the default source. On macOS there',
+    'are no window menus at all, and the dock menu is the only one of its kind.',
+    'Trays are numbered from 1, in the order they first set a context menu.',
+  ].join('\n'),
+
   /** appended when a matched menu item carries no `commandId` to click through */
   menuItemNoCommandId: [
     'The item matched, but it carries no commandId. clickMenuItem() needs one:',
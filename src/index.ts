@@ -1,8 +1,25 @@
 export * from './general_helpers'
 export * from './menu_helpers'
+export * from './menu_snapshot'
+export * from './context_menu_helpers'
+export * from './menu_accelerators'
+export * from './menu_lint'
+export * from './menu_query'
+export * from './menu_sources'
 export * from './ipc_helpers'
+// the rest of ipc_bridge is plumbing for ipc_helpers, not package API
+export { installIpcBridge } from './ipc_bridge'
+export type { InstallIpcBridgeOptions, IpcBridge } from './ipc_bridge'
+export * from './ipc_mocks'
+export * from './ipc_recording'
+export * from './ipc_contract'
+export * from './ipc_typed'
+export * from './message_helpers'
 export * from './dialog_helpers'
 export * from './dialog_matchers'
+export * from './dialog_calls'
+export * from './dialog_live'
+export * from './dialog_fixtures'
 export * from './find_parse_builds'
 export * from './utilities'
 export * from './window_helpers'
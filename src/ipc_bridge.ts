@@ -0,0 +1,347 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { BrowserContext, ElectronApplication, Page } from 'playwright-core'
+import { retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for `installIpcBridge()`.
+ *
+ * @category IPCRenderer
+ */
+export type InstallIpcBridgeOptions = {
+  /**
+   * Reload the windows that are already open, so the bridge's preload runs
+   * in them too. Without it, only windows loaded from now on get the bridge -
+   * the rest can still `ipcRendererSend()` and `ipcRendererInvoke()`, but not
+   * reach their renderer listeners.
+   */
+  reload?: boolean
+}
+
+/**
+ * Returned by `installIpcBridge()`.
+ *
+ * @category IPCRenderer
+ */
+export type IpcBridge = {
+  /** The test-only preload script, written to a temporary directory. */
+  preloadPath: string
+  /** Unregister the preload and delete it. Windows already loaded keep it until they reload. */
+  uninstall(): Promise<void>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.ipcBridge` - see `MainDialogState`
+ * for why it lives over there.
+ *
+ * @ignore
+ */
+export type MainIpcBridgeState = {
+  /** the preload registered with every session, while installed */
+  preloadPath: string | undefined
+}
+
+/**
+ * The preload that gives the page a way into the isolated world. It runs as a
+ * plain script - sandboxed preloads get no module system beyond a `require()`
+ * that knows only 'electron' - and it shares the app preload's `ipcRenderer`,
+ * which is what lets it reach the app's listeners.
+ */
+const bridgePreload = `'use strict'
+const { contextBridge, ipcRenderer } = require('electron')
+const noListeners = (channel) =>
+  new Error("No ipcRenderer listeners for '" + channel + "'")
+// the event Electron would pass, had the main process sent the message
+const event = () => ({ sender: ipcRenderer, ports: [] })
+const bridge = {
+  send: (channel, args) => ipcRenderer.send(channel, ...args),
+  invoke: (channel, args) => ipcRenderer.invoke(channel, ...args),
+  callFirstListener: (channel, args) => {
+    if (ipcRenderer.listenerCount(channel) === 0) throw noListeners(channel)
+    return ipcRenderer.listeners(channel)[0](event(), ...args)
+  },
+  emit: (channel, args) => {
+    if (ipcRenderer.listenerCount(channel) === 0) throw noListeners(channel)
+    return ipcRenderer.emit(channel, event(), ...args)
+  },
+  eventNames: () =>
+    ipcRenderer.eventNames().filter((name) => typeof name === 'string'),
+  callAllListeners: async (channel, args) => {
+    const listeners = ipcRenderer.listeners(channel)
+    if (listeners.length === 0) throw noListeners(channel)
+    const shared = event()
+    const results = []
+    for (const [index, listener] of listeners.entries()) {
+      const start = performance.now()
+      try {
+        const value = await listener(shared, ...args)
+        results.push({ index, value, durationMs: performance.now() - start })
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        results.push({ index, error, durationMs: performance.now() - start })
+      }
+    }
+    return results
+  },
+}
+if (process.contextIsolated) {
+  contextBridge.exposeInMainWorld('__electronPlaywrightHelpersIpc', bridge)
+} else {
+  window.__electronPlaywrightHelpersIpc = bridge
+}
+`
+
+/** the app each bridged browser context belongs to */
+const bridgedApps = new WeakMap<BrowserContext, ElectronApplication>()
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Make the renderer IPC helpers - `ipcRendererSend()`, `ipcRendererInvoke()`,
+ * `ipcRendererCallFirstListener()`, `ipcRendererCallAllListeners()` and
+ * `ipcRendererEmit()` - work in windows with `contextIsolation` on and
+ * `nodeIntegration` off, where the page itself cannot `require('electron')`.
+ *
+ * Two things make that possible:
+ * - a test-only preload, registered with every session, which exposes a small
+ *   bridge to the page. It runs alongside the app's own preload, and is the
+ *   only way to reach the app's `ipcRenderer` listeners.
+ * - for windows loaded before the bridge was installed, `ipcRendererSend()`
+ *   and `ipcRendererInvoke()` are played from the main process instead: the
+ *   message is emitted on the window's `ipc`, `webContents.ipc` and `ipcMain`,
+ *   with the window's webContents as the sender, just as Electron does.
+ *
+ * The helpers still use `require('electron')` where the page has it, so the
+ * bridge changes nothing for windows with `nodeIntegration` on. Install it
+ * only in tests - it gives every page in the app a way to send IPC.
+ *
+ * @example
+ * ```ts
+ * const app = await electron.launch({ args: ['.'] })
+ * await using _bridge = await installIpcBridge(app, { reload: true })
+ * const page = await app.firstWindow()
+ * await ipcRendererEmit(page, 'add-message', 'hello')
+ * ```
+ *
+ * @category IPCRenderer
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param options - Optional. `reload` reloads the windows already open.
+ * @returns A promise that resolves with a handle to the bridge.
+ */
+export async function installIpcBridge(
+  app: ElectronApplication,
+  options: InstallIpcBridgeOptions = {},
+): Promise<IpcBridge> {
+  // written by the test process and read by the app - both on one machine
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'epwh-ipc-bridge-'))
+  const preloadPath = path.join(dir, 'preload.js')
+  await fs.writeFile(preloadPath, bridgePreload)
+
+  const installedPath = await retry(() =>
+    app.evaluate(
+      ({ session, webContents }, { preloadPath, reload }) => {
+        const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+        const state: MainIpcBridgeState = (root.ipcBridge ??= {
+          preloadPath: undefined,
+        })
+        if (state.preloadPath) return state.preloadPath
+
+        const sessions = new Set([
+          session.defaultSession,
+          ...webContents.getAllWebContents().map((wc) => wc.session),
+        ])
+        for (const ses of sessions) {
+          // registerPreloadScript() arrived in Electron 35, and setPreloads()
+          // is deprecated from then on
+          if (typeof ses.registerPreloadScript === 'function') {
+            ses.registerPreloadScript({
+              id: 'electron-playwright-helpers-ipc',
+              type: 'frame',
+              filePath: preloadPath,
+            })
+          } else {
+            ses.setPreloads([...ses.getPreloads(), preloadPath])
+          }
+        }
+        state.preloadPath = preloadPath
+        if (reload) {
+          for (const wc of webContents.getAllWebContents()) {
+            if (wc.getType() === 'window') wc.reload()
+          }
+        }
+        return preloadPath
+      },
+      { preloadPath, reload: options.reload ?? false },
+    ),
+  )
+  bridgedApps.set(app.context(), app)
+  if (installedPath !== preloadPath) {
+    // already installed - keep the one the app is using
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+
+  const uninstall = async () => {
+    bridgedApps.delete(app.context())
+    await retry(() =>
+      app.evaluate(({ session, webContents }) => {
+        const state: MainIpcBridgeState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.ipcBridge
+        const installed = state?.preloadPath
+        if (!state || !installed) return
+        const sessions = new Set([
+          session.defaultSession,
+          ...webContents.getAllWebContents().map((wc) => wc.session),
+        ])
+        for (const ses of sessions) {
+          if (typeof ses.unregisterPreloadScript === 'function') {
+            try {
+              ses.unregisterPreloadScript('electron-playwright-helpers-ipc')
+            } catch (_err) {
+              // this session was created after the bridge was installed
+            }
+          } else {
+            ses.setPreloads(ses.getPreloads().filter((p) => p !== installed))
+          }
+        }
+        state.preloadPath = undefined
+      }),
+    )
+    await fs.rm(path.dirname(installedPath), { recursive: true, force: true })
+  }
+  return {
+    preloadPath: installedPath,
+    uninstall,
+    [Symbol.asyncDispose]: uninstall,
+  }
+}
+
+/**
+ * The ElectronApplication that `installIpcBridge()` was called with for this
+ * page's app, if it was.
+ *
+ * @ignore
+ */
+export function bridgedAppFor(page: Page): ElectronApplication | undefined {
+  return bridgedApps.get(page.context())
+}
+
+/** the id of the webContents showing `page` */
+async function webContentsIdFor(
+  app: ElectronApplication,
+  page: Page,
+): Promise<number> {
+  const browserWindow = await retry(() => app.browserWindow(page))
+  return retry(() => browserWindow.evaluate((win) => win.webContents.id))
+}
+
+/**
+ * The event Electron gives ipcMain listeners for a message sent from `wc`'s
+ * main frame. It is built in the main process, so evaluate() callbacks are
+ * passed its source and rebuild it from that.
+ *
+ * @ignore
+ */
+export function ipcMainEventFor(
+  wc: Electron.WebContents,
+): Electron.IpcMainEvent {
+  const frame = wc.mainFrame
+  return {
+    type: 'frame',
+    sender: wc,
+    senderFrame: frame,
+    frameId: frame?.routingId,
+    processId: frame?.processId,
+    ports: [],
+    returnValue: undefined,
+    // the main frame is where wc.send() delivers too, if it is gone
+    reply: (channel: string, ...args: unknown[]) =>
+      frame ? frame.send(channel, ...args) : wc.send(channel, ...args),
+  } as unknown as Electron.IpcMainEvent
+}
+
+/**
+ * Play an `ipcRenderer.send()` from `page` in the main process: build the
+ * event Electron would, and emit it where Electron would.
+ *
+ * @ignore
+ */
+export async function ipcSendFromMain(
+  app: ElectronApplication,
+  page: Page,
+  channel: string,
+  args: unknown[],
+): Promise<void> {
+  const id = await webContentsIdFor(app, page)
+  await retry(() =>
+    app.evaluate(
+      ({ ipcMain, webContents }, { id, channel, args, eventSource }) => {
+        const wc = webContents.fromId(id)
+        if (!wc) throw new Error(`No webContents with id ${id}`)
+        const ipcMainEventFor = new Function(`return (${eventSource})`)() as (
+          wc: Electron.WebContents,
+        ) => Electron.IpcMainEvent
+        const event = ipcMainEventFor(wc)
+        // the order Electron dispatches in
+        wc.mainFrame?.ipc?.emit(channel, event, ...args)
+        wc.ipc?.emit(channel, event, ...args)
+        ipcMain.emit(channel, event, ...args)
+      },
+      { id, channel, args, eventSource: ipcMainEventFor.toString() },
+    ),
+  )
+}
+
+/**
+ * Play an `ipcRenderer.invoke()` from `page` in the main process, through the
+ * first handler Electron would pick, and resolve with its reply.
+ *
+ * @ignore
+ */
+export async function ipcInvokeFromMain(
+  app: ElectronApplication,
+  page: Page,
+  channel: string,
+  args: unknown[],
+): Promise<unknown> {
+  const id = await webContentsIdFor(app, page)
+  return retry(() =>
+    app.evaluate(
+      async ({ ipcMain, webContents }, { id, channel, args, eventSource }) => {
+        type WithHandlers = {
+          _invokeHandlers?: Map<string, (...args: unknown[]) => unknown>
+        }
+        const wc = webContents.fromId(id)
+        if (!wc) throw new Error(`No webContents with id ${id}`)
+        const frame = wc.mainFrame
+        const ipcMainEventFor = new Function(`return (${eventSource})`)() as (
+          wc: Electron.WebContents,
+        ) => Electron.IpcMainEvent
+        // an invoke event is the send event without the ways to answer it:
+        // the handler answers by returning
+        const event = ipcMainEventFor(wc) as Partial<Electron.IpcMainEvent>
+        delete event.reply
+        delete event.returnValue
+        // the frame's handlers win over the webContents', which win over ipcMain's
+        const target = [frame?.ipc, wc.ipc, ipcMain].find((ipc) =>
+          (ipc as WithHandlers | undefined)?._invokeHandlers?.has(channel),
+        ) as WithHandlers | undefined
+        const handler = target?._invokeHandlers?.get(channel)
+        if (!handler) {
+          throw new Error(`No handler registered for '${channel}'`)
+        }
+        return await handler(event, ...args)
+      },
+      { id, channel, args, eventSource: ipcMainEventFor.toString() },
+    ),
+  )
+}
@@ -0,0 +1,323 @@
+import type { ElectronApplication, Page } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import { bridgedAppFor } from './ipc_bridge'
+import { errToString, retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The IPC channels an app is meant to have, by how they are registered. Leave
+ * a kind out to not check it at all; an empty list means "none".
+ *
+ * Channel names are usually the keys of the type map an app already keeps,
+ * so passing `C` keeps the contract and the map in step:
+ *
+ * @example
+ * ```ts
+ * type Invokes = { 'get-user': (id: string) => User; 'save-file': ... }
+ * const contract: IpcContract<keyof Invokes> = {
+ *   handle: ['get-user', 'save-file'],
+ * }
+ * ```
+ *
+ * @category IPCMain
+ */
+export type IpcContract<C extends string = string> = {
+  /** Channels the main process answers with `ipcMain.handle()`. */
+  handle?: readonly C[]
+  /** Channels the main process listens to with `ipcMain.on()`. */
+  on?: readonly C[]
+  /** Channels every checked window listens to with `ipcRenderer.on()`. */
+  renderer?: readonly C[]
+}
+
+/**
+ * Options for `checkIpcContract()` and `assertIpcContract()`.
+ *
+ * @category IPCMain
+ */
+export type IpcContractOptions = {
+  /**
+   * The windows whose renderer listeners are checked against
+   * `contract.renderer`. Defaults to every open window.
+   */
+  pages?: Page[]
+  /** Channels to leave out of the check, e.g. those of a third-party library. */
+  ignore?: (string | RegExp)[]
+}
+
+/**
+ * The IPC channels a running app has registered, from `getIpcChannels()`.
+ *
+ * @category IPCMain
+ */
+export type IpcChannels = {
+  /**
+   * Channels with an invoke handler - on `ipcMain`, a `webContents.ipc` or a
+   * frame's `ipc` - with every place each is handled.
+   */
+  handle: Record<string, string[]>
+  /** Channels with `ipcMain.on()` listeners, with how many each has. */
+  on: Record<string, number>
+  /** The channels each window's `ipcRenderer` listens to, by page URL. */
+  renderer: { url: string; channels: string[] }[]
+}
+
+/**
+ * One way a running app differs from its `IpcContract`.
+ *
+ * @category IPCMain
+ */
+export type IpcContractProblem = {
+  /**
+   * - `'missing'`: the contract has the channel, the app doesn't
+   * - `'unexpected'`: the app has the channel, the contract doesn't
+   * - `'duplicate'`: the channel is handled in more than one place, so which
+   *   handler answers depends on who invokes it
+   */
+  problem: 'missing' | 'unexpected' | 'duplicate'
+  kind: keyof IpcContract
+  channel: string
+  /** For a renderer channel, the URL of the window. */
+  url?: string
+  /** For a duplicate, where the channel is handled. */
+  places?: string[]
+}
+
+/**
+ * The result of `checkIpcContract()`.
+ *
+ * @category IPCMain
+ */
+export type IpcContractReport = {
+  /** True when there are no problems. */
+  ok: boolean
+  problems: IpcContractProblem[]
+  /** What the app had registered, as compared. */
+  channels: IpcChannels
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * List the IPC channels a running app has registered: the invoke handlers and
+ * `ipcMain.on()` listeners in the main process, and the `ipcRenderer.on()`
+ * listeners of each window. The invoke handlers are read from Electron's
+ * private handler maps, the same way `ipcMainInvokeHandler()` finds them.
+ *
+ * Reading renderer listeners needs `nodeIntegration` in the window, or
+ * `installIpcBridge()`.
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param pages - Optional. The windows to list renderer channels for. Defaults to every open window.
+ * @returns A promise that resolves with the registered channels.
+ */
+export async function getIpcChannels(
+  app: ElectronApplication,
+  pages: Page[] = app.windows(),
+): Promise<IpcChannels> {
+  const main = await retry(() =>
+    app.evaluate(({ ipcMain, webContents }) => {
+      type WithHandlers = { _invokeHandlers?: Map<string, unknown> }
+      const ipcMainWH = ipcMain as Electron.IpcMain & WithHandlers
+      // this is all a bit of a hack, so let's test as we go
+      if (!ipcMainWH._invokeHandlers) {
+        throw new Error(`Cannot access ipcMain._invokeHandlers`)
+      }
+      const handle: Record<string, string[]> = {}
+      const add = (ipc: WithHandlers | undefined, place: string) => {
+        for (const channel of ipc?._invokeHandlers?.keys() ?? []) {
+          ;(handle[channel] ??= []).push(place)
+        }
+      }
+      add(ipcMainWH, 'ipcMain')
+      for (const wc of webContents.getAllWebContents()) {
+        add(wc.ipc as WithHandlers, `webContents ${wc.id}`)
+        add(wc.mainFrame?.ipc as WithHandlers, `webContents ${wc.id} frame`)
+      }
+      const on: Record<string, number> = {}
+      for (const channel of ipcMain.eventNames()) {
+        // EventEmitter's own bookkeeping events are not IPC
+        if (typeof channel !== 'string') continue
+        if (channel === 'newListener' || channel === 'removeListener') continue
+        on[channel] = ipcMain.listenerCount(channel)
+      }
+      return { handle, on }
+    }),
+  ).catch((err: unknown) => {
+    const errString = errToString(err)
+    if (errString.includes('Cannot access ipcMain._invokeHandlers')) {
+      throw explainError(err, errorHelp.getIpcChannels, errString)
+    }
+    throw err
+  })
+
+  const renderer: IpcChannels['renderer'] = []
+  for (const page of pages) {
+    renderer.push({ url: page.url(), channels: await rendererChannels(page) })
+  }
+  return { ...main, renderer }
+}
+
+/** the channels `page`'s ipcRenderer listens to */
+function rendererChannels(page: Page): Promise<string[]> {
+  return retry(() =>
+    page.evaluate(() => {
+      if (typeof require !== 'function') {
+        // contextIsolation: go through installIpcBridge()'s preload
+        const bridge = (globalThis as any).__electronPlaywrightHelpersIpc
+        if (bridge) return bridge.eventNames() as string[]
+        throw new Error(
+          `Cannot access require() in renderer process. Is nodeIntegration: true?`,
+        )
+      }
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { ipcRenderer } = require('electron')
+      return (ipcRenderer.eventNames() as (string | symbol)[]).filter(
+        (name): name is string => typeof name === 'string',
+      )
+    }),
+  ).catch((err: unknown) => {
+    const errString = errToString(err)
+    if (errString.includes('Cannot access require() in renderer process')) {
+      throw explainError(
+        err,
+        // listeners live in the renderer: a page loaded before the bridge was
+        // installed can't be read until it is reloaded
+        bridgedAppFor(page)
+          ? errorHelp.ipcBridgeNotLoaded
+          : errorHelp.rendererRequire,
+        errString,
+      )
+    }
+    throw err
+  })
+}
+
+/**
+ * Compare the IPC channels a running app has registered against the ones it
+ * is meant to have, and report every difference: channels in the contract
+ * the app never registered, channels the app registered that the contract
+ * doesn't list, and channels handled in more than one place.
+ *
+ * Electron refuses a second `ipcMain.handle()` for a channel, so a duplicate
+ * here is one handled both on `ipcMain` and on a `webContents.ipc` or frame
+ * `ipc` - where whichever is most specific silently wins. Only the kinds the
+ * contract lists are checked.
+ *
+ * Run it once the app has finished registering its channels - after the
+ * first window has loaded, say - or the ones registered lazily show up as
+ * missing.
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param contract - The channels the app is meant to have.
+ * @param options - Optional. Which windows to check, and channels to ignore.
+ * @returns A promise that resolves with the report.
+ */
+export async function checkIpcContract(
+  app: ElectronApplication,
+  contract: IpcContract,
+  options: IpcContractOptions = {},
+): Promise<IpcContractReport> {
+  const { ignore = [] } = options
+  const ignored = (channel: string) =>
+    ignore.some((pattern) =>
+      typeof pattern === 'string' ? pattern === channel : pattern.test(channel),
+    )
+  const channels = await getIpcChannels(
+    app,
+    contract.renderer ? (options.pages ?? app.windows()) : [],
+  )
+
+  const problems: IpcContractProblem[] = []
+  const compare = (
+    kind: keyof IpcContract,
+    expected: readonly string[],
+    actual: string[],
+    url?: string,
+  ) => {
+    const at = url === undefined ? {} : { url }
+    for (const channel of expected) {
+      if (!actual.includes(channel) && !ignored(channel)) {
+        problems.push({ problem: 'missing', kind, channel, ...at })
+      }
+    }
+    for (const channel of actual) {
+      if (!expected.includes(channel) && !ignored(channel)) {
+        problems.push({ problem: 'unexpected', kind, channel, ...at })
+      }
+    }
+  }
+
+  if (contract.handle) {
+    compare('handle', contract.handle, Object.keys(channels.handle))
+    for (const [channel, places] of Object.entries(channels.handle)) {
+      if (places.length > 1 && !ignored(channel)) {
+        problems.push({ problem: 'duplicate', kind: 'handle', channel, places })
+      }
+    }
+  }
+  if (contract.on) compare('on', contract.on, Object.keys(channels.on))
+  if (contract.renderer) {
+    for (const { url, channels: actual } of channels.renderer) {
+      compare('renderer', contract.renderer, actual, url)
+    }
+  }
+  return { ok: problems.length === 0, problems, channels }
+}
+
+function describeProblem(problem: IpcContractProblem): string {
+  const where = problem.url ? ` in ${problem.url}` : ''
+  switch (problem.problem) {
+    case 'missing':
+      return `  missing ${problem.kind} '${problem.channel}'${where}`
+    case 'unexpected':
+      return `  unexpected ${problem.kind} '${problem.channel}'${where}`
+    case 'duplicate':
+      return `  duplicate ${problem.kind} '${problem.channel}' on ${problem.places?.join(', ')}`
+  }
+}
+
+/**
+ * The same as `checkIpcContract()`, but throws an error listing every
+ * problem, rather than returning them.
+ *
+ * @example
+ * ```ts
+ * await assertIpcContract(app, {
+ *   handle: ['get-user', 'save-file'],
+ *   on: ['new-window'],
+ *   renderer: ['add-message'],
+ * })
+ * ```
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param contract - The channels the app is meant to have.
+ * @param options - Optional. Which windows to check, and channels to ignore.
+ * @returns A promise that resolves if the app matches the contract.
+ * @throws {Error} listing every problem, if it doesn't
+ */
+export async function assertIpcContract(
+  app: ElectronApplication,
+  contract: IpcContract,
+  options: IpcContractOptions = {},
+): Promise<void> {
+  const { ok, problems } = await checkIpcContract(app, contract, options)
+  if (ok) return
+  throw explainError(
+    new Error(
+      `assertIpcContract: the app's IPC channels differ from the contract in ${problems.length} way(s):\n${problems.map(describeProblem).join('\n')}`,
+    ),
+    errorHelp.assertIpcContract,
+  )
+}
@@ -1,12 +1,122 @@
 import { ElectronApplication, Page } from 'playwright-core'
 import { errToString, isRetryOptions, retry, RetryOptions } from './utilities'
 import { errorHelp, explainError } from './error_help'
+import {
+  bridgedAppFor,
+  ipcInvokeFromMain,
+  ipcMainEventFor,
+  ipcSendFromMain,
+} from './ipc_bridge'
+
+/**
+ * Catch a renderer helper failing because its page cannot `require()`
+ * electron. If `installIpcBridge()` has been called for the page's app, and
+ * the helper can be played from the main process, do that instead - the page
+ * was loaded before the bridge, so it has no way in of its own. Otherwise
+ * explain what to do about it.
+ */
+function withoutRequire<T>(
+  page: Page,
+  attempt: Promise<T>,
+  fromMain?: (app: ElectronApplication) => Promise<T>,
+): Promise<T> {
+  return attempt.catch((err: unknown) => {
+    const errString = errToString(err)
+    if (!errString.includes('Cannot access require() in renderer process')) {
+      throw err
+    }
+    const app = bridgedAppFor(page)
+    if (app && fromMain) return fromMain(app)
+    throw explainError(
+      err,
+      app ? errorHelp.ipcBridgeNotLoaded : errorHelp.rendererRequire,
+      errString,
+    )
+  })
+}
+
+/**
+ * What one listener did when called by `ipcMainCallAllListeners()` or
+ * `ipcRendererCallAllListeners()`: the value it returned - awaited, if it
+ * was a promise - or the message of the error it threw.
+ *
+ * @category IPCMain
+ */
+export type IpcListenerResult = {
+  /** The listener's position among the channel's listeners, in registration order. */
+  index: number
+  /** What the listener returned, or resolved with. */
+  value?: unknown
+  /** The message of the error the listener threw, or rejected with. */
+  error?: string
+  /** How long the listener took, including any promise it returned. */
+  durationMs: number
+}
+
+/**
+ * The optional last argument of `ipcMainEmit()` and
+ * `ipcMainCallFirstListener()`: the window the message should appear to come
+ * from, along with any retry options. The listener then gets an event whose
+ * `sender`, `senderFrame`, `frameId`, `processId` and `reply()` belong to that
+ * window, as if its renderer had sent the message - instead of an empty
+ * object.
+ *
+ * @category IPCMain
+ */
+export type IpcEventOptions = Partial<RetryOptions> & {
+  /** The window: its Playwright Page, or its BrowserWindow id. */
+  source: Page | number
+}
+
+function isIpcEventOptions(options: unknown): options is IpcEventOptions {
+  if (typeof options !== 'object' || options === null) return false
+  if (!('source' in options)) return false
+  // a payload may have a `source` of its own - only a window id or a Page
+  // makes this the options
+  const { source } = options
+  const isPage =
+    typeof source === 'object' &&
+    source !== null &&
+    typeof (source as Page).evaluate === 'function' &&
+    typeof (source as Page).context === 'function'
+  if (typeof source !== 'number' && !isPage) return false
+  const rest: Record<string, unknown> = { ...options }
+  delete rest.source
+  return isRetryOptions(rest)
+}
+
+/** Take the trailing `IpcEventOptions` or `RetryOptions` off `args`, if any. */
+function popIpcEventOptions(args: unknown[]): {
+  retryOptions?: Partial<RetryOptions>
+  source?: Page | number
+} {
+  const last = args[args.length - 1]
+  if (isIpcEventOptions(last)) {
+    args.pop()
+    const { source, ...retryOptions } = last
+    return { retryOptions, source }
+  }
+  if (isRetryOptions(last)) return { retryOptions: args.pop() as RetryOptions }
+  return {}
+}
+
+/** The BrowserWindow id of an `IpcEventOptions` source. */
+async function sourceWindowId(
+  electronApp: ElectronApplication,
+  source: Page | number | undefined,
+): Promise<number | undefined> {
+  if (source === undefined) return undefined
+  if (typeof source === 'number') return source
+  const browserWindow = await retry(() => electronApp.browserWindow(source))
+  return retry(() => browserWindow.evaluate((win) => win.id))
+}
 
 /**
  * Send an `ipcRenderer.send()` (to main process) from a given window.
  *
  * Note: nodeIntegration must be true and contextIsolation must be false
- * in the webPreferences for this BrowserWindow.
+ * in the webPreferences for this BrowserWindow - or call `installIpcBridge()`
+ * first, which also covers windows that were open before it.
  *
  * @category IPCRenderer
  *
@@ -25,22 +135,29 @@ export function ipcRendererSend(
   const retryOptions = isRetryOptions(args[args.length - 1])
     ? (args.pop() as RetryOptions)
     : undefined
-  return retry(
-    () =>
-      page.evaluate(
-        ({ channel, args }) => {
-          if (typeof require !== 'function') {
-            throw new Error(
-              `Cannot access require() in renderer process. Is nodeIntegration: true?`,
-            )
-          }
-          // eslint-disable-next-line @typescript-eslint/no-require-imports
-          const { ipcRenderer } = require('electron')
-          return ipcRenderer.send(channel, ...args)
-        },
-        { channel, args },
-      ),
-    retryOptions,
+  return withoutRequire(
+    page,
+    retry(
+      () =>
+        page.evaluate(
+          ({ channel, args }) => {
+            if (typeof require !== 'function') {
+              // contextIsolation: go through installIpcBridge()'s preload
+              const bridge = (globalThis as any).__electronPlaywrightHelpersIpc
+              if (bridge) return bridge.send(channel, args)
+              throw new Error(
+                `Cannot access require() in renderer process. Is nodeIntegration: true?`,
+              )
+            }
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { ipcRenderer } = require('electron')
+            return ipcRenderer.send(channel, ...args)
+          },
+          { channel, args },
+        ),
+      retryOptions,
+    ),
+    (app) => ipcSendFromMain(app, page, channel, args),
   )
 }
 
@@ -48,7 +165,8 @@ export function ipcRendererSend(
  * Send an ipcRenderer.invoke() from a given window.
  *
  * Note: nodeIntegration must be true and contextIsolation must be false
- * in the webPreferences for this window
+ * in the webPreferences for this window - or call `installIpcBridge()`
+ * first, which also covers windows that were open before it.
  *
  * @category IPCRenderer
  *
@@ -67,22 +185,29 @@ export function ipcRendererInvoke(
   const retryOptions = isRetryOptions(args[args.length - 1])
     ? (args.pop() as RetryOptions)
     : undefined
-  return retry(
-    () =>
-      page.evaluate(
-        async ({ message, args }) => {
-          if (typeof require !== 'function') {
-            throw new Error(
-              `Cannot access require() in renderer process. Is nodeIntegration: true?`,
-            )
-          }
-          // eslint-disable-next-line @typescript-eslint/no-require-imports
-          const { ipcRenderer } = require('electron')
-          return await ipcRenderer.invoke(message, ...args)
-        },
-        { message, args },
-      ),
-    retryOptions,
+  return withoutRequire(
+    page,
+    retry(
+      () =>
+        page.evaluate(
+          async ({ message, args }) => {
+            if (typeof require !== 'function') {
+              // contextIsolation: go through installIpcBridge()'s preload
+              const bridge = (globalThis as any).__electronPlaywrightHelpersIpc
+              if (bridge) return await bridge.invoke(message, args)
+              throw new Error(
+                `Cannot access require() in renderer process. Is nodeIntegration: true?`,
+              )
+            }
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { ipcRenderer } = require('electron')
+            return await ipcRenderer.invoke(message, ...args)
+          },
+          { message, args },
+        ),
+      retryOptions,
+    ),
+    (app) => ipcInvokeFromMain(app, page, message, args),
   )
 }
 
@@ -93,7 +218,8 @@ export function ipcRendererInvoke(
  * This function does not send data between main and renderer processes.
  * It simply retrieves data from the renderer process.
  *
- * Note: nodeIntegration must be true for this BrowserWindow.
+ * Note: nodeIntegration must be true for this BrowserWindow - or call
+ * `installIpcBridge()` before it loads.
  *
  * @category IPCRenderer
  *
@@ -112,36 +238,45 @@ export function ipcRendererCallFirstListener(
   const retryOptions = isRetryOptions(args[args.length - 1])
     ? (args.pop() as RetryOptions)
     : undefined
-  return retry(
-    () =>
-      page.evaluate(
-        // Deliberately NOT an async callback. An async function always hands
-        // Playwright a promise, which sends the call down CDP's awaitPromise
-        // path — where a promise the target process doesn't otherwise retain
-        // can be collected before it settles ("Resulting promise was garbage
-        // collected."). Most listeners return a plain value; returning it
-        // unwrapped keeps those calls off that path entirely. A listener that
-        // does return a promise still works: evaluate() awaits it for us, and
-        // that promise is retained by whatever produced it.
-        ({ message, args }) => {
-          if (typeof require !== 'function') {
-            throw new Error(
-              `Cannot access require() in renderer process. Is nodeIntegration: true?`,
-            )
-          }
-          // eslint-disable-next-line @typescript-eslint/no-require-imports
-          const { ipcRenderer } = require('electron')
-          if (ipcRenderer.listenerCount(message) > 0) {
-            // we send a fake event in place of the ipc event object
-            const event = {} as Electron.IpcRendererEvent
-            return ipcRenderer.listeners(message)[0](event, ...args)
-          } else {
-            throw new Error(`No ipcRenderer listeners for '${message}'`)
-          }
-        },
-        { message, args },
-      ),
-    retryOptions,
+  return withoutRequire(
+    page,
+    retry(
+      () =>
+        page.evaluate(
+          // Deliberately NOT an async callback. An async function always hands
+          // Playwright a promise, which sends the call down CDP's awaitPromise
+          // path — where a promise the target process doesn't otherwise retain
+          // can be collected before it settles ("Resulting promise was garbage
+          // collected."). Most listeners return a plain value; returning it
+          // unwrapped keeps those calls off that path entirely. A listener that
+          // does return a promise still works: evaluate() awaits it for us, and
+          // that promise is retained by whatever produced it.
+          ({ message, args }) => {
+            if (typeof require !== 'function') {
+              // contextIsolation: go through installIpcBridge()'s preload
+              const bridge = (globalThis as any).__electronPlaywrightHelpersIpc
+              if (bridge) return bridge.callFirstListener(message, args)
+              throw new Error(
+                `Cannot access require() in renderer process. Is nodeIntegration: true?`,
+              )
+            }
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { ipcRenderer } = require('electron')
+            if (ipcRenderer.listenerCount(message) > 0) {
+              // the event Electron would pass, had the main process sent this
+              const event = {
+                sender: ipcRenderer,
+                ports: [],
+              } as unknown as Electron.IpcRendererEvent
+              return ipcRenderer.listeners(message)[0](event, ...args)
+            } else {
+              throw new Error(`No ipcRenderer listeners for '${message}'`)
+            }
+          },
+          { message, args },
+        ),
+      retryOptions,
+    ),
   )
 }
 
@@ -152,7 +287,8 @@ export function ipcRendererCallFirstListener(
  * This does not transfer data between main and renderer processes.
  * It simply emits an event in the renderer process.
  *
- * Note: nodeIntegration must be true for this window
+ * Note: nodeIntegration must be true for this window - or call
+ * `installIpcBridge()` before it loads.
  *
  * @category IPCRenderer
  *
@@ -172,27 +308,125 @@ export function ipcRendererEmit(
   const retryOptions = isRetryOptions(args[args.length - 1])
     ? (args.pop() as RetryOptions)
     : undefined
-  return retry(
-    () =>
-      page.evaluate(
-        ({ message, args }) => {
-          if (typeof require !== 'function') {
-            throw new Error(
-              `Cannot access require() in renderer process. Is nodeIntegration: true?`,
-            )
-          }
-          // eslint-disable-next-line @typescript-eslint/no-require-imports
-          const { ipcRenderer } = require('electron')
-          if (ipcRenderer.listenerCount(message) === 0) {
-            throw new Error(`No ipcRenderer listeners for '${message}'`)
-          }
-          // create a fake event object
-          const event = {} as Electron.IpcRendererEvent
-          return ipcRenderer.emit(message, event, ...args)
-        },
-        { message, args },
-      ),
-    retryOptions,
+  return withoutRequire(
+    page,
+    retry(
+      () =>
+        page.evaluate(
+          ({ message, args }) => {
+            if (typeof require !== 'function') {
+              // contextIsolation: go through installIpcBridge()'s preload
+              const bridge = (globalThis as any).__electronPlaywrightHelpersIpc
+              if (bridge) return bridge.emit(message, args)
+              throw new Error(
+                `Cannot access require() in renderer process. Is nodeIntegration: true?`,
+              )
+            }
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { ipcRenderer } = require('electron')
+            if (ipcRenderer.listenerCount(message) === 0) {
+              throw new Error(`No ipcRenderer listeners for '${message}'`)
+            }
+            // the event Electron would pass, had the main process sent this
+            const event = {
+              sender: ipcRenderer,
+              ports: [],
+            } as unknown as Electron.IpcRendererEvent
+            return ipcRenderer.emit(message, event, ...args)
+          },
+          { message, args },
+        ),
+      retryOptions,
+    ),
+  )
+}
+
+/**
+ * Call every listener for a given ipcRenderer channel in a given window, one
+ * at a time in registration order, and collect what each returned. A listener
+ * that returns a promise is awaited before the next is called, and one that
+ * throws doesn't stop the rest: its error is reported in its result instead.
+ *
+ * Use it for channels that several parts of the app subscribe to, where
+ * `ipcRendererEmit()` can't tell you what each did and
+ * `ipcRendererCallFirstListener()` only reaches one of them.
+ *
+ * Note: nodeIntegration must be true for this window - or call
+ * `installIpcBridge()` before it loads.
+ *
+ * @example
+ * ```ts
+ * const results = await ipcRendererCallAllListeners(page, 'theme-changed', 'dark')
+ * expect(results.map((result) => result.error)).toEqual([undefined, undefined])
+ * ```
+ *
+ * @category IPCRenderer
+ *
+ * @param page {Page} - the Playwright Page with the ipcRenderer.on() listeners
+ * @param message {string} - the channel to call all ipcRenderer listeners for
+ * @param args {...unknown} optional - one or more arguments to send
+ * @param retryOptions {RetryOptions} optional - options for retrying upon error
+ * @returns {Promise<IpcListenerResult[]>}
+ * @fulfil {IpcListenerResult[]} what each listener did, in registration order
+ * @reject {Error} if there are no ipcRenderer listeners for the event
+ */
+export function ipcRendererCallAllListeners(
+  page: Page,
+  message: string,
+  ...args: (unknown | RetryOptions)[]
+): Promise<IpcListenerResult[]> {
+  const retryOptions = isRetryOptions(args[args.length - 1])
+    ? (args.pop() as RetryOptions)
+    : undefined
+  return withoutRequire(
+    page,
+    retry(
+      () =>
+        page.evaluate(
+          async ({ message, args }) => {
+            if (typeof require !== 'function') {
+              // contextIsolation: go through installIpcBridge()'s preload
+              const bridge = (globalThis as any).__electronPlaywrightHelpersIpc
+              if (bridge) return await bridge.callAllListeners(message, args)
+              throw new Error(
+                `Cannot access require() in renderer process. Is nodeIntegration: true?`,
+              )
+            }
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { ipcRenderer } = require('electron')
+            const listeners = ipcRenderer.listeners(message)
+            if (listeners.length === 0) {
+              throw new Error(`No ipcRenderer listeners for '${message}'`)
+            }
+            // one event for them all, as emit() would have it
+            const event = {
+              sender: ipcRenderer,
+              ports: [],
+            } as unknown as Electron.IpcRendererEvent
+            const results: IpcListenerResult[] = []
+            for (const [index, listener] of listeners.entries()) {
+              const start = performance.now()
+              try {
+                const value = await listener(event, ...args)
+                results.push({
+                  index,
+                  value,
+                  durationMs: performance.now() - start,
+                })
+              } catch (err) {
+                results.push({
+                  index,
+                  error: err instanceof Error ? err.message : String(err),
+                  durationMs: performance.now() - start,
+                })
+              }
+            }
+            return results
+          },
+          { message, args },
+        ),
+      retryOptions,
+    ),
   )
 }
 
@@ -201,39 +435,56 @@ export function ipcRendererEmit(
  * This will trigger all ipcMain listeners for the message.
  *
  * This does not transfer data between main and renderer processes.
- * It simply emits an event in the main process.
+ * It simply emits an event in the main process. The listeners get an empty
+ * event object, unless the last argument names a `source` window - see
+ * `IpcEventOptions`.
+ *
+ * @example
+ * ```ts
+ * // as if the first window had called ipcRenderer.send('new-window')
+ * await ipcMainEmit(app, 'new-window', { source: page })
+ * ```
  *
  * @category IPCMain
  *
  * @param electronApp {ElectronApplication} - the ElectronApplication object from Playwright
  * @param message {string} - the channel to call all ipcMain listeners for
  * @param args {...unknown} - one or more arguments to send
- * @param retryOptions {RetryOptions} optional - options for retrying upon error
+ * @param options {IpcEventOptions|RetryOptions} optional last argument - the source window, and/or options for retrying upon error
  * @returns {Promise<boolean>}
  * @fulfil {boolean} true if there were listeners for this message
  * @reject {Error} if there are no ipcMain listeners for the event
  */
-export function ipcMainEmit(
+export async function ipcMainEmit(
   electronApp: ElectronApplication,
   message: string,
-  ...args: (unknown | RetryOptions)[]
+  ...args: (unknown | RetryOptions | IpcEventOptions)[]
 ): Promise<boolean> {
-  const retryOptions = isRetryOptions(args[args.length - 1])
-    ? (args.pop() as RetryOptions)
-    : undefined
+  const { retryOptions, source } = popIpcEventOptions(args)
+  const windowId = await sourceWindowId(electronApp, source)
   return retry(
     () =>
       electronApp.evaluate(
-        ({ ipcMain }, { message, args }) => {
-          if (ipcMain.listeners(message).length > 0) {
-            // fake ipcMainEvent
-            const event = {} as Electron.IpcMainEvent
-            return ipcMain.emit(message, event, ...args)
-          } else {
+        (
+          { ipcMain, BrowserWindow },
+          { message, args, windowId, eventSource },
+        ) => {
+          if (ipcMain.listeners(message).length === 0) {
             throw new Error(`No ipcMain listeners for '${message}'`)
           }
+          // fake ipcMainEvent, as faithful as the source window allows
+          let event = {} as Electron.IpcMainEvent
+          if (windowId !== undefined) {
+            const wc = BrowserWindow.fromId(windowId)?.webContents
+            if (!wc) throw new Error(`No window with id ${windowId}`)
+            const ipcMainEventFor = new Function(
+              `return (${eventSource})`,
+            )() as (wc: Electron.WebContents) => Electron.IpcMainEvent
+            event = ipcMainEventFor(wc)
+          }
+          return ipcMain.emit(message, event, ...args)
         },
-        { message, args },
+        { message, args, windowId, eventSource: ipcMainEventFor.toString() },
       ),
     retryOptions,
   )
@@ -248,38 +499,138 @@ export function ipcMainEmit(
  *
  * Generally, it's probably better to use `ipcMainInvokeHandler()` instead.
  *
+ * A listener written for `ipcRenderer.sendSync()` answers by setting
+ * `event.returnValue` rather than returning, so that is what this resolves
+ * with when the listener returns nothing. Name a `source` window in the last
+ * argument (see `IpcEventOptions`) for listeners that use `event.sender` or
+ * `event.reply()`.
+ *
  * @category IPCMain
  *
  * @param electronApp {ElectronApplication} - the ElectronApplication object from Playwright
  * @param message {string} - the channel to call the first listener for
  * @param args {...unknown} - one or more arguments to send
- * @param retryOptions {RetryOptions} optional - options for retrying upon error
+ * @param options {IpcEventOptions|RetryOptions} optional last argument - the source window, and/or options for retrying upon error
  * @returns {Promise<unknown>}
- * @fulfil {unknown} resolves with the result of the function
+ * @fulfil {unknown} resolves with the result of the function, or else the `event.returnValue` it set
  * @reject {Error} if there are no ipcMain listeners for the event
  */
 export async function ipcMainCallFirstListener(
   electronApp: ElectronApplication,
   message: string,
-  ...args: (unknown | RetryOptions)[]
+  ...args: (unknown | RetryOptions | IpcEventOptions)[]
 ): Promise<unknown> {
-  const retryOptions = isRetryOptions(args[args.length - 1])
-    ? (args.pop() as RetryOptions)
-    : undefined
+  const { retryOptions, source } = popIpcEventOptions(args)
+  const windowId = await sourceWindowId(electronApp, source)
   return retry(
     () =>
       electronApp.evaluate(
         // Not async — see the note in ipcRendererCallFirstListener().
-        ({ ipcMain }, { message, args }) => {
-          if (ipcMain.listenerCount(message) > 0) {
-            // fake ipcMainEvent
-            const event = {} as Electron.IpcMainEvent
-            return ipcMain.listeners(message)[0](event, ...args)
-          } else {
+        (
+          { ipcMain, BrowserWindow },
+          { message, args, windowId, eventSource },
+        ) => {
+          if (ipcMain.listenerCount(message) === 0) {
             throw new Error(`No listeners for message ${message}`)
           }
+          // fake ipcMainEvent, as faithful as the source window allows
+          let event = {} as Electron.IpcMainEvent
+          if (windowId !== undefined) {
+            const wc = BrowserWindow.fromId(windowId)?.webContents
+            if (!wc) throw new Error(`No window with id ${windowId}`)
+            const ipcMainEventFor = new Function(
+              `return (${eventSource})`,
+            )() as (wc: Electron.WebContents) => Electron.IpcMainEvent
+            event = ipcMainEventFor(wc)
+          }
+          const result = ipcMain.listeners(message)[0](event, ...args)
+          // a listener written for ipcRenderer.sendSync() answers this way
+          return result === undefined ? event.returnValue : result
         },
-        { message, args },
+        { message, args, windowId, eventSource: ipcMainEventFor.toString() },
+      ),
+    retryOptions,
+  )
+}
+
+/**
+ * Call every listener for a given ipcMain channel, one at a time in
+ * registration order, and collect what each returned. A listener that returns
+ * a promise is awaited before the next is called, and one that throws doesn't
+ * stop the rest: its error is reported in its result instead.
+ *
+ * All the listeners get the same event object, as they would from
+ * `ipcMainEmit()` - an empty one, unless the last argument names a `source`
+ * window (see `IpcEventOptions`).
+ *
+ * @example
+ * ```ts
+ * const results = await ipcMainCallAllListeners(app, 'settings-changed', {
+ *   theme: 'dark',
+ * })
+ * expect(results).toHaveLength(3)
+ * expect(results.filter((result) => result.error)).toEqual([])
+ * ```
+ *
+ * @category IPCMain
+ *
+ * @param electronApp {ElectronApplication} - the ElectronApplication object from Playwright
+ * @param message {string} - the channel to call all ipcMain listeners for
+ * @param args {...unknown} - one or more arguments to send
+ * @param options {IpcEventOptions|RetryOptions} optional last argument - the source window, and/or options for retrying upon error
+ * @returns {Promise<IpcListenerResult[]>}
+ * @fulfil {IpcListenerResult[]} what each listener did, in registration order
+ * @reject {Error} if there are no ipcMain listeners for the event
+ */
+export async function ipcMainCallAllListeners(
+  electronApp: ElectronApplication,
+  message: string,
+  ...args: (unknown | RetryOptions | IpcEventOptions)[]
+): Promise<IpcListenerResult[]> {
+  const { retryOptions, source } = popIpcEventOptions(args)
+  const windowId = await sourceWindowId(electronApp, source)
+  return retry(
+    () =>
+      electronApp.evaluate(
+        async (
+          { ipcMain, BrowserWindow },
+          { message, args, windowId, eventSource },
+        ) => {
+          const listeners = ipcMain.listeners(message)
+          if (listeners.length === 0) {
+            throw new Error(`No ipcMain listeners for '${message}'`)
+          }
+          // fake ipcMainEvent, as faithful as the source window allows
+          let event = {} as Electron.IpcMainEvent
+          if (windowId !== undefined) {
+            const wc = BrowserWindow.fromId(windowId)?.webContents
+            if (!wc) throw new Error(`No window with id ${windowId}`)
+            const ipcMainEventFor = new Function(
+              `return (${eventSource})`,
+            )() as (wc: Electron.WebContents) => Electron.IpcMainEvent
+            event = ipcMainEventFor(wc)
+          }
+          const results: IpcListenerResult[] = []
+          for (const [index, listener] of listeners.entries()) {
+            const start = performance.now()
+            try {
+              const value = await listener(event, ...args)
+              results.push({
+                index,
+                value,
+                durationMs: performance.now() - start,
+              })
+            } catch (err) {
+              results.push({
+                index,
+                error: err instanceof Error ? err.message : String(err),
+                durationMs: performance.now() - start,
+              })
+            }
+          }
+          return results
+        },
+        { message, args, windowId, eventSource: ipcMainEventFor.toString() },
       ),
     retryOptions,
   )
@@ -0,0 +1,364 @@
+import type { ElectronApplication } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import { errToString, retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Computes the reply to an `ipcRenderer.invoke()` from its arguments, in place
+ * of the app's handler. It runs inside the Electron main process, so - like an
+ * `electronApp.evaluate()` callback - it is sent as source and cannot use
+ * variables from the test's scope. It may return a promise, and may throw to
+ * reject the invoke.
+ *
+ * @category IPCMain
+ */
+export type IpcMainResponder<A extends unknown[] = unknown[], R = unknown> = (
+  event: Electron.IpcMainInvokeEvent,
+  ...args: A
+) => R | Promise<R>
+
+/**
+ * One reply of a mocked handler: resolve the invoke with `value`, or reject
+ * it with an Error whose message is `error`.
+ *
+ * @category IPCMain
+ */
+export type IpcMainReply<R = unknown> =
+  { value: R; error?: undefined } | { value?: undefined; error: string }
+
+/**
+ * What a mocked `ipcMain.handle()` channel replies with: one `IpcMainReply`
+ * for every call, or each of `replies` in turn.
+ *
+ * @category IPCMain
+ */
+export type IpcMainHandlerReply<R = unknown> =
+  | IpcMainReply<R>
+  | {
+      /** Replies for successive calls, in order. */
+      replies: IpcMainReply<R>[]
+      /**
+       * What to do after the last reply:
+       * - `'repeatLast'` (default) keeps giving the last reply
+       * - `'original'` passes later calls to the app's own handler
+       * - `'throw'` rejects later calls
+       */
+      whenExhausted?: 'repeatLast' | 'original' | 'throw'
+    }
+
+/**
+ * Options for `mockIpcMainHandler()`.
+ *
+ * @category IPCMain
+ */
+export type MockIpcMainHandlerOptions = {
+  /** Reply to one call only, then put the app's handler back. */
+  once?: boolean
+}
+
+/**
+ * One invoke answered by a mocked handler, as recorded in the main process.
+ *
+ * @category IPCMain
+ */
+export type IpcHandlerCall = {
+  /** The channel that was invoked. */
+  channel: string
+  /** The arguments, as plain data. */
+  args: unknown[]
+  /** The id of the webContents that invoked the channel, if there was one. */
+  senderId: number | undefined
+  /** When the call happened, in milliseconds since the epoch (main process clock). */
+  timestamp: number
+  /** The value the invoke resolved with. */
+  returnValue: unknown
+  /** The message of the error the invoke was rejected with. */
+  error?: string
+  /** Which mock answered: each `mockIpcMainHandler()` call gets its own id. */
+  mockId: number
+}
+
+/**
+ * Returned by `mockIpcMainHandler()`. Restores the app's own handler, either
+ * explicitly or at the end of an `await using` block.
+ *
+ * @category IPCMain
+ */
+export type IpcMainHandlerMock = {
+  /** The mocked channel. */
+  channel: string
+  /** The calls this mock answered, oldest first. */
+  calls(): Promise<IpcHandlerCall[]>
+  /**
+   * Put back the handler the app had registered - or none, if it had none.
+   * Does nothing if the channel has been mocked again since, or the mock
+   * was `once` and has already replied.
+   */
+  restore(): Promise<void>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+type SerializedHandlerReply = {
+  replies: IpcMainReply[]
+  whenExhausted: 'repeatLast' | 'original' | 'throw'
+  /** source of an `IpcMainResponder`, used instead of `replies` */
+  responder?: string
+}
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.ipc` - see `MainDialogState` for why
+ * it lives over there.
+ *
+ * @ignore
+ */
+export type MainIpcState = {
+  /** the handler each mocked channel had before, stashed when first mocked */
+  originals: Record<string, unknown>
+  /** which mock is currently installed on each channel */
+  owners: Record<string, number>
+  /** puts back what each mock replaced, by mock id */
+  restorers: Record<number, () => void>
+  /** the id the next mock will get */
+  nextMockId: number
+  /** every call answered by a mock, oldest first */
+  calls: IpcHandlerCall[]
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+function serializeReply(
+  reply: IpcMainHandlerReply | IpcMainResponder,
+): SerializedHandlerReply {
+  if (typeof reply === 'function') {
+    return {
+      replies: [],
+      whenExhausted: 'repeatLast',
+      responder: reply.toString(),
+    }
+  }
+  if ('replies' in reply) {
+    return {
+      replies: reply.replies,
+      whenExhausted: reply.whenExhausted ?? 'repeatLast',
+    }
+  }
+  return { replies: [reply], whenExhausted: 'repeatLast' }
+}
+
+/**
+ * Replace the handler an app registered with `ipcMain.handle()` for the length
+ * of a test. Renderers that `ipcRenderer.invoke()` the channel - and
+ * `ipcMainInvokeHandler()` - get the mock's reply instead, and every call is
+ * recorded with its arguments and the id of the sender's webContents.
+ *
+ * The reply is either a function computing it in the main process (see
+ * `IpcMainResponder`), a single `{ value }` or `{ error }`, or a list of
+ * `replies` for successive calls. A channel with no handler yet can be mocked
+ * too; restoring it then removes the mock.
+ *
+ * @example
+ * ```ts
+ * // every save fails
+ * await using saves = await mockIpcMainHandler(app, 'save-file', {
+ *   error: 'EACCES: permission denied',
+ * })
+ * await page.click('#save')
+ * await expect(page.locator('.error')).toContainText('permission denied')
+ * expect(await saves.calls()).toHaveLength(1)
+ *
+ * // the first fetch times out, the retry succeeds
+ * await mockIpcMainHandler(app, 'fetch-user', {
+ *   replies: [{ error: 'ETIMEDOUT' }, { value: { name: 'Ada' } }],
+ * })
+ *
+ * // echo the arguments back
+ * await mockIpcMainHandler(app, 'add', (_event, a: number, b: number) => a + b)
+ * ```
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param channel - The channel the app handles with `ipcMain.handle()`.
+ * @param reply - A responder function, or the reply (or replies) to give.
+ * @param options - Optional. `once` restores the app's handler after one call.
+ * @returns A promise that resolves with a handle to the mock.
+ */
+export async function mockIpcMainHandler<
+  A extends unknown[] = unknown[],
+  R = unknown,
+>(
+  app: ElectronApplication,
+  channel: string,
+  reply: IpcMainHandlerReply<R> | IpcMainResponder<A, R>,
+  options: MockIpcMainHandlerOptions = {},
+): Promise<IpcMainHandlerMock> {
+  const serialized = serializeReply(
+    reply as IpcMainHandlerReply | IpcMainResponder,
+  )
+  const mockId = await retry(
+    () =>
+      app.evaluate(
+        ({ ipcMain }, { channel, serialized, once }) => {
+          const handlers = (
+            ipcMain as Electron.IpcMain & {
+              _invokeHandlers?: Map<string, unknown>
+            }
+          )._invokeHandlers
+          // this is all a bit of a hack, so let's test as we go
+          if (!handlers) {
+            throw new Error(`Cannot access ipcMain._invokeHandlers`)
+          }
+          const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+          const state: MainIpcState = (root.ipc ??= {
+            originals: {},
+            owners: {},
+            restorers: {},
+            nextMockId: 1,
+            calls: [],
+          })
+          const mockId = state.nextMockId++
+          if (!(channel in state.originals)) {
+            // the raw entry: startIpcRecording() wraps what handlers.get()
+            // returns, and that wrapper must not be restored as the original
+            state.originals[channel] = Map.prototype.get.call(handlers, channel)
+          }
+
+          // Responders arrive as source, the way evaluate() sends its callback
+          const responder =
+            serialized.responder === undefined
+              ? undefined
+              : (new Function(`return (${serialized.responder})`)() as (
+                  ...args: unknown[]
+                ) => unknown)
+          const { replies, whenExhausted } = serialized
+          let used = 0
+
+          // put back exactly what was registered - the raw map entry, so
+          // however this Electron version wraps handlers, it is undone
+          const restore = () => {
+            if (state.owners[channel] !== mockId) return
+            const original = state.originals[channel]
+            ipcMain.removeHandler(channel)
+            if (original !== undefined) handlers.set(channel, original)
+            delete state.originals[channel]
+            delete state.owners[channel]
+          }
+
+          // Recorded arguments have to survive the trip back to the test
+          const toPlain = (value: unknown) => {
+            if (value === undefined) return undefined
+            try {
+              return JSON.parse(JSON.stringify(value))
+            } catch (err) {
+              return { serializationError: String(err) }
+            }
+          }
+
+          const answer = async (
+            event: Electron.IpcMainInvokeEvent,
+            args: unknown[],
+          ) => {
+            if (responder) return responder(event, ...args)
+            let reply = replies[used]
+            if (used < replies.length) {
+              used++
+            } else if (whenExhausted === 'original') {
+              const original = state.originals[channel] as
+                ((...args: unknown[]) => unknown) | undefined
+              if (!original) {
+                throw new Error(
+                  `No original handler for '${channel}' to pass to`,
+                )
+              }
+              return original(event, ...args)
+            } else if (whenExhausted === 'throw') {
+              throw new Error(
+                `Mock for '${channel}' has no replies left (it had ${replies.length})`,
+              )
+            } else {
+              reply = replies[replies.length - 1]
+            }
+            if (typeof reply.error === 'string') throw new Error(reply.error)
+            return reply.value
+          }
+
+          const mock = async (
+            event: Electron.IpcMainInvokeEvent,
+            ...args: unknown[]
+          ) => {
+            const call = {
+              channel,
+              args: toPlain(args),
+              senderId: event?.sender?.id,
+              timestamp: Date.now(),
+              returnValue: undefined as unknown,
+              error: undefined as string | undefined,
+              mockId,
+            }
+            state.calls.push(call)
+            if (once) restore()
+            try {
+              const value = await answer(event, args)
+              call.returnValue = toPlain(value)
+              return value
+            } catch (err) {
+              call.error = err instanceof Error ? err.message : String(err)
+              throw err
+            } finally {
+              if (call.error === undefined) delete call.error
+            }
+          }
+
+          ipcMain.removeHandler(channel)
+          ipcMain.handle(channel, mock)
+          state.owners[channel] = mockId
+          state.restorers[mockId] = restore
+          return mockId
+        },
+        { channel, serialized, once: options.once ?? false },
+      ),
+    // installing is not idempotent - a second attempt would take the first
+    // mock for the app's handler - so, as with stubDialogMatchers(), it is
+    // never retried
+    { disable: true },
+  ).catch((err: unknown) => {
+    const errString = errToString(err)
+    if (errString.includes('Cannot access ipcMain._invokeHandlers')) {
+      throw explainError(err, errorHelp.mockIpcMainHandler, errString)
+    }
+    throw err
+  })
+  if (mockId === undefined) {
+    throw new Error(
+      'mockIpcMainHandler: the app closed while the mock was being installed',
+    )
+  }
+
+  const restore = () =>
+    retry(() =>
+      app.evaluate((_electron, mockId) => {
+        const state: MainIpcState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.ipc
+        state?.restorers[mockId]?.()
+      }, mockId),
+    )
+  return {
+    channel,
+    calls: () =>
+      retry(() =>
+        app.evaluate((_electron, mockId) => {
+          const state: MainIpcState | undefined = (globalThis as any)
+            .__electronPlaywrightHelpers?.ipc
+          return (state?.calls ?? []).filter((call) => call.mockId === mockId)
+        }, mockId),
+      ),
+    restore,
+    [Symbol.asyncDispose]: restore,
+  }
+}
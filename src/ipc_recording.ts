@@ -0,0 +1,418 @@
+import type { ElectronApplication } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import { retry, retryUntilTruthy, RetryUntilTruthyOptions } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One IPC message, as recorded in the main process by `startIpcRecording()`.
+ *
+ * @category IPCMain
+ */
+export type IpcMessage = {
+  /** `'renderer-to-main'` for `send()`/`invoke()` from a renderer, `'main-to-renderer'` for `webContents.send()`. */
+  direction: 'renderer-to-main' | 'main-to-renderer'
+  /** `'invoke'` for `ipcRenderer.invoke()`, `'send'` for everything else. */
+  kind: 'send' | 'invoke'
+  /** The channel the message was sent on. */
+  channel: string
+  /**
+   * The arguments, copied as the message was sent. Anything that can't be
+   * structured-cloned arrives as `{ serializationError }`.
+   */
+  args: unknown[]
+  /** The webContents that sent the message, or that it was sent to. */
+  webContentsId: number | undefined
+  /** When the message was sent, in milliseconds since the epoch (main process clock). */
+  timestamp: number
+  /** For an invoke: how long the handler took, in milliseconds. */
+  duration?: number
+  /** For an invoke: what the handler resolved with. */
+  returnValue?: unknown
+  /** For an invoke: the message of the error the handler threw. */
+  error?: string
+}
+
+/**
+ * Which recorded messages to return or wait for. Every property is optional.
+ *
+ * @category IPCMain
+ */
+export type IpcMessageMatcher = {
+  /** The channel - a string matches exactly. */
+  channel?: string | RegExp
+  direction?: IpcMessage['direction']
+  kind?: IpcMessage['kind']
+}
+
+/**
+ * Returned by `startIpcRecording()`.
+ *
+ * @category IPCMain
+ */
+export type IpcRecording = {
+  /** The messages recorded so far, oldest first. */
+  log(matcher?: IpcMessageMatcher): Promise<IpcMessage[]>
+  /** Stop recording, and resolve with everything recorded. */
+  stop(): Promise<IpcMessage[]>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.ipcRecording` - see
+ * `MainDialogState` for why it lives over there.
+ *
+ * @ignore
+ */
+export type MainIpcRecordingState = {
+  /** every message recorded, oldest first */
+  log: IpcMessage[]
+  /** undoes the patches, while recording */
+  stop: (() => void) | undefined
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Start recording the IPC traffic between the main process and every
+ * renderer: `ipcRenderer.send()` and `sendSync()` as ipcMain sees them,
+ * `ipcRenderer.invoke()` with its reply and how long the handler took, and
+ * `webContents.send()` to any window - including ones opened later.
+ *
+ * Recording is done by wrapping `ipcMain.emit()`, the lookup in ipcMain's
+ * private handler map, and each webContents' `send()`, all of which are put
+ * back by `stop()`. Messages the helpers send themselves, such as those from
+ * `ipcMainEmit()`, are recorded too. Starting again while recording keeps the
+ * one recording going.
+ *
+ * @example
+ * ```ts
+ * await using recording = await startIpcRecording(app)
+ * await page.click('#save')
+ * const save = await waitForIpcMessage(app, 'save-file')
+ * expect(save.args).toEqual([{ name: 'notes.txt' }])
+ * await expectIpcMessage(app, 'file-saved', (message) =>
+ *   message.direction === 'main-to-renderer',
+ * )
+ * ```
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the recording once it has started.
+ */
+export async function startIpcRecording(
+  app: ElectronApplication,
+): Promise<IpcRecording> {
+  await retry(() =>
+    app.evaluate(({ ipcMain, webContents, app: electronApp }) => {
+      const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+      const state: MainIpcRecordingState = (root.ipcRecording ??= {
+        log: [],
+        stop: undefined,
+      })
+      if (state.stop) return
+
+      // a copy, so the app changing its objects later doesn't rewrite the log
+      const copy = (value: unknown) => {
+        try {
+          return structuredClone(value)
+        } catch (err) {
+          return { serializationError: String(err) }
+        }
+      }
+      const record = (
+        message: Omit<IpcMessage, 'timestamp' | 'args'>,
+        args: unknown[],
+      ) => {
+        const entry: IpcMessage = {
+          ...message,
+          args: args.map(copy),
+          timestamp: Date.now(),
+        }
+        state.log.push(entry)
+        return entry
+      }
+
+      // renderer to main: send() and sendSync() are emitted on ipcMain with
+      // the event first; EventEmitter's own bookkeeping events are not IPC
+      const originalEmit = ipcMain.emit
+      ipcMain.emit = function (channel: string | symbol, ...args: unknown[]) {
+        if (
+          typeof channel === 'string' &&
+          channel !== 'newListener' &&
+          channel !== 'removeListener'
+        ) {
+          const [event, ...rest] = args as [Electron.IpcMainEvent, ...unknown[]]
+          record(
+            {
+              direction: 'renderer-to-main',
+              kind: 'send',
+              channel,
+              webContentsId: event?.sender?.id,
+            },
+            rest,
+          )
+        }
+        return originalEmit.call(this, channel, ...args)
+      }
+
+      // renderer to main: Electron looks invoke handlers up in this map
+      const handlers = (
+        ipcMain as Electron.IpcMain & {
+          _invokeHandlers?: Map<string, (...args: unknown[]) => unknown>
+        }
+      )._invokeHandlers
+      const originalGet = handlers?.get
+      if (handlers && originalGet) {
+        handlers.get = function (channel: string) {
+          const handler = originalGet.call(this, channel)
+          if (!handler) return handler
+          return async (
+            event: Electron.IpcMainInvokeEvent,
+            ...args: unknown[]
+          ) => {
+            const entry = record(
+              {
+                direction: 'renderer-to-main',
+                kind: 'invoke',
+                channel,
+                webContentsId: event?.sender?.id,
+              },
+              args,
+            )
+            const start = Date.now()
+            try {
+              const result = await handler(event, ...args)
+              entry.returnValue = copy(result)
+              return result
+            } catch (err) {
+              entry.error = err instanceof Error ? err.message : String(err)
+              throw err
+            } finally {
+              entry.duration = Date.now() - start
+            }
+          }
+        }
+      }
+
+      // main to renderer: send() lives on each webContents, so wrap every
+      // one there is, and every one created while recording
+      const patched = new Map<
+        Electron.WebContents,
+        Electron.WebContents['send']
+      >()
+      const patch = (wc: Electron.WebContents) => {
+        if (patched.has(wc)) return
+        const originalSend = wc.send
+        patched.set(wc, originalSend)
+        wc.send = function (channel: string, ...args: unknown[]) {
+          record(
+            {
+              direction: 'main-to-renderer',
+              kind: 'send',
+              channel,
+              webContentsId: wc.id,
+            },
+            args,
+          )
+          return originalSend.call(this, channel, ...args)
+        }
+      }
+      webContents.getAllWebContents().forEach(patch)
+      const onCreated = (_event: unknown, wc: Electron.WebContents) => patch(wc)
+      electronApp.on('web-contents-created', onCreated)
+
+      state.stop = () => {
+        ipcMain.emit = originalEmit
+        if (handlers && originalGet) handlers.get = originalGet
+        electronApp.removeListener('web-contents-created', onCreated)
+        for (const [wc, originalSend] of patched) {
+          if (!wc.isDestroyed()) wc.send = originalSend
+        }
+        state.stop = undefined
+      }
+    }),
+  )
+
+  const stop = async () => {
+    await retry(() =>
+      app.evaluate(() => {
+        const state: MainIpcRecordingState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.ipcRecording
+        state?.stop?.()
+      }),
+    )
+    return getIpcLog(app)
+  }
+  return {
+    log: (matcher) => getIpcLog(app, matcher),
+    stop,
+    [Symbol.asyncDispose]: async () => {
+      await stop()
+    },
+  }
+}
+
+/**
+ * Test a recorded message against an `IpcMessageMatcher`.
+ *
+ * @ignore
+ */
+export function ipcMessageMatches(
+  message: IpcMessage,
+  matcher: IpcMessageMatcher,
+): boolean {
+  const { channel, direction, kind } = matcher
+  if (typeof channel === 'string' && message.channel !== channel) return false
+  if (channel instanceof RegExp && !channel.test(message.channel)) return false
+  if (direction !== undefined && message.direction !== direction) return false
+  if (kind !== undefined && message.kind !== kind) return false
+  return true
+}
+
+/**
+ * Get the IPC messages recorded since `startIpcRecording()`, oldest first.
+ * The log survives `stop()`, until `clearIpcLog()`.
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param matcher - Optional. Only return the messages that match.
+ * @returns A promise that resolves with the recorded messages.
+ */
+export async function getIpcLog(
+  app: ElectronApplication,
+  matcher: IpcMessageMatcher = {},
+): Promise<IpcMessage[]> {
+  const log = await retry(() =>
+    app.evaluate(
+      () =>
+        ((globalThis as any).__electronPlaywrightHelpers?.ipcRecording?.log ??
+          []) as IpcMessage[],
+    ),
+  )
+  return log.filter((message) => ipcMessageMatches(message, matcher))
+}
+
+/**
+ * Empty the IPC log, e.g. between the steps of a test. Recording carries on.
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves when the log is empty.
+ */
+export function clearIpcLog(app: ElectronApplication): Promise<void> {
+  return retry(() =>
+    app.evaluate(() => {
+      const state = (globalThis as any).__electronPlaywrightHelpers
+        ?.ipcRecording
+      if (state) state.log = []
+    }),
+  )
+}
+
+function describeLog(log: IpcMessage[]): string {
+  if (!log.length) return '  (none)'
+  return log
+    .map(
+      (message) =>
+        `  ${message.direction} ${message.kind} '${message.channel}' ${JSON.stringify(message.args)}`,
+    )
+    .join('\n')
+}
+
+/**
+ * Wait until a message on `channel` is recorded, and return it. A message
+ * already in the log counts, so call `clearIpcLog()` first to wait only for
+ * messages sent from then on. Recording must have been started with
+ * `startIpcRecording()`.
+ *
+ * @example
+ * ```ts
+ * const reply = await waitForIpcMessage(
+ *   app,
+ *   'search-results',
+ *   (message) => (message.args[0] as unknown[]).length > 0,
+ * )
+ * ```
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param channel - The channel, or an `IpcMessageMatcher`.
+ * @param predicate - Optional. Runs in the test, on each message on the channel.
+ * @param options - Optional. How long to wait, and how often to look. Defaults to 5000ms.
+ * @returns A promise that resolves with the first matching message.
+ * @throws {Error} if no matching message is recorded before the timeout
+ */
+export async function waitForIpcMessage(
+  app: ElectronApplication,
+  channel: string | RegExp | IpcMessageMatcher,
+  predicate: (message: IpcMessage) => boolean = () => true,
+  options: Partial<RetryUntilTruthyOptions> = {},
+): Promise<IpcMessage> {
+  const matcher = toMatcher(channel)
+  let lastSeen: IpcMessage[] = []
+  try {
+    return await retryUntilTruthy(async () => {
+      lastSeen = await getIpcLog(app)
+      return lastSeen.find(
+        (message) => ipcMessageMatches(message, matcher) && predicate(message),
+      )
+    }, options)
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.includes('Timeout')) throw err
+    throw explainError(
+      new Error(
+        `waitForIpcMessage: no matching message on ${String(matcher.channel ?? 'any channel')}. Recorded messages:\n${describeLog(lastSeen)}`,
+      ),
+      errorHelp.ipcMessageNotRecorded,
+    )
+  }
+}
+
+/**
+ * Assert that a message on `channel` has already been recorded, and return
+ * it. The same as `waitForIpcMessage()`, without the wait.
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param channel - The channel, or an `IpcMessageMatcher`.
+ * @param predicate - Optional. Runs in the test, on each message on the channel.
+ * @returns A promise that resolves with the first matching message.
+ * @throws {Error} listing the recorded messages, if none matches
+ */
+export async function expectIpcMessage(
+  app: ElectronApplication,
+  channel: string | RegExp | IpcMessageMatcher,
+  predicate: (message: IpcMessage) => boolean = () => true,
+): Promise<IpcMessage> {
+  const matcher = toMatcher(channel)
+  const log = await getIpcLog(app)
+  const found = log.find(
+    (message) => ipcMessageMatches(message, matcher) && predicate(message),
+  )
+  if (found) return found
+  throw explainError(
+    new Error(
+      `expectIpcMessage: no matching message on ${String(matcher.channel ?? 'any channel')}. Recorded messages:\n${describeLog(log)}`,
+    ),
+    errorHelp.ipcMessageNotRecorded,
+  )
+}
+
+function toMatcher(
+  channel: string | RegExp | IpcMessageMatcher,
+): IpcMessageMatcher {
+  return typeof channel === 'string' || channel instanceof RegExp
+    ? { channel }
+    : channel
+}
@@ -0,0 +1,209 @@
+import type { ElectronApplication, Page } from 'playwright-core'
+import {
+  IpcEventOptions,
+  IpcListenerResult,
+  ipcMainCallAllListeners,
+  ipcMainCallFirstListener,
+  ipcMainEmit,
+  ipcMainInvokeHandler,
+  ipcRendererCallAllListeners,
+  ipcRendererCallFirstListener,
+  ipcRendererEmit,
+  ipcRendererInvoke,
+  ipcRendererSend,
+} from './ipc_helpers'
+import { RetryOptions } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// `any[]` is the only parameter list every function type is assignable to
+type ChannelSignatures = Record<string, (...args: any[]) => unknown>
+
+/**
+ * The shape of the channel map `createIpcHelpers()` is typed by. Each section
+ * maps channel names to a function type: its parameters are the message's
+ * arguments, and its return type what the listener or handler gives back.
+ * Leave out the sections an app has no channels for.
+ *
+ * @example
+ * ```ts
+ * interface AppChannels {
+ *   handle: {
+ *     'get-user': (id: string) => { name: string }
+ *     'how-many-windows': () => number
+ *   }
+ *   on: {
+ *     'new-window': () => void
+ *   }
+ *   renderer: {
+ *     'add-message': (text: string, id: string) => void
+ *   }
+ * }
+ * ```
+ *
+ * @category IPCMain
+ */
+export type IpcChannelMap = {
+  /** Channels the main process answers with `ipcMain.handle()`. */
+  handle?: ChannelSignatures
+  /** Channels the main process listens to with `ipcMain.on()`. */
+  on?: ChannelSignatures
+  /** Channels renderers listen to with `ipcRenderer.on()`. */
+  renderer?: ChannelSignatures
+}
+
+type Section<
+  M extends IpcChannelMap,
+  S extends keyof IpcChannelMap,
+> = M[S] extends ChannelSignatures ? M[S] : Record<never, never>
+type ChannelName<
+  M extends IpcChannelMap,
+  S extends keyof IpcChannelMap,
+> = Extract<keyof Section<M, S>, string>
+type Args<
+  M extends IpcChannelMap,
+  S extends keyof IpcChannelMap,
+  C extends ChannelName<M, S>,
+> = Section<M, S>[C] extends (...args: infer A) => unknown ? A : never
+type Reply<
+  M extends IpcChannelMap,
+  S extends keyof IpcChannelMap,
+  C extends ChannelName<M, S>,
+> = Section<M, S>[C] extends (...args: never[]) => infer R ? Awaited<R> : never
+/** the arguments, then optionally the options the wrapped helper takes last */
+type WithOptions<A extends unknown[], O> = A | [...A, O]
+
+/**
+ * The helpers for one window, from `createIpcHelpers(app).renderer(page)`.
+ * Each wraps the `ipcRenderer*` helper of the same name.
+ *
+ * @category IPCRenderer
+ */
+export type TypedIpcRendererHelpers<M extends IpcChannelMap> = {
+  /** `ipcRendererSend()`, to a channel in `M['on']`. */
+  send<C extends ChannelName<M, 'on'>>(
+    channel: C,
+    ...args: WithOptions<Args<M, 'on', C>, Partial<RetryOptions>>
+  ): Promise<void>
+  /** `ipcRendererInvoke()`, of a channel in `M['handle']`. */
+  invoke<C extends ChannelName<M, 'handle'>>(
+    channel: C,
+    ...args: WithOptions<Args<M, 'handle', C>, Partial<RetryOptions>>
+  ): Promise<Reply<M, 'handle', C>>
+  /** `ipcRendererEmit()`, to a channel in `M['renderer']`. */
+  emit<C extends ChannelName<M, 'renderer'>>(
+    channel: C,
+    ...args: WithOptions<Args<M, 'renderer', C>, Partial<RetryOptions>>
+  ): Promise<boolean>
+  /** `ipcRendererCallFirstListener()`, of a channel in `M['renderer']`. */
+  callFirstListener<C extends ChannelName<M, 'renderer'>>(
+    channel: C,
+    ...args: WithOptions<Args<M, 'renderer', C>, Partial<RetryOptions>>
+  ): Promise<Reply<M, 'renderer', C>>
+  /** `ipcRendererCallAllListeners()`, of a channel in `M['renderer']`. */
+  callAllListeners<C extends ChannelName<M, 'renderer'>>(
+    channel: C,
+    ...args: WithOptions<Args<M, 'renderer', C>, Partial<RetryOptions>>
+  ): Promise<IpcListenerResult[]>
+}
+
+/**
+ * Returned by `createIpcHelpers()`. The main-process helpers wrap the
+ * `ipcMain*` helper of the same name; `renderer()` gives the helpers for a
+ * window.
+ *
+ * @category IPCMain
+ */
+export type TypedIpcHelpers<M extends IpcChannelMap> = {
+  /** `ipcMainInvokeHandler()`, of a channel in `M['handle']`. */
+  invoke<C extends ChannelName<M, 'handle'>>(
+    channel: C,
+    ...args: WithOptions<Args<M, 'handle', C>, Partial<RetryOptions>>
+  ): Promise<Reply<M, 'handle', C>>
+  /** `ipcMainEmit()`, to a channel in `M['on']`. */
+  emit<C extends ChannelName<M, 'on'>>(
+    channel: C,
+    ...args: WithOptions<
+      Args<M, 'on', C>,
+      Partial<RetryOptions> | IpcEventOptions
+    >
+  ): Promise<boolean>
+  /** `ipcMainCallFirstListener()`, of a channel in `M['on']`. */
+  callFirstListener<C extends ChannelName<M, 'on'>>(
+    channel: C,
+    ...args: WithOptions<
+      Args<M, 'on', C>,
+      Partial<RetryOptions> | IpcEventOptions
+    >
+  ): Promise<Reply<M, 'on', C>>
+  /** `ipcMainCallAllListeners()`, of a channel in `M['on']`. */
+  callAllListeners<C extends ChannelName<M, 'on'>>(
+    channel: C,
+    ...args: WithOptions<
+      Args<M, 'on', C>,
+      Partial<RetryOptions> | IpcEventOptions
+    >
+  ): Promise<IpcListenerResult[]>
+  /** The helpers for sending from, and calling listeners in, one window. */
+  renderer(page: Page): TypedIpcRendererHelpers<M>
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Get IPC helpers typed by the app's own channel map, so that a renamed
+ * channel or a changed payload fails type-checking in the tests rather than
+ * at runtime. Nothing changes at runtime: each method passes its arguments,
+ * including a trailing `RetryOptions` (or `IpcEventOptions`), straight to the
+ * untyped helper it wraps.
+ *
+ * The map is a type only - see `IpcChannelMap` for its shape. Apps that
+ * already declare their channels for the preload can usually reuse that
+ * declaration.
+ *
+ * @example
+ * ```ts
+ * const ipc = createIpcHelpers<AppChannels>(app)
+ * const user = await ipc.invoke('get-user', 'id-1') // { name: string }
+ * await ipc.emit('new-window', { source: page })
+ * await ipc.renderer(page).emit('add-message', 'hello', 'message-1')
+ *
+ * // @ts-expect-error - 'get-users' isn't a channel
+ * await ipc.invoke('get-users')
+ * ```
+ *
+ * @category IPCMain
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns The typed helpers.
+ */
+export function createIpcHelpers<M extends IpcChannelMap>(
+  app: ElectronApplication,
+): TypedIpcHelpers<M> {
+  // the signatures above are the whole point; the wrapped helpers are untyped
+  return {
+    invoke: (channel, ...args) =>
+      ipcMainInvokeHandler(app, channel, ...args) as Promise<never>,
+    emit: (channel, ...args) => ipcMainEmit(app, channel, ...args),
+    callFirstListener: (channel, ...args) =>
+      ipcMainCallFirstListener(app, channel, ...args) as Promise<never>,
+    callAllListeners: (channel, ...args) =>
+      ipcMainCallAllListeners(app, channel, ...args),
+    renderer: (page) => ({
+      send: async (channel, ...args) => {
+        await ipcRendererSend(page, channel, ...args)
+      },
+      invoke: (channel, ...args) =>
+        ipcRendererInvoke(page, channel, ...args) as Promise<never>,
+      emit: (channel, ...args) => ipcRendererEmit(page, channel, ...args),
+      callFirstListener: (channel, ...args) =>
+        ipcRendererCallFirstListener(page, channel, ...args) as Promise<never>,
+      callAllListeners: (channel, ...args) =>
+        ipcRendererCallAllListeners(page, channel, ...args),
+    }),
+  }
+}
@@ -0,0 +1,230 @@
+import type { ElectronApplication, Page } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import { MenuItemPartial, getApplicationMenu } from './menu_helpers'
+import { retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for `pressMenuAccelerator()`.
+ *
+ * @category Menu
+ */
+export type PressMenuAcceleratorOptions = {
+  /**
+   * The window to press the keys in: a Page, or a BrowserWindow id. Defaults
+   * to the focused window, or the first window if none has focus.
+   */
+  window?: Page | number
+}
+
+/** modifiers, in the order a normalized accelerator lists them */
+const modifierOrder = ['Cmd', 'Ctrl', 'Alt', 'AltGr', 'Shift', 'Super']
+
+type InputModifier = NonNullable<Electron.InputEvent['modifiers']>[number]
+
+/** what `sendInputEvent()` calls each modifier */
+const inputModifiers: Record<string, InputModifier> = {
+  Cmd: 'meta',
+  Ctrl: 'control',
+  Alt: 'alt',
+  AltGr: 'alt',
+  Shift: 'shift',
+  Super: 'meta',
+}
+
+/** every spelling of each modifier, lower-cased */
+const modifierNames: Record<string, string> = {
+  cmdorctrl: 'CmdOrCtrl',
+  commandorcontrol: 'CmdOrCtrl',
+  command: 'Cmd',
+  cmd: 'Cmd',
+  control: 'Ctrl',
+  ctrl: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  altgr: 'AltGr',
+  shift: 'Shift',
+  super: 'Super',
+  meta: 'Super',
+}
+
+/** key names Electron accepts more than one spelling of */
+const keyAliases: Record<string, string> = {
+  esc: 'escape',
+  return: 'enter',
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Put an accelerator in one canonical form, so that two spellings of the same
+ * keys compare equal on `platform`: modifier aliases are resolved -
+ * `CmdOrCtrl` to `Cmd` on macOS and `Ctrl` elsewhere - modifiers are sorted,
+ * and the key is lower-cased.
+ *
+ * @ignore
+ */
+export function normalizeAccelerator(
+  accelerator: string,
+  platform: string,
+): string {
+  const mac = platform === 'darwin'
+  const parts = accelerator.split('+').map((part) => part.trim())
+  // "CmdOrCtrl++" is how Electron spells the plus key
+  if (parts.length > 2 && parts.at(-1) === '' && parts.at(-2) === '') {
+    parts.splice(-2, 2, 'Plus')
+  }
+  const modifiers = new Set<string>()
+  let key: string | undefined
+  for (const part of parts) {
+    const modifier = modifierNames[part.toLowerCase()]
+    if (modifier === 'CmdOrCtrl') {
+      modifiers.add(mac ? 'Cmd' : 'Ctrl')
+    } else if (modifier) {
+      // on macOS, Super is the Cmd key
+      modifiers.add(mac && modifier === 'Super' ? 'Cmd' : modifier)
+    } else if (key === undefined && part !== '') {
+      key = part.toLowerCase()
+    } else {
+      throw new Error(`Invalid accelerator "${accelerator}"`)
+    }
+  }
+  if (key === undefined) {
+    throw new Error(`Invalid accelerator "${accelerator}" - it has no key`)
+  }
+  return [
+    ...modifierOrder.filter((modifier) => modifiers.has(modifier)),
+    keyAliases[key] ?? key,
+  ].join('+')
+}
+
+/** every item in `items` with an accelerator, with the labels leading to it */
+function itemsWithAccelerators(
+  items: MenuItemPartial[],
+  parent: string[] = [],
+): { path: string[]; item: MenuItemPartial }[] {
+  return items.flatMap((item) => {
+    const path = [...parent, item.label || item.role || item.id || '?']
+    return [
+      ...(item.accelerator ? [{ path, item }] : []),
+      ...itemsWithAccelerators(item.submenu ?? [], path),
+    ]
+  })
+}
+
+/**
+ * Press a menu accelerator the way a user would: as key events sent to a
+ * window with `webContents.sendInputEvent()`, which Electron routes through
+ * the same keyboard handling - focused window, page handlers and all - that
+ * a real key press takes, rather than calling `click()` on the item.
+ *
+ * Before pressing, the accelerator is looked up in the application menu, and
+ * the item it should trigger is returned so the test can check it did. Two
+ * spellings of the same keys match - `CmdOrCtrl+Shift+S` and `Shift+Ctrl+s`,
+ * say, off macOS. It fails when no item, or more than one, has the
+ * accelerator, since then the press would do nothing, or something the test
+ * can't predict. An item that is disabled or hidden still matches; check
+ * `enabled` on the result if that matters.
+ *
+ * Only accelerators set on the items count: the default ones Electron gives
+ * role items - `CmdOrCtrl+C` for `copy`, say - are not in the menu to match.
+ *
+ * @example
+ * ```ts
+ * const item = await pressMenuAccelerator(app, 'CmdOrCtrl+Shift+S', {
+ *   window: page,
+ * })
+ * expect(item.id).toBe('save-as')
+ * ```
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param accelerator - The keys, spelled as in a menu template.
+ * @param options - Optional. The window to press them in.
+ * @returns A promise that resolves with the menu item the keys should trigger, once they have been sent.
+ * @throws {Error} if no item, or more than one, has the accelerator
+ */
+export async function pressMenuAccelerator(
+  app: ElectronApplication,
+  accelerator: string,
+  options: PressMenuAcceleratorOptions = {},
+): Promise<MenuItemPartial> {
+  const platform = await retry(() => app.evaluate(() => process.platform))
+  const wanted = normalizeAccelerator(accelerator, platform)
+  const matches = itemsWithAccelerators(await getApplicationMenu(app)).filter(
+    ({ item }) => {
+      try {
+        return (
+          normalizeAccelerator(item.accelerator as string, platform) === wanted
+        )
+      } catch {
+        // an accelerator Electron can't parse never triggers anything
+        return false
+      }
+    },
+  )
+  if (matches.length !== 1) {
+    const paths = matches.map(({ path }) => `  ${path.join(' > ')}`)
+    throw explainError(
+      new Error(
+        matches.length
+          ? `pressMenuAccelerator: "${accelerator}" is ambiguous - ${matches.length} menu items have it:\n${paths.join('\n')}`
+          : `pressMenuAccelerator: no menu item has the accelerator "${accelerator}"`,
+      ),
+      errorHelp.menuAccelerator,
+    )
+  }
+
+  let windowId: number | undefined
+  if (typeof options.window === 'number') {
+    windowId = options.window
+  } else if (options.window) {
+    const browserWindow = await retry(() =>
+      app.browserWindow(options.window as Page),
+    )
+    windowId = await retry(() => browserWindow.evaluate((win) => win.id))
+  }
+  const modifiers = wanted.split('+')
+  // sendInputEvent() reads key names case-insensitively, as accelerators do
+  const key = modifiers.pop()
+  await retry(
+    () =>
+      app.evaluate(
+        ({ BrowserWindow }, { windowId, keyCode, modifiers }) => {
+          const win =
+            windowId === undefined
+              ? (BrowserWindow.getFocusedWindow() ??
+                BrowserWindow.getAllWindows()[0])
+              : BrowserWindow.fromId(windowId)
+          if (!win) {
+            throw new Error(
+              windowId === undefined
+                ? 'No window to press the accelerator in'
+                : `No window with id ${windowId}`,
+            )
+          }
+          win.focus()
+          const event = { keyCode, modifiers } as Pick<
+            Electron.KeyboardInputEvent,
+            'keyCode' | 'modifiers'
+          >
+          win.webContents.sendInputEvent({ type: 'keyDown', ...event })
+          win.webContents.sendInputEvent({ type: 'keyUp', ...event })
+        },
+        {
+          windowId,
+          keyCode: key,
+          modifiers: modifiers.map((modifier) => inputModifiers[modifier]),
+        },
+      ),
+    // a key press is not idempotent - same policy as clickMenuItemById()
+    { disable: true },
+  )
+  return matches[0].item
+}
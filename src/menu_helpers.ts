@@ -1,6 +1,11 @@
 import type { ElectronApplication } from 'playwright-core'
 import { errorHelp, explainError } from './error_help'
 import { electronWaitForFunction } from './general_helpers'
+import {
+  MainMenuSourceState,
+  MenuSourceOptions,
+  resolveMenuSource,
+} from './menu_sources'
 import { RetryOptions, errToString, retry } from './utilities'
 
 /**
@@ -19,6 +24,9 @@ function explainMenuError(err: unknown): never {
   if (errString.includes('No application menu found')) {
     throw explainError(err, errorHelp.noApplicationMenu, errString)
   }
+  if (errString.includes('Menu source not found')) {
+    throw explainError(err, errorHelp.menuSource, errString)
+  }
   if (errString.includes('has no attribute')) {
     throw explainError(err, errorHelp.menuItemAttribute, errString)
   }
@@ -34,7 +42,9 @@ function explainMenuError(err: unknown): never {
 /**
  * Execute the `.click()` method on the element with the given id.
  * **NOTE:** All menu testing functions will only work with items in the
- * [application menu](https://www.electronjs.org/docs/latest/api/menu#menusetapplicationmenumenu).
+ * [application menu](https://www.electronjs.org/docs/latest/api/menu#menusetapplicationmenumenu) -
+ * unless, like this one, they take a `source` option to click in a window,
+ * tray or dock menu instead. See `MenuSource`.
  *
  * A click is not idempotent, so this call is not retried by default (`disable: true`). If the
  * click tears down the execution context - by quitting the app or closing the window, for
@@ -45,29 +55,40 @@ function explainMenuError(err: unknown): never {
  *
  * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
  * @param id {string} - the id of the MenuItem to click
+ * @param options {Partial<RetryOptions> & MenuSourceOptions} optional - `source`: the menu to click in; defaults to the application menu
  * @returns {Promise<void>}
  * @fulfil {void} resolves with the result of the `click()` method - probably `undefined`
  */
-export function clickMenuItemById(
+export async function clickMenuItemById(
   electronApp: ElectronApplication,
   id: string,
-  options: Partial<RetryOptions> = {},
+  options: Partial<RetryOptions> & MenuSourceOptions = {},
 ): Promise<unknown> {
+  const { source, ...retryOptions } = options
+  const mainSource = await resolveMenuSource(electronApp, source)
   return retry(
     () =>
-      electronApp.evaluate(({ Menu }, menuId) => {
-        const menu = Menu.getApplicationMenu()
-        if (!menu) {
-          throw new Error('No application menu found')
-        }
-        const menuItem = menu.getMenuItemById(menuId)
-        if (menuItem) {
-          return menuItem.click()
-        } else {
-          throw new Error(`Menu item with id ${menuId} not found`)
-        }
-      }, id),
-    { disable: true, ...options },
+      electronApp.evaluate(
+        ({ Menu }, { menuId, source }) => {
+          const menu: Electron.Menu | null = source
+            ? (
+                (globalThis as any).__electronPlaywrightHelpers
+                  .menuSources as MainMenuSourceState
+              ).menuFor(source)
+            : Menu.getApplicationMenu()
+          if (!menu) {
+            throw new Error('No application menu found')
+          }
+          const menuItem = menu.getMenuItemById(menuId)
+          if (menuItem) {
+            return menuItem.click()
+          } else {
+            throw new Error(`Menu item with id ${menuId} not found`)
+          }
+        },
+        { menuId: id, source: mainSource },
+      ),
+    { disable: true, ...retryOptions },
   ).catch(explainMenuError)
 }
 
@@ -76,8 +97,12 @@ export function clickMenuItemById(
  * useful for menu items that don't have an id. HOWEVER, this is not as fast
  * or reliable as using `clickMenuItemById()` if the menu item has an id.
  *
- *  **NOTE:** All menu testing functions will only work with items in the
+ *  **NOTE:** This function only works with items in the
  * [application menu](https://www.electronjs.org/docs/latest/api/menu#menusetapplicationmenumenu).
+ * `getApplicationMenu()`, `getMenuItemById()`, `clickMenuItemById()` and
+ * `waitForMenuItem()` take a `source` option to use a window, tray or dock
+ * menu instead (see `MenuSource`); the other menu helpers, this one
+ * included, always read the application menu.
  *
  * As with `clickMenuItemById()`, the click itself is never retried. See that function
  * for how errors thrown by the click are handled.
@@ -113,7 +138,16 @@ export async function clickMenuItem<P extends keyof MenuItemPartial>(
       errorHelp.menuItemNoCommandId,
     )
   }
-  return await retry(
+  return await clickByCommandId(electronApp, menuItem.commandId, options)
+}
+
+/** click the item the main process knows by `commandId` - never retried */
+function clickByCommandId(
+  electronApp: ElectronApplication,
+  commandId: number,
+  options: Partial<RetryOptions>,
+): Promise<unknown> {
+  return retry(
     () =>
       electronApp.evaluate(async ({ Menu }, commandId) => {
         const menu = Menu.getApplicationMenu()
@@ -144,7 +178,7 @@ export async function clickMenuItem<P extends keyof MenuItemPartial>(
           throw new Error(`Menu item has no click method`)
         }
         await mI.click()
-      }, menuItem.commandId),
+      }, commandId),
     // a click is not idempotent - same policy as clickMenuItemById()
     { disable: true, ...options },
   )
@@ -257,6 +291,98 @@ export type MenuItemPartial = {
   serializationErrors?: Record<string, string>
 }
 
+/**
+ * Copy a MenuItem - and its submenu - into serializable values, for the trip
+ * out of the main process. It runs in there, so `evaluate()` callbacks are
+ * passed its source and rebuild it with `new Function()`: the one copy of it
+ * serves every helper that reads a menu.
+ *
+ * @ignore
+ */
+export function cleanMenuItem(
+  menuItem: Electron.MenuItem,
+  visited = new WeakSet(),
+): MenuItemPartial {
+  // Check for circular references
+  if (visited.has(menuItem)) {
+    return { id: menuItem.id, label: '[Circular Reference]' }
+  }
+  visited.add(menuItem)
+
+  const returnValue = {} as Record<string, SerializableValue>
+  const serializationErrors: Record<string, string> = {}
+
+  Object.entries(menuItem).forEach(([k, v]) => {
+    const key = k as keyof Electron.MenuItem
+    const value = v as Electron.MenuItem[keyof Electron.MenuItem]
+    try {
+      if (value === null || value === undefined) {
+        returnValue[key] = value
+      } else if (
+        typeof value === 'string' ||
+        typeof value === 'number' ||
+        typeof value === 'boolean'
+      ) {
+        returnValue[key] = value
+      } else if (value instanceof Date) {
+        // Convert dates to ISO strings for serialization
+        returnValue[key] = value.toISOString()
+      } else if (
+        value &&
+        typeof value === 'object' &&
+        value.constructor &&
+        value.constructor.name === 'NativeImage'
+      ) {
+        // Handle nativeImage objects by converting to data URL
+        try {
+          returnValue[key] = {
+            type: 'NativeImage',
+            dataURL: (value as Electron.NativeImage).toDataURL(),
+            size: (value as Electron.NativeImage).getSize(),
+            isEmpty: (value as Electron.NativeImage).isEmpty(),
+          }
+        } catch (imageError) {
+          returnValue[key] = {
+            type: 'NativeImage',
+            error: `Failed to serialize image: ${
+              imageError instanceof Error
+                ? imageError.message
+                : String(imageError)
+            }`,
+          }
+        }
+      } else if (
+        (Array.isArray(value) && key !== 'submenu') ||
+        typeof value === 'object'
+      ) {
+        returnValue[key] = structuredClone(value)
+      }
+      // Skip functions and other non-serializable types
+    } catch (error) {
+      // Skip properties that can't be accessed or serialized, but
+      // record why. `menu` (parent back-reference) and `submenu`
+      // (rebuilt below) are never cloneable, so they're not noise
+      // worth reporting - anything else is a real dropped property.
+      if (key !== 'menu' && key !== 'submenu') {
+        serializationErrors[key] =
+          error instanceof Error ? error.message : String(error)
+      }
+    }
+  })
+
+  if (Object.keys(serializationErrors).length > 0) {
+    returnValue['serializationErrors'] = serializationErrors
+  }
+
+  if (menuItem.type === 'submenu' && menuItem.submenu) {
+    returnValue['submenu'] = menuItem.submenu.items.map((item) =>
+      cleanMenuItem(item, visited),
+    )
+  }
+
+  return returnValue as MenuItemPartial
+}
+
 /**
  * Get information about the MenuItem with the given id. Returns serializable values including
  * primitives, objects, arrays, and other non-recursive data structures.
@@ -265,118 +391,47 @@ export type MenuItemPartial = {
  *
  * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
  * @param menuId {string} - the id of the MenuItem to retrieve
+ * @param options {Partial<RetryOptions> & MenuSourceOptions} optional - `source`: the menu to look in; defaults to the application menu
  * @returns {Promise<MenuItemPartial>}
  * @fulfil {MenuItemPartial} the MenuItem with the given id
  */
-export function getMenuItemById(
+export async function getMenuItemById(
   electronApp: ElectronApplication,
   menuId: string,
-  options: Partial<RetryOptions> = {},
+  options: Partial<RetryOptions> & MenuSourceOptions = {},
 ): Promise<MenuItemPartial> {
+  const { source, ...retryOptions } = options
+  const mainSource = await resolveMenuSource(electronApp, source)
   return retry(
     () =>
       electronApp.evaluate(
-        ({ Menu }, { menuId }) => {
-          // we need this function to be in scope/context for the electronApp.evaluate
-          function cleanMenuItem(
-            menuItem: Electron.MenuItem,
-            visited = new WeakSet(),
-          ): MenuItemPartial {
-            // Check for circular references
-            if (visited.has(menuItem)) {
-              return { id: menuItem.id, label: '[Circular Reference]' }
-            }
-            visited.add(menuItem)
-
-            const returnValue = {} as Record<string, SerializableValue>
-            const serializationErrors: Record<string, string> = {}
-
-            Object.entries(menuItem).forEach(([k, v]) => {
-              const key = k as keyof Electron.MenuItem
-              const value = v as Electron.MenuItem[keyof Electron.MenuItem]
-              try {
-                if (value === null || value === undefined) {
-                  returnValue[key] = value
-                } else if (
-                  typeof value === 'string' ||
-                  typeof value === 'number' ||
-                  typeof value === 'boolean'
-                ) {
-                  returnValue[key] = value
-                } else if (value instanceof Date) {
-                  // Convert dates to ISO strings for serialization
-                  returnValue[key] = value.toISOString()
-                } else if (
-                  value &&
-                  typeof value === 'object' &&
-                  value.constructor &&
-                  value.constructor.name === 'NativeImage'
-                ) {
-                  // Handle nativeImage objects by converting to data URL
-                  try {
-                    returnValue[key] = {
-                      type: 'NativeImage',
-                      dataURL: (value as Electron.NativeImage).toDataURL(),
-                      size: (value as Electron.NativeImage).getSize(),
-                      isEmpty: (value as Electron.NativeImage).isEmpty(),
-                    }
-                  } catch (imageError) {
-                    returnValue[key] = {
-                      type: 'NativeImage',
-                      error: `Failed to serialize image: ${
-                        imageError instanceof Error
-                          ? imageError.message
-                          : String(imageError)
-                      }`,
-                    }
-                  }
-                } else if (
-                  (Array.isArray(value) && key !== 'submenu') ||
-                  typeof value === 'object'
-                ) {
-                  returnValue[key] = structuredClone(value)
-                }
-                // Skip functions and other non-serializable types
-              } catch (error) {
-                // Skip properties that can't be accessed or serialized, but
-                // record why. `menu` (parent back-reference) and `submenu`
-                // (rebuilt below) are never cloneable, so they're not noise
-                // worth reporting - anything else is a real dropped property.
-                if (key !== 'menu' && key !== 'submenu') {
-                  serializationErrors[key] =
-                    error instanceof Error ? error.message : String(error)
-                }
-              }
-            })
-
-            if (Object.keys(serializationErrors).length > 0) {
-              returnValue['serializationErrors'] = serializationErrors
-            }
-
-            if (menuItem.type === 'submenu' && menuItem.submenu) {
-              returnValue['submenu'] = menuItem.submenu.items.map((item) =>
-                cleanMenuItem(item, visited),
-              )
-            }
-
-            return returnValue as MenuItemPartial
-          }
-
-          const menu = Menu.getApplicationMenu()
+        ({ Menu }, { menuId, source, cleanMenuItemSource }) => {
+          const cleanMenuItem = new Function(
+            `return (${cleanMenuItemSource})`,
+          )() as (menuItem: Electron.MenuItem) => MenuItemPartial
+          const menu: Electron.Menu | null = source
+            ? (
+                (globalThis as any).__electronPlaywrightHelpers
+                  .menuSources as MainMenuSourceState
+              ).menuFor(source)
+            : Menu.getApplicationMenu()
           if (!menu) {
             throw new Error('No application menu found')
           }
           const menuItem = menu.getMenuItemById(menuId)
           if (menuItem) {
-            const visited = new WeakSet<Electron.MenuItem>()
-            return cleanMenuItem(menuItem, visited)
+            return cleanMenuItem(menuItem)
           } else {
             throw new Error(`Menu item with id ${menuId} not found`)
           }
         },
-        { menuId },
+        {
+          menuId,
+          source: mainSource,
+          cleanMenuItemSource: cleanMenuItem.toString(),
+        },
       ),
-    options,
+    retryOptions,
   ).catch(explainMenuError)
 }
 
@@ -387,140 +442,123 @@ export function getMenuItemById(
  * [construction template structure](https://www.electronjs.org/docs/latest/api/menu#examples)
  * in Electron.
  *
+ * With a `source` option, reads a window's menu, a tray's context menu or the
+ * dock menu instead. See `MenuSource`.
+ *
  * @category Menu
  *
  * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
+ * @param options {Partial<RetryOptions> & MenuSourceOptions} optional - `source`: the menu to read; defaults to the application menu
  * @returns {Promise<MenuItemPartial[]>}
  * @fulfil {MenuItemPartial[]} an array of MenuItem-like objects
  */
-export function getApplicationMenu(
+export async function getApplicationMenu(
   electronApp: ElectronApplication,
-  options: Partial<RetryOptions> = {},
+  options: Partial<RetryOptions> & MenuSourceOptions = {},
 ): Promise<MenuItemPartial[]> {
+  const { source, ...retryOptions } = options
+  const mainSource = await resolveMenuSource(electronApp, source)
   return retry(
     () =>
-      electronApp.evaluate(({ Menu }) => {
-        // we need this function to be in scope/context for the electronApp.evaluate
-        function cleanMenuItem(
-          menuItem: Electron.MenuItem,
-          visited = new WeakSet(),
-        ): MenuItemPartial {
-          // Check for circular references
-          if (visited.has(menuItem)) {
-            return { id: menuItem.id, label: '[Circular Reference]' }
-          }
-          visited.add(menuItem)
-
-          const returnValue = {} as Record<string, SerializableValue>
-          const serializationErrors: Record<string, string> = {}
-
-          Object.entries(menuItem).forEach(([k, v]) => {
-            const key = k as keyof Electron.MenuItem
-            const value = v as Electron.MenuItem[keyof Electron.MenuItem]
-            try {
-              if (value === null || value === undefined) {
-                returnValue[key] = value
-              } else if (
-                typeof value === 'string' ||
-                typeof value === 'number' ||
-                typeof value === 'boolean'
-              ) {
-                returnValue[key] = value
-              } else if (value instanceof Date) {
-                // Convert dates to ISO strings for serialization
-                returnValue[key] = value.toISOString()
-              } else if (
-                value &&
-                typeof value === 'object' &&
-                value.constructor &&
-                value.constructor.name === 'NativeImage'
-              ) {
-                // Handle nativeImage objects by converting to data URL
-                try {
-                  returnValue[key] = {
-                    type: 'NativeImage',
-                    dataURL: (value as Electron.NativeImage).toDataURL(),
-                    size: (value as Electron.NativeImage).getSize(),
-                    isEmpty: (value as Electron.NativeImage).isEmpty(),
-                  }
-                } catch (imageError) {
-                  returnValue[key] = {
-                    type: 'NativeImage',
-                    error: `Failed to serialize image: ${
-                      imageError instanceof Error
-                        ? imageError.message
-                        : String(imageError)
-                    }`,
-                  }
-                }
-              } else if (
-                (Array.isArray(value) && key !== 'submenu') ||
-                typeof value === 'object'
-              ) {
-                returnValue[key] = structuredClone(value)
-              }
-              // Skip functions and other non-serializable types
-            } catch (error) {
-              // Skip properties that can't be accessed or serialized, but
-              // record why. `menu` (parent back-reference) and `submenu`
-              // (rebuilt below) are never cloneable, so they're not noise
-              // worth reporting - anything else is a real dropped property.
-              if (key !== 'menu' && key !== 'submenu') {
-                serializationErrors[key] =
-                  error instanceof Error ? error.message : String(error)
-              }
-            }
-          })
-
-          if (Object.keys(serializationErrors).length > 0) {
-            returnValue['serializationErrors'] = serializationErrors
-          }
-
-          if (menuItem.type === 'submenu' && menuItem.submenu) {
-            returnValue['submenu'] = menuItem.submenu.items.map((item) =>
-              cleanMenuItem(item, visited),
-            )
+      electronApp.evaluate(
+        ({ Menu }, { source, cleanMenuItemSource }) => {
+          const cleanMenuItem = new Function(
+            `return (${cleanMenuItemSource})`,
+          )() as (menuItem: Electron.MenuItem) => MenuItemPartial
+          const menu: Electron.Menu | null = source
+            ? (
+                (globalThis as any).__electronPlaywrightHelpers
+                  .menuSources as MainMenuSourceState
+              ).menuFor(source)
+            : Menu.getApplicationMenu()
+          if (!menu) {
+            throw new Error('No application menu found')
           }
+          const cleanItems = menu.items.map((item) => cleanMenuItem(item))
 
-          return returnValue as MenuItemPartial
-        }
-
-        const menu = Menu.getApplicationMenu()
-        if (!menu) {
-          throw new Error('No application menu found')
-        }
-        const cleanItems = menu.items.map((item) => cleanMenuItem(item))
-
-        return cleanItems
-      }),
-    options,
+          return cleanItems
+        },
+        { source: mainSource, cleanMenuItemSource: cleanMenuItem.toString() },
+      ),
+    retryOptions,
   ).catch(explainMenuError)
 }
 
+/**
+ * Options for `findMenuItem()`.
+ *
+ * @category Menu
+ */
+export type FindMenuItemOptions = {
+  /**
+   * - `'first'` (the default): the first match, searching depth-first
+   * - `'all'`: every match, in menu order
+   * - `'unique'`: the one match - it is an error for several items to match
+   */
+  match?: 'first' | 'all' | 'unique'
+}
+
 /**
  * Find a MenuItem by any of its properties
  *
+ * To match on several properties at once, a RegExp or a predicate, and get
+ * each match with its label path, use `queryMenuItems()`.
+ *
  * @category Menu
  *
  * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
  * @param property {string} - the property to search for
  * @param value {string} - the value to search for
  * @param menuItems {MenuItemPartial | MenuItemPartial[]} optional - single MenuItem or array - if not provided, will be retrieved from the application menu
+ * @param options {FindMenuItemOptions} optional - `match`: whether to return the first match, all of them, or the only one
  * @returns {Promise<MenuItemPartial>}
- * @fulfil {MenuItemPartial} the first MenuItem with the given property and value
+ * @fulfil {MenuItemPartial} the first MenuItem with the given property and value - or, with `match: 'all'`, every one
  */
 export async function findMenuItem<P extends keyof MenuItemPartial>(
   electronApp: ElectronApplication,
   property: P,
   value: MenuItemPartial[P],
   menuItems?: MenuItemPartial | MenuItemPartial[],
-): Promise<MenuItemPartial | undefined> {
+  options?: FindMenuItemOptions & { match?: 'first' | 'unique' },
+): Promise<MenuItemPartial | undefined>
+export async function findMenuItem<P extends keyof MenuItemPartial>(
+  electronApp: ElectronApplication,
+  property: P,
+  value: MenuItemPartial[P],
+  menuItems: MenuItemPartial | MenuItemPartial[] | undefined,
+  options: FindMenuItemOptions & { match: 'all' },
+): Promise<MenuItemPartial[]>
+export async function findMenuItem<P extends keyof MenuItemPartial>(
+  electronApp: ElectronApplication,
+  property: P,
+  value: MenuItemPartial[P],
+  menuItems?: MenuItemPartial | MenuItemPartial[],
+  options: FindMenuItemOptions = {},
+): Promise<MenuItemPartial | MenuItemPartial[] | undefined> {
   if (property === 'role') {
     // set the value to lowercase
 
     // @ts-ignore
     value = value.toLowerCase()
   }
+  if (options.match === 'all' || options.match === 'unique') {
+    const found: MenuItemPartial[] = []
+    const collect = (items: MenuItemPartial[]) => {
+      for (const item of items) {
+        if (item[property] === value) found.push(item)
+        if (item.submenu) collect(item.submenu)
+      }
+    }
+    const menu = menuItems ?? (await getApplicationMenu(electronApp))
+    collect(Array.isArray(menu) ? menu : [menu])
+    if (options.match === 'all') return found
+    if (found.length > 1) {
+      throw new Error(
+        `findMenuItem: ${found.length} menu items have ${property} = ${value}, but match: 'unique' needs at most one. queryMenuItems() lists each with its path.`,
+      )
+    }
+    return found[0]
+  }
   if (!menuItems) {
     const menu = await getApplicationMenu(electronApp)
     return findMenuItem(electronApp, property, value, menu)
@@ -541,6 +579,171 @@ export async function findMenuItem<P extends keyof MenuItemPartial>(
   }
 }
 
+/**
+ * One step of a menu path: a label, or a RegExp tested against the label.
+ * Either way the label is compared without its `&` mnemonic markers, so
+ * `'File'` matches an item labelled `'&File'`.
+ *
+ * @category Menu
+ */
+export type MenuPathSegment = string | RegExp
+
+/**
+ * A label as it is shown: `&` mnemonic markers dropped, `&&` kept as `&`.
+ *
+ * @ignore
+ */
+export function plainLabel(label: string | undefined): string {
+  return (label ?? '').replace(/&(&?)/g, '$1').trim()
+}
+
+function segmentMatches(
+  segment: MenuPathSegment,
+  item: MenuItemPartial,
+): boolean {
+  if (item.type === 'separator') return false
+  const label = plainLabel(item.label)
+  return typeof segment === 'string'
+    ? plainLabel(segment) === label
+    : label.search(segment) !== -1
+}
+
+function describePath(path: (MenuPathSegment | undefined)[]): string {
+  return path.map((segment) => String(segment)).join(' > ')
+}
+
+/** how many single-character edits turn `a` into `b` */
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i]
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        row[j] + 1,
+        next[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    row = next
+  }
+  return row[b.length]
+}
+
+/**
+ * Walk `path` down `menu`. When a segment matches nothing, the error names the
+ * part of the path that did match, and the sibling label closest to the one
+ * asked for.
+ *
+ * @ignore
+ */
+export function menuItemAtPath(
+  menu: MenuItemPartial[],
+  path: MenuPathSegment[],
+): MenuItemPartial {
+  const found: string[] = []
+  let items = menu
+  let item: MenuItemPartial | undefined
+  for (const [index, segment] of path.entries()) {
+    if (index > 0 && !item?.submenu) {
+      throw explainError(
+        new Error(
+          `Menu item path "${describePath(path)}" not found: "${describePath(found)}" has no submenu`,
+        ),
+        errorHelp.menuItemPath,
+      )
+    }
+    if (index > 0) items = item?.submenu ?? []
+    item = items.find((candidate) => segmentMatches(segment, candidate))
+    if (!item) {
+      const parent = found.length ? `"${describePath(found)}"` : 'the menu'
+      const wanted = plainLabel(
+        typeof segment === 'string' ? segment : segment.source,
+      )
+      const closest = items
+        .filter((candidate) => candidate.type !== 'separator')
+        .map((candidate) => plainLabel(candidate.label))
+        .sort((a, b) => editDistance(wanted, a) - editDistance(wanted, b))[0]
+      const hint =
+        closest === undefined
+          ? ''
+          : `. The closest existing path is "${describePath([...found, closest])}"`
+      throw explainError(
+        new Error(
+          `Menu item path "${describePath(path)}" not found: ${parent} has no item ${typeof segment === 'string' ? `"${segment}"` : segment}${hint}`,
+        ),
+        errorHelp.menuItemPath,
+      )
+    }
+    found.push(plainLabel(item.label))
+  }
+  if (!item) {
+    throw new Error('A menu item path needs at least one segment')
+  }
+  return item
+}
+
+/**
+ * Get the menu item at the end of a path of labels, such as
+ * `['File', 'Export', 'PDF…']`. Unlike `findMenuItem()`, which takes the first
+ * match anywhere in the menu, each segment is only looked for among the items
+ * of the one before - so an item labelled "Close" in the File menu is never
+ * confused with one in the Window menu.
+ *
+ * Labels are compared exactly, once their `&` mnemonic markers are dropped. A
+ * RegExp segment matches any label it finds a match in.
+ *
+ * @category Menu
+ *
+ * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
+ * @param path {MenuPathSegment[]} - the labels of the item and its parent menus, top level first
+ * @param options {Partial<RetryOptions>} optional - options for retrying the read of the menu
+ * @returns {Promise<MenuItemPartial>}
+ * @fulfil {MenuItemPartial} the MenuItem at the end of the path
+ */
+export async function getMenuItemByPath(
+  electronApp: ElectronApplication,
+  path: MenuPathSegment[],
+  options: Partial<RetryOptions> = {},
+): Promise<MenuItemPartial> {
+  const menu = await getApplicationMenu(electronApp, options)
+  return menuItemAtPath(menu, path)
+}
+
+/**
+ * Click the menu item at the end of a path of labels. See
+ * `getMenuItemByPath()` for how the path is matched.
+ *
+ * As with `clickMenuItemById()`, the click itself is never retried. See that function
+ * for how errors thrown by the click are handled.
+ *
+ * @example
+ * ```ts
+ * await clickMenuItemByPath(electronApp, ['File', 'Export', /^PDF/])
+ * ```
+ *
+ * @category Menu
+ *
+ * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
+ * @param path {MenuPathSegment[]} - the labels of the item and its parent menus, top level first
+ * @param options {Partial<RetryOptions>} optional - options for retrying the read of the menu, and the click - which is never retried unless `disable: false`
+ * @returns {Promise<void>}
+ * @fulfil {void} resolves with the result of the `click()` method - probably `undefined`
+ */
+export async function clickMenuItemByPath(
+  electronApp: ElectronApplication,
+  path: MenuPathSegment[],
+  options: Partial<RetryOptions> = {},
+): Promise<unknown> {
+  const menuItem = await getMenuItemByPath(electronApp, path, options)
+  if (menuItem.commandId === undefined) {
+    throw explainError(
+      new Error(`Menu item path "${describePath(path)}" has no commandId`),
+      errorHelp.menuItemNoCommandId,
+    )
+  }
+  return await clickByCommandId(electronApp, menuItem.commandId, options)
+}
+
 /**
  * Wait for a MenuItem to exist
  *
@@ -548,23 +751,31 @@ export async function findMenuItem<P extends keyof MenuItemPartial>(
  *
  * @param electronApp {ElectronApplication} - the Electron application object (from Playwright)
  * @param id {string} - the id of the MenuItem to wait for
+ * @param options {MenuSourceOptions} optional - `source`: the menu to look in; defaults to the application menu
  * @returns {Promise<void>}
  * @fulfil {void} resolves when the MenuItem is found
  */
 export async function waitForMenuItem(
   electronApp: ElectronApplication,
   id: string,
+  options: MenuSourceOptions = {},
 ): Promise<void> {
+  const source = await resolveMenuSource(electronApp, options.source)
   await electronWaitForFunction(
     electronApp,
-    ({ Menu }, id) => {
-      const menu = Menu.getApplicationMenu()
+    ({ Menu }, { id, source }) => {
+      const menu: Electron.Menu | null = source
+        ? (
+            (globalThis as any).__electronPlaywrightHelpers
+              .menuSources as MainMenuSourceState
+          ).menuFor(source)
+        : Menu.getApplicationMenu()
       if (!menu) {
         throw new Error('No application menu found')
       }
-      return !!menu.getMenuItemById(id as string)
+      return !!menu.getMenuItemById(id)
     },
-    id,
+    { id, source },
   ).catch(explainMenuError)
 }
 
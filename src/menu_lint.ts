@@ -0,0 +1,244 @@
+import type { ElectronApplication } from 'playwright-core'
+import { normalizeAccelerator } from './menu_accelerators'
+import { MenuItemPartial, getApplicationMenu } from './menu_helpers'
+import { itemLabel } from './menu_snapshot'
+import { retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The problems `lintApplicationMenu()` looks for:
+ * - `'duplicate-accelerator'`: more than one item has the same keys, so only
+ *   one of them can ever respond
+ * - `'duplicate-id'`: more than one item has the same id, so
+ *   `getMenuItemById()` finds only the first
+ * - `'no-id-or-role'`: a clickable item has neither, so tests can only find
+ *   it by its label
+ * - `'hidden-but-enabled'`: an item isn't visible, but its accelerator still
+ *   works on some platforms
+ * - `'empty-submenu'`: a submenu has no visible items
+ * - `'leading-separator'`, `'trailing-separator'`: the first or last visible
+ *   item of a menu is a separator
+ * - `'missing-ellipsis'`: an item that opens a dialog doesn't end its label
+ *   with an ellipsis
+ *
+ * @category Menu
+ */
+export type MenuLintRule =
+  | 'duplicate-accelerator'
+  | 'duplicate-id'
+  | 'no-id-or-role'
+  | 'hidden-but-enabled'
+  | 'empty-submenu'
+  | 'leading-separator'
+  | 'trailing-separator'
+  | 'missing-ellipsis'
+
+/**
+ * One problem `lintApplicationMenu()` found.
+ *
+ * @category Menu
+ */
+export type MenuLintFinding = {
+  rule: MenuLintRule
+  /** The labels leading to the item, the item's own last. */
+  path: string[]
+  /** For a duplicate, the other items that have the same accelerator or id. */
+  alsoAt?: string[][]
+  /** What is wrong, in a sentence. */
+  message: string
+}
+
+/**
+ * Options for `lintApplicationMenu()`.
+ *
+ * @category Menu
+ */
+export type MenuLintOptions = {
+  /** Turn rules off with `false`. Every rule is on by default. */
+  rules?: Partial<Record<MenuLintRule, boolean>>
+  /**
+   * Which items open a dialog, and so should have an ellipsis. By default, a
+   * label that starts with a word such as "Open", "Save As", "Export",
+   * "Print" or "Preferences". Items with a role are never checked - Electron
+   * labels those.
+   */
+  opensDialog?: (item: MenuItemPartial) => boolean
+  /**
+   * The platform to compare accelerators for, when linting a menu passed in.
+   * Defaults to the app's when linting the application menu, and to this
+   * process's otherwise.
+   */
+  platform?: NodeJS.Platform
+}
+
+const dialogLabel =
+  /^(open|save as|export|import|print|preferences|settings|options|find|replace|go to|rename|choose|browse)\b/i
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Look for the problems menus accumulate - duplicate accelerators and ids,
+ * items tests can't find reliably, separators and submenus left over from
+ * removed items, and the like - and list them. See `MenuLintRule` for every
+ * check. An empty list means a clean menu:
+ *
+ * @example
+ * ```ts
+ * expect(await lintApplicationMenu(app)).toEqual([])
+ * ```
+ *
+ * The checks run on the menu as `getApplicationMenu()` returns it, so
+ * accelerators Electron gives role items by default are not compared.
+ *
+ * @category Menu
+ *
+ * @param menu - The Playwright ElectronApplication instance, to lint its
+ *   application menu, or a menu already captured - with
+ *   `getApplicationMenu()` or `getContextMenus()`, say.
+ * @param options - Optional. Rules to turn off, and which items open dialogs.
+ * @returns A promise that resolves with the findings: item by item in menu order, then the duplicates.
+ */
+export async function lintApplicationMenu(
+  menu: ElectronApplication | MenuItemPartial[],
+  options: MenuLintOptions = {},
+): Promise<MenuLintFinding[]> {
+  let items: MenuItemPartial[]
+  let platform = options.platform ?? process.platform
+  if (Array.isArray(menu)) {
+    items = menu
+  } else {
+    items = await getApplicationMenu(menu)
+    platform =
+      options.platform ??
+      (await retry(() => menu.evaluate(() => process.platform)))
+  }
+  const enabled = (rule: MenuLintRule) => options.rules?.[rule] !== false
+  const opensDialog =
+    options.opensDialog ??
+    ((item: MenuItemPartial) => dialogLabel.test(item.label ?? ''))
+
+  const findings: MenuLintFinding[] = []
+  const byAccelerator = new Map<string, string[][]>()
+  const byId = new Map<string, string[][]>()
+
+  const lint = (items: MenuItemPartial[], parent: string[]) => {
+    const visible = items.filter((item) => item.visible !== false)
+    if (enabled('leading-separator') && visible[0]?.type === 'separator') {
+      findings.push({
+        rule: 'leading-separator',
+        path: [...parent, '---'],
+        message: `${describe(parent)} starts with a separator`,
+      })
+    }
+    if (
+      enabled('trailing-separator') &&
+      visible.length > 1 &&
+      visible.at(-1)?.type === 'separator'
+    ) {
+      findings.push({
+        rule: 'trailing-separator',
+        path: [...parent, '---'],
+        message: `${describe(parent)} ends with a separator`,
+      })
+    }
+
+    for (const item of items) {
+      if (item.type === 'separator') continue
+      const path = [...parent, itemLabel(item)]
+      if (item.accelerator) {
+        let keys: string
+        try {
+          keys = normalizeAccelerator(item.accelerator, platform)
+        } catch {
+          // not for this linter to judge: Electron ignores it
+          keys = item.accelerator
+        }
+        byAccelerator.set(keys, [...(byAccelerator.get(keys) ?? []), path])
+      }
+      if (item.id) byId.set(item.id, [...(byId.get(item.id) ?? []), path])
+
+      if (
+        enabled('no-id-or-role') &&
+        item.type !== 'submenu' &&
+        !item.id &&
+        !item.role
+      ) {
+        findings.push({
+          rule: 'no-id-or-role',
+          path,
+          message: `${describe(path)} has neither an id nor a role`,
+        })
+      }
+      if (
+        enabled('hidden-but-enabled') &&
+        item.visible === false &&
+        item.enabled !== false
+      ) {
+        findings.push({
+          rule: 'hidden-but-enabled',
+          path,
+          message: `${describe(path)} is hidden, but still enabled`,
+        })
+      }
+      if (
+        enabled('missing-ellipsis') &&
+        !item.role &&
+        item.type !== 'submenu' &&
+        opensDialog(item) &&
+        !/(…|\.\.\.)$/.test(item.label ?? '')
+      ) {
+        findings.push({
+          rule: 'missing-ellipsis',
+          path,
+          message: `${describe(path)} opens a dialog, but its label has no ellipsis`,
+        })
+      }
+      if (item.type === 'submenu') {
+        const children: MenuItemPartial[] = item.submenu ?? []
+        if (
+          enabled('empty-submenu') &&
+          !children.some(
+            (child) => child.visible !== false && child.type !== 'separator',
+          )
+        ) {
+          findings.push({
+            rule: 'empty-submenu',
+            path,
+            message: `${describe(path)} has no visible items`,
+          })
+        }
+        lint(children, path)
+      }
+    }
+  }
+  lint(items, [])
+
+  const duplicates = (
+    rule: 'duplicate-accelerator' | 'duplicate-id',
+    byKey: Map<string, string[][]>,
+    what: string,
+  ) => {
+    if (!enabled(rule)) return
+    for (const [key, [path, ...alsoAt]] of byKey) {
+      if (alsoAt.length === 0) continue
+      findings.push({
+        rule,
+        path,
+        alsoAt,
+        message: `${what} "${key}" is shared by ${[path, ...alsoAt].map(describe).join(', ')}`,
+      })
+    }
+  }
+  duplicates('duplicate-accelerator', byAccelerator, 'Accelerator')
+  duplicates('duplicate-id', byId, 'Id')
+  return findings
+}
+
+function describe(path: string[]): string {
+  return path.length ? `"${path.join(' > ')}"` : 'the menu bar'
+}
@@ -0,0 +1,150 @@
+import type { ElectronApplication } from 'playwright-core'
+import { normalizeAccelerator } from './menu_accelerators'
+import { MenuItemPartial, getApplicationMenu, plainLabel } from './menu_helpers'
+import { itemLabel } from './menu_snapshot'
+import { retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What `queryMenuItems()` matches items on. An item matches when it matches
+ * every property given; leave them all out to match every item.
+ *
+ * @category Menu
+ */
+export type MenuItemQuery = {
+  /**
+   * The label, without its `&` mnemonic markers: the whole label, or a RegExp
+   * that finds a match in it.
+   */
+  label?: string | RegExp
+  /** The role, in any case - Electron lower-cases roles. */
+  role?: string
+  /**
+   * The accelerator, in any spelling of the same keys: `CmdOrCtrl+Shift+S`
+   * matches `Shift+Ctrl+s` off macOS.
+   */
+  accelerator?: string
+  type?: Electron.MenuItem['type']
+  enabled?: boolean
+  checked?: boolean
+  visible?: boolean
+  /** Any other test, given the item and its label path. */
+  predicate?: (item: MenuItemPartial, path: string[]) => boolean
+}
+
+/**
+ * One item found by `queryMenuItems()`.
+ *
+ * @category Menu
+ */
+export type MenuItemMatch = {
+  item: MenuItemPartial
+  /**
+   * The labels leading to the item, the item's own last, without their `&`
+   * mnemonic markers.
+   */
+  path: string[]
+}
+
+/**
+ * Options for `queryMenuItems()`.
+ *
+ * @category Menu
+ */
+export type QueryMenuItemsOptions = {
+  /**
+   * The platform to compare accelerators for, when querying a menu passed in -
+   * one captured from a macOS app while the tests run elsewhere, say. Defaults
+   * to the app's when querying the application menu, and to this process's
+   * otherwise.
+   */
+  platform?: NodeJS.Platform
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Find every menu item that matches a query, with the label path to each -
+ * in one read of the menu, however many properties the query combines.
+ *
+ * @example
+ * ```ts
+ * const closes = await queryMenuItems(app, { label: /^Close/, enabled: true })
+ * expect(closes.map(({ path }) => path.join(' > '))).toEqual([
+ *   'File > Close Tab',
+ *   'Window > Close Window',
+ * ])
+ * ```
+ *
+ * @category Menu
+ *
+ * @param menu - The Playwright ElectronApplication instance, to search its
+ *   application menu, or a menu already captured - with
+ *   `getApplicationMenu()` or `getContextMenus()`, say.
+ * @param query - What to match. See `MenuItemQuery`.
+ * @param options - Optional. The platform to compare accelerators for.
+ * @returns A promise that resolves with the matches, in menu order.
+ */
+export async function queryMenuItems(
+  menu: ElectronApplication | MenuItemPartial[],
+  query: MenuItemQuery,
+  options: QueryMenuItemsOptions = {},
+): Promise<MenuItemMatch[]> {
+  const items = Array.isArray(menu) ? menu : await getApplicationMenu(menu)
+  let accelerator: string | undefined
+  let platform: string = options.platform ?? process.platform
+  if (query.accelerator !== undefined) {
+    if (!Array.isArray(menu) && options.platform === undefined) {
+      platform = await retry(() => menu.evaluate(() => process.platform))
+    }
+    accelerator = normalizeAccelerator(query.accelerator, platform)
+  }
+
+  const matches = (item: MenuItemPartial, path: string[]) => {
+    const { label, role, type, enabled, checked, visible, predicate } = query
+    if (label !== undefined) {
+      const plain = plainLabel(item.label)
+      const found =
+        typeof label === 'string'
+          ? plainLabel(label) === plain
+          : plain.search(label) !== -1
+      if (!found) return false
+    }
+    if (role !== undefined && item.role?.toLowerCase() !== role.toLowerCase()) {
+      return false
+    }
+    if (accelerator !== undefined) {
+      if (!item.accelerator) return false
+      try {
+        if (normalizeAccelerator(item.accelerator, platform) !== accelerator) {
+          return false
+        }
+      } catch {
+        // an accelerator Electron can't parse matches nothing
+        return false
+      }
+    }
+    if (type !== undefined && item.type !== type) return false
+    if (enabled !== undefined && item.enabled !== enabled) return false
+    if (checked !== undefined && item.checked !== checked) return false
+    if (visible !== undefined && item.visible !== visible) return false
+    return !predicate || predicate(item, path)
+  }
+
+  const found: MenuItemMatch[] = []
+  const search = (items: MenuItemPartial[], parent: string[]) => {
+    for (const item of items) {
+      // the label as shown, which a getMenuItemByPath() path matches too
+      const path = [...parent, plainLabel(item.label) || itemLabel(item)]
+      if (matches(item, path)) found.push({ item, path })
+      if (item.submenu) search(item.submenu, path)
+    }
+  }
+  search(items, [])
+  return found
+}
@@ -0,0 +1,373 @@
+import type { ElectronApplication } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import { MenuItemPartial, getApplicationMenu } from './menu_helpers'
+import { RetryUntilTruthyOptions, retryUntilTruthy } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The MenuItem properties `serializeMenu()` can write out, and `diffMenus()`
+ * can compare, besides the label and the nesting, which are always there.
+ *
+ * @category Menu
+ */
+export type MenuSnapshotField =
+  | 'accelerator'
+  | 'enabled'
+  | 'checked'
+  | 'visible'
+  | 'role'
+  | 'id'
+  | 'type'
+  | 'sublabel'
+  | 'toolTip'
+
+/**
+ * Options for `serializeMenu()` and `diffMenus()`.
+ *
+ * @category Menu
+ */
+export type MenuSnapshotOptions = {
+  /**
+   * The properties to include, besides the label. Defaults to
+   * `['accelerator', 'enabled', 'checked', 'role']`. Volatile properties -
+   * `commandId` and icons - are never included.
+   */
+  fields?: MenuSnapshotField[]
+}
+
+/**
+ * A menu item that `diffMenus()` found in only one of the two menus.
+ *
+ * @category Menu
+ */
+export type MenuDiffEntry = {
+  /** The labels leading to the item, the item's own last. */
+  path: string[]
+  item: MenuItemPartial
+}
+
+/**
+ * A property of a menu item that differs between the two menus.
+ *
+ * @category Menu
+ */
+export type MenuItemChange = {
+  /** The labels leading to the item, the item's own last - as it is after. */
+  path: string[]
+  field: MenuSnapshotField | 'label'
+  before: unknown
+  after: unknown
+}
+
+/**
+ * The result of `diffMenus()`. The items of an added or removed submenu are
+ * not listed on their own.
+ *
+ * @category Menu
+ */
+export type MenuDiff = {
+  /** True when nothing was added, removed or changed. */
+  same: boolean
+  added: MenuDiffEntry[]
+  removed: MenuDiffEntry[]
+  changed: MenuItemChange[]
+}
+
+const defaultFields: MenuSnapshotField[] = [
+  'accelerator',
+  'enabled',
+  'checked',
+  'role',
+]
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Write the application menu out as an indented outline: one line per item,
+ * two spaces per level of nesting, `---` for separators. Each line is the
+ * item's label, then its other properties, so the result only changes when
+ * the menu does - which makes it a good fit for `toMatchSnapshot()`.
+ *
+ * @example
+ * ```text
+ * File
+ *   New Window  accelerator=CmdOrCtrl+N
+ *   Open File  accelerator=CmdOrCtrl+O  disabled
+ *   ---
+ *   [x] Word Wrap
+ *   Quit  role=quit
+ * ```
+ *
+ * A checkbox is written `[x]` or `[ ]`, and a radio item `(x)` or `( )`, when
+ * `checked` is one of the fields. Only the properties that differ from
+ * Electron's defaults are written: `disabled` rather than `enabled=true`, and
+ * `hidden` for an item that isn't `visible`.
+ *
+ * @example
+ * ```ts
+ * expect(await serializeMenu(app)).toMatchSnapshot()
+ * ```
+ *
+ * @category Menu
+ *
+ * @param menu - The Playwright ElectronApplication instance, to read its
+ *   application menu, or a menu already captured with `getApplicationMenu()`.
+ * @param options - Optional. The properties to include.
+ * @returns A promise that resolves with the outline.
+ */
+export async function serializeMenu(
+  menu: ElectronApplication | MenuItemPartial[],
+  options: MenuSnapshotOptions = {},
+): Promise<string> {
+  const items = Array.isArray(menu) ? menu : await getApplicationMenu(menu)
+  const fields = options.fields ?? defaultFields
+  const lines: string[] = []
+  const write = (items: MenuItemPartial[], depth: number) => {
+    for (const item of items) {
+      lines.push('  '.repeat(depth) + describeItem(item, fields))
+      if (item.submenu) write(item.submenu, depth + 1)
+    }
+  }
+  write(items, 0)
+  return lines.join('\n')
+}
+
+/**
+ * The item's name in an outline or a path.
+ *
+ * @ignore
+ */
+export function itemLabel(item: MenuItemPartial): string {
+  if (item.type === 'separator') return '---'
+  if (item.label) return item.label
+  if (item.role) return `<${item.role}>`
+  return item.id ? `#${item.id}` : '(no label)'
+}
+
+/** a value that can't be mistaken for the next one on its line */
+function quote(value: unknown): string {
+  const text = String(value)
+  return text === '' || /\s/.test(text) ? JSON.stringify(text) : text
+}
+
+function describeItem(
+  item: MenuItemPartial,
+  fields: MenuSnapshotField[],
+): string {
+  if (item.type === 'separator') return '---'
+  let mark = ''
+  if (fields.includes('checked')) {
+    if (item.type === 'checkbox') mark = item.checked ? '[x] ' : '[ ] '
+    if (item.type === 'radio') mark = item.checked ? '(x) ' : '( ) '
+  }
+  const parts = [mark + itemLabel(item)]
+  for (const field of fields) {
+    const value = item[field]
+    switch (field) {
+      case 'checked':
+        // written as the mark
+        break
+      case 'enabled':
+        if (value === false) parts.push('disabled')
+        break
+      case 'visible':
+        if (value === false) parts.push('hidden')
+        break
+      case 'type':
+        if (value !== 'normal' && value !== 'submenu') {
+          parts.push(`type=${quote(value)}`)
+        }
+        break
+      default:
+        if (value !== undefined && value !== null && value !== '') {
+          parts.push(`${field}=${quote(value)}`)
+        }
+    }
+  }
+  return parts.join('  ')
+}
+
+/**
+ * Compare two captures of a menu, from `getApplicationMenu()`, and list the
+ * items added, the items removed, and the properties changed in between.
+ *
+ * Items are matched level by level: by `id` where both have one, and by label
+ * otherwise, so relabelling an item with an id shows up as a change to its
+ * label, and relabelling one without as a removal and an addition. Moving an
+ * item within its menu is not a difference.
+ *
+ * @example
+ * ```ts
+ * const before = await getApplicationMenu(app)
+ * await clickMenuItemById(app, 'open-file')
+ * const diff = diffMenus(before, await getApplicationMenu(app))
+ * expect(diff.changed).toEqual([
+ *   { path: ['File', 'Save File'], field: 'enabled', before: false, after: true },
+ * ])
+ * ```
+ *
+ * @category Menu
+ *
+ * @param before - The menu as it was.
+ * @param after - The menu as it is.
+ * @param options - Optional. The properties to compare, besides the label.
+ * @returns The differences.
+ */
+export function diffMenus(
+  before: MenuItemPartial[],
+  after: MenuItemPartial[],
+  options: MenuSnapshotOptions = {},
+): MenuDiff {
+  const fields = options.fields ?? defaultFields
+  const diff: MenuDiff = { same: true, added: [], removed: [], changed: [] }
+
+  const compare = (
+    before: MenuItemPartial[],
+    after: MenuItemPartial[],
+    parent: string[],
+  ) => {
+    const unmatched = keyItems(before)
+    for (const [key, item] of keyItems(after)) {
+      const path = [...parent, itemLabel(item)]
+      const old = unmatched.get(key)
+      if (!old) {
+        diff.added.push({ path, item })
+        continue
+      }
+      unmatched.delete(key)
+      for (const field of ['label', ...fields] as const) {
+        if (old[field] !== item[field]) {
+          diff.changed.push({
+            path,
+            field,
+            before: old[field],
+            after: item[field],
+          })
+        }
+      }
+      compare(old.submenu ?? [], item.submenu ?? [], path)
+    }
+    for (const item of unmatched.values()) {
+      diff.removed.push({ path: [...parent, itemLabel(item)], item })
+    }
+  }
+  compare(before, after, [])
+
+  diff.same =
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  return diff
+}
+
+/**
+ * The items of one level of a menu, by what they are matched on. Siblings
+ * that would share a key - separators, mostly - are told apart by count.
+ */
+function keyItems(items: MenuItemPartial[]): Map<string, MenuItemPartial> {
+  const keyed = new Map<string, MenuItemPartial>()
+  const seen: Record<string, number> = {}
+  for (const item of items) {
+    const base = item.id ? `id:${item.id}` : `label:${itemLabel(item)}`
+    seen[base] = (seen[base] ?? 0) + 1
+    keyed.set(seen[base] > 1 ? `${base}:${seen[base]}` : base, item)
+  }
+  return keyed
+}
+
+/** properties a predicate reads to find an item, rather than to check it */
+const findingProperties = new Set(['label', 'id', 'role', 'type', 'submenu'])
+
+/**
+ * A copy of `items` that notes, in `read`, each item the code it is passed to
+ * checks the state of - with the labels leading to it.
+ */
+function watchReads(
+  items: MenuItemPartial[],
+  parent: string[],
+  read: Map<MenuItemPartial, string[]>,
+): MenuItemPartial[] {
+  return items.map((item) => {
+    const submenu =
+      item.submenu &&
+      watchReads(item.submenu, [...parent, itemLabel(item)], read)
+    return new Proxy(item, {
+      get(target, property, receiver) {
+        if (property === 'submenu') return submenu
+        if (typeof property === 'string' && !findingProperties.has(property)) {
+          read.set(item, parent)
+        }
+        return Reflect.get(target, property, receiver)
+      },
+    })
+  })
+}
+
+/**
+ * Wait until the application menu satisfies a predicate, and return it. Each
+ * poll reads the whole menu afresh with `getApplicationMenu()` and passes it
+ * to the predicate, so the condition can span several items and properties -
+ * anything from "Undo is enabled" to "the Recent submenu lists three files".
+ *
+ * The predicate runs in the test. Reach into submenus with optional chaining,
+ * since the menu may not have the items yet: an error thrown by the predicate
+ * ends the wait.
+ *
+ * On timeout, the error lists the items the predicate checked - the ones it
+ * read a property of beyond its label, id, role or type - as last seen, or the
+ * whole menu if it checked none.
+ *
+ * @example
+ * ```ts
+ * await waitForMenu(app, (menu) => {
+ *   const edit = menu.find((item) => item.label === 'Edit')
+ *   const undo = edit?.submenu?.find((item) => item.role === 'undo')
+ *   return undo?.enabled === true && undo.label === 'Undo Typing'
+ * })
+ * ```
+ *
+ * @category Menu
+ *
+ * @param electronApp - The Playwright ElectronApplication instance.
+ * @param predicate - Called with each fresh copy of the menu; resolve truthy to stop waiting.
+ * @param options - Optional. How long to wait, and how often to look. Defaults to 5000ms.
+ * @returns A promise that resolves with the menu that satisfied the predicate.
+ * @throws {Error} if the menu doesn't satisfy the predicate before the timeout
+ */
+export async function waitForMenu(
+  electronApp: ElectronApplication,
+  predicate: (menu: MenuItemPartial[]) => unknown,
+  options: Partial<RetryUntilTruthyOptions> = {},
+): Promise<MenuItemPartial[]> {
+  let lastSeen: MenuItemPartial[] = []
+  let read = new Map<MenuItemPartial, string[]>()
+  try {
+    return await retryUntilTruthy(async () => {
+      lastSeen = await getApplicationMenu(electronApp)
+      read = new Map()
+      return (await predicate(watchReads(lastSeen, [], read))) && lastSeen
+    }, options)
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.includes('Timeout')) throw err
+    const fields: MenuSnapshotField[] = [...defaultFields, 'visible', 'id']
+    const seen = read.size
+      ? [...read].map(
+          ([item, parent]) =>
+            `  ${[...parent, describeItem(item, fields)].join(' > ')}`,
+        )
+      : (await serializeMenu(lastSeen, { fields }))
+          .split('\n')
+          .map((line) => `  ${line}`)
+    throw explainError(
+      new Error(
+        `waitForMenu: the menu did not satisfy the predicate within ${options.timeout ?? 5000}ms. ${read.size ? 'The items it checked' : 'The menu'}, as last seen:\n${seen.join('\n')}`,
+      ),
+      errorHelp.waitForMenu,
+    )
+  }
+}
@@ -0,0 +1,290 @@
+import type { ElectronApplication, Page } from 'playwright-core'
+import { retry } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Which menu a menu helper reads or clicks:
+ * - `'application'` (the default): the one set with `Menu.setApplicationMenu()`
+ * - `'dock'`: the macOS dock menu, set with `app.dock.setMenu()`
+ * - `{ window }`: the menu a window was given with `setMenu()` - pass a Page
+ *   or a BrowserWindow id
+ * - `{ tray }`: the context menu of a tray, by number - trays are numbered
+ *   from 1, in the order they first set a context menu
+ * - `'tray'`: the context menu of the first tray
+ *
+ * Window and tray menus are only seen if they were set while
+ * `startMenuCapture()` was running - see there.
+ *
+ * @category Menu
+ */
+export type MenuSource =
+  'application' | 'dock' | 'tray' | { window: Page | number } | { tray: number }
+
+/**
+ * The `source` option the menu helpers take.
+ *
+ * @category Menu
+ */
+export type MenuSourceOptions = {
+  /** Which menu to use. Defaults to the application menu. */
+  source?: MenuSource
+}
+
+/**
+ * Returned by `startMenuCapture()`.
+ *
+ * @category Menu
+ */
+export type MenuCapture = {
+  /**
+   * Stop capturing. The menus captured so far can still be read, but changes
+   * the app makes from now on are not seen.
+   */
+  stop(): Promise<void>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/**
+ * A `MenuSource` other than the application menu, as it is passed to the
+ * main process.
+ *
+ * @ignore
+ */
+export type MainMenuSource =
+  | { kind: 'dock' }
+  | { kind: 'window'; id: number }
+  | { kind: 'tray'; id: number | undefined }
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.menuSources` - see
+ * `MainDialogState` for why it lives over there.
+ *
+ * @ignore
+ */
+export type MainMenuSourceState = {
+  /** the menu each window was last given, by window id - `null` once removed */
+  windowMenus: Map<number, Electron.Menu | null>
+  /** every tray that set a context menu, by the number given it */
+  trays: Map<number, { tray: Electron.Tray; menu: Electron.Menu | null }>
+  trayIds: WeakMap<Electron.Tray, number>
+  /** the menu a source names - throws if there is none */
+  menuFor: (source: MainMenuSource) => Electron.Menu
+  /** undoes the patches, while capturing */
+  stop: (() => void) | undefined
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Start capturing the menus the app gives its windows, with
+ * `BrowserWindow.setMenu()`, and its trays, with `Tray.setContextMenu()`, so
+ * the menu helpers can use them through their `source` option. Electron
+ * can't read either back, so a menu set before capture started is never
+ * seen: start right after launch.
+ *
+ * The menus are not changed or replaced - each call still reaches Electron -
+ * and a captured menu is the live one, so `clickMenuItemById()` clicks the
+ * item the app would. Capture works by wrapping `setMenu()`, `removeMenu()`
+ * and `setContextMenu()`; `stop()` puts them back. Starting again while
+ * capturing keeps the one capture going.
+ *
+ * @example
+ * ```ts
+ * await using _capture = await startMenuCapture(app)
+ * await page.click('#minimize-to-tray')
+ * await waitForMenuItem(app, 'tray-quit', { source: 'tray' })
+ * await clickMenuItemById(app, 'tray-show', { source: 'tray' })
+ * ```
+ *
+ * @category Menu
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the capture once it has started.
+ */
+export async function startMenuCapture(
+  app: ElectronApplication,
+): Promise<MenuCapture> {
+  await installMenuSources(app)
+  await retry(() =>
+    app.evaluate(({ BrowserWindow, Tray }) => {
+      const state: MainMenuSourceState = (globalThis as any)
+        .__electronPlaywrightHelpers.menuSources
+      if (state.stop) return
+
+      // setMenu() is BaseWindow's, further up the chain than BrowserWindow
+      const ownerOf = (proto: object, name: string): any => {
+        for (let p: any = proto; p; p = Object.getPrototypeOf(p)) {
+          if (Object.prototype.hasOwnProperty.call(p, name)) return p
+        }
+        return proto
+      }
+      const patches: {
+        proto: any
+        name: string
+        hadOwn: boolean
+        original: any
+      }[] = []
+      const patch = (
+        proto: object,
+        name: string,
+        wrap: (original: (...args: any[]) => unknown) => any,
+      ) => {
+        const owner = ownerOf(proto, name)
+        const original = owner[name]
+        patches.push({
+          proto: owner,
+          name,
+          hadOwn: Object.prototype.hasOwnProperty.call(owner, name),
+          original,
+        })
+        owner[name] = wrap(original)
+      }
+
+      patch(
+        BrowserWindow.prototype,
+        'setMenu',
+        (original) =>
+          function (this: Electron.BrowserWindow, menu: Electron.Menu | null) {
+            state.windowMenus.set(this.id, menu)
+            return original.call(this, menu)
+          },
+      )
+      patch(
+        BrowserWindow.prototype,
+        'removeMenu',
+        (original) =>
+          function (this: Electron.BrowserWindow) {
+            state.windowMenus.set(this.id, null)
+            return original.call(this)
+          },
+      )
+      patch(
+        Tray.prototype,
+        'setContextMenu',
+        (original) =>
+          function (this: Electron.Tray, menu: Electron.Menu | null) {
+            let id = state.trayIds.get(this)
+            if (id === undefined) {
+              id = state.trays.size + 1
+              state.trayIds.set(this, id)
+            }
+            state.trays.set(id, { tray: this, menu })
+            return original.call(this, menu)
+          },
+      )
+
+      state.stop = () => {
+        // put the prototypes back as they were - inherited methods stay inherited
+        for (const { proto, name, hadOwn, original } of patches) {
+          if (hadOwn) proto[name] = original
+          else delete proto[name]
+        }
+        state.stop = undefined
+      }
+    }),
+  )
+
+  const stop = async () => {
+    await retry(() =>
+      app.evaluate(() => {
+        const state: MainMenuSourceState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.menuSources
+        state?.stop?.()
+      }),
+    )
+  }
+  return { stop, [Symbol.asyncDispose]: stop }
+}
+
+/**
+ * Turn a `MenuSource` into what the main process is passed, and make sure the
+ * main process can look it up. Resolves `undefined` for the application menu,
+ * which the helpers read themselves.
+ *
+ * @ignore
+ */
+export async function resolveMenuSource(
+  app: ElectronApplication,
+  source: MenuSource | undefined,
+): Promise<MainMenuSource | undefined> {
+  if (source === undefined || source === 'application') return undefined
+  let resolved: MainMenuSource
+  if (source === 'dock') {
+    resolved = { kind: 'dock' }
+  } else if (source === 'tray') {
+    resolved = { kind: 'tray', id: undefined }
+  } else if ('tray' in source) {
+    resolved = { kind: 'tray', id: source.tray }
+  } else if (typeof source.window === 'number') {
+    resolved = { kind: 'window', id: source.window }
+  } else {
+    const page = source.window
+    const browserWindow = await retry(() => app.browserWindow(page))
+    const id = await retry(() => browserWindow.evaluate((win) => win.id))
+    resolved = { kind: 'window', id }
+  }
+  await installMenuSources(app)
+  return resolved
+}
+
+/** set up the main process state, and the lookup the helpers call */
+function installMenuSources(app: ElectronApplication): Promise<void> {
+  return retry(() =>
+    app.evaluate(({ app, BrowserWindow }) => {
+      const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+      if (root.menuSources) return
+      const state: MainMenuSourceState = {
+        windowMenus: new Map(),
+        trays: new Map(),
+        trayIds: new WeakMap(),
+        menuFor: (source) => {
+          const notFound = (why: string) =>
+            new Error(`Menu source not found: ${why}`)
+          if (source.kind === 'dock') {
+            if (!app.dock) {
+              throw notFound(
+                'there is no dock menu - the dock is only on macOS',
+              )
+            }
+            const menu = app.dock.getMenu()
+            if (!menu) throw notFound('the app has not set a dock menu')
+            return menu
+          }
+          if (source.kind === 'window') {
+            if (!BrowserWindow.fromId(source.id)) {
+              throw notFound(`no window with id ${source.id}`)
+            }
+            if (!state.windowMenus.has(source.id)) {
+              throw notFound(`no menu captured for window ${source.id}`)
+            }
+            const menu = state.windowMenus.get(source.id)
+            if (!menu) throw notFound(`window ${source.id} has no menu`)
+            return menu
+          }
+          const id = source.id ?? 1
+          const tray = state.trays.get(id)
+          if (!tray) {
+            throw notFound(
+              state.trays.size
+                ? `no tray ${id} - ${state.trays.size} captured`
+                : 'no tray menu captured',
+            )
+          }
+          if (tray.tray.isDestroyed()) {
+            throw notFound(`tray ${id} was destroyed`)
+          }
+          if (!tray.menu) throw notFound(`tray ${id} has no context menu`)
+          return tray.menu
+        },
+        stop: undefined,
+      }
+      root.menuSources = state
+    }),
+  )
+}
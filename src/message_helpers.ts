@@ -0,0 +1,514 @@
+import type { ElectronApplication } from 'playwright-core'
+import { errorHelp, explainError } from './error_help'
+import { retry, retryUntilTruthy, RetryUntilTruthyOptions } from './utilities'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A utility process the app forked while messaging was captured.
+ *
+ * @category Messaging
+ */
+export type UtilityProcessInfo = {
+  /** Assigned by the helpers, in the order the processes were forked. */
+  id: number
+  /** The OS process id, once the process has spawned. */
+  pid: number | undefined
+  /** The script the process runs. */
+  modulePath: string
+  /** The `serviceName` it was forked with, if any. */
+  serviceName: string | undefined
+  /** False once the process has exited. */
+  running: boolean
+  /** Its exit code, once it has exited. */
+  exitCode?: number
+}
+
+/**
+ * A `MessagePortMain` a message has crossed while messaging was captured.
+ *
+ * @category Messaging
+ */
+export type CapturedPortInfo = {
+  /** Assigned by the helpers, in the order the ports were first seen. */
+  id: number
+  /** False once the port has been closed. */
+  open: boolean
+}
+
+/**
+ * One message, as recorded in the main process by `startMessageCapture()`.
+ *
+ * @category Messaging
+ */
+export type CapturedMessage = {
+  /** Where the message went: to or from a utility process, or across a port. */
+  target: 'utilityProcess' | 'port'
+  /** The `id` of the utility process or port. */
+  id: number
+  /** `'out'` if the main process posted it, `'in'` if it received it. */
+  direction: 'in' | 'out'
+  /**
+   * The message, copied when it was posted or received. Anything that can't
+   * be structured-cloned arrives as `{ serializationError }`.
+   */
+  data: unknown
+  /** How many ports were transferred with it. */
+  portCount: number
+  /** When, in milliseconds since the epoch (main process clock). */
+  timestamp: number
+}
+
+/**
+ * Which captured messages to return or wait for. Every property is optional.
+ *
+ * @category Messaging
+ */
+export type CapturedMessageMatcher = {
+  target?: CapturedMessage['target']
+  /** The utility process or port id. */
+  id?: number
+  direction?: CapturedMessage['direction']
+}
+
+/**
+ * Returned by `startMessageCapture()`.
+ *
+ * @category Messaging
+ */
+export type MessageCapture = {
+  /** Stop capturing, and resolve with every message captured. */
+  stop(): Promise<CapturedMessage[]>
+  [Symbol.asyncDispose](): Promise<void>
+}
+
+/**
+ * Bookkeeping kept inside the Electron main process, on
+ * `globalThis.__electronPlaywrightHelpers.messaging` - see `MainDialogState`
+ * for why it lives over there.
+ *
+ * @ignore
+ */
+export type MainMessagingState = {
+  /** the utility processes forked while capturing, by id */
+  processes: Record<number, { info: UtilityProcessInfo; child: unknown }>
+  nextProcessId: number
+  /** the ports seen while capturing, by id */
+  ports: Record<number, { info: CapturedPortInfo; port: unknown }>
+  portIds: WeakMap<object, number>
+  nextPortId: number
+  /** every message captured, oldest first */
+  log: CapturedMessage[]
+  /** undoes the patches, while capturing */
+  stop: (() => void) | undefined
+}
+
+// ============================================================================
+// Main API
+// ============================================================================
+
+/**
+ * Start capturing the app's messaging outside of classic IPC: every
+ * `utilityProcess` it forks, with the messages posted to and received from
+ * it, and every message posted or received on a `MessagePortMain` - the ports
+ * of a `MessageChannelMain`, and those that arrive with IPC messages.
+ *
+ * Processes forked and ports created before capture started are invisible
+ * to it, so start it before the step that sets them up. A port is listed once
+ * a message has crossed it in either direction.
+ *
+ * Capture works by wrapping `utilityProcess.fork()`, and the `postMessage()`,
+ * `emit()` and `close()` methods `MessagePortMain` instances share. `stop()`
+ * puts them back. Starting again while capturing keeps the one capture going.
+ *
+ * @example
+ * ```ts
+ * await using _capture = await startMessageCapture(app)
+ * await page.click('#start-export')
+ * const [worker] = await getUtilityProcesses(app)
+ * const done = await waitForCapturedMessage(
+ *   app,
+ *   { target: 'utilityProcess', id: worker.id, direction: 'in' },
+ *   (message) => (message.data as { type: string }).type === 'done',
+ * )
+ * ```
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the capture once it has started.
+ */
+export async function startMessageCapture(
+  app: ElectronApplication,
+): Promise<MessageCapture> {
+  await retry(() =>
+    app.evaluate(({ utilityProcess, MessageChannelMain }) => {
+      const root = ((globalThis as any).__electronPlaywrightHelpers ??= {})
+      const state: MainMessagingState = (root.messaging ??= {
+        processes: {},
+        nextProcessId: 1,
+        ports: {},
+        portIds: new WeakMap(),
+        nextPortId: 1,
+        log: [],
+        stop: undefined,
+      })
+      if (state.stop) return
+
+      // a copy, so the app changing its objects later doesn't rewrite the log
+      const copy = (value: unknown) => {
+        try {
+          return structuredClone(value)
+        } catch (err) {
+          return { serializationError: String(err) }
+        }
+      }
+      const record = (
+        target: CapturedMessage['target'],
+        id: number,
+        direction: CapturedMessage['direction'],
+        data: unknown,
+        ports: unknown[] | undefined,
+      ) => {
+        state.log.push({
+          target,
+          id,
+          direction,
+          data: copy(data),
+          portCount: ports?.length ?? 0,
+          timestamp: Date.now(),
+        })
+      }
+
+      // utility processes: only fork() hands them out, so wrap that
+      const originalFork = utilityProcess.fork
+      utilityProcess.fork = function (
+        this: unknown,
+        ...args: Parameters<typeof originalFork>
+      ) {
+        const child = originalFork.apply(this, args)
+        const [modulePath, , options] = args
+        const info: UtilityProcessInfo = {
+          id: state.nextProcessId++,
+          pid: child.pid,
+          modulePath,
+          serviceName: options?.serviceName,
+          running: true,
+        }
+        state.processes[info.id] = { info, child }
+        child.on('spawn', () => {
+          info.pid = child.pid
+        })
+        child.on('exit', (code: number) => {
+          info.running = false
+          info.exitCode = code
+        })
+        child.on('message', (message: unknown) => {
+          if (state.stop) record('utilityProcess', info.id, 'in', message, [])
+        })
+        const originalPost = child.postMessage
+        child.postMessage = function (
+          message: unknown,
+          transfer?: Electron.MessagePortMain[],
+        ) {
+          if (state.stop) {
+            record('utilityProcess', info.id, 'out', message, transfer)
+          }
+          return originalPost.call(this, message, transfer)
+        }
+        return child
+      } as typeof originalFork
+
+      // ports: every MessagePortMain shares one prototype, so wrap that
+      const { port1, port2 } = new MessageChannelMain()
+      const proto = Object.getPrototypeOf(port1)
+      port1.close()
+      port2.close()
+      const idFor = (port: Electron.MessagePortMain) => {
+        let id = state.portIds.get(port)
+        if (id === undefined) {
+          id = state.nextPortId++
+          state.portIds.set(port, id)
+          state.ports[id] = { info: { id, open: true }, port }
+        }
+        return id
+      }
+      const hadOwn = {
+        postMessage: Object.prototype.hasOwnProperty.call(proto, 'postMessage'),
+        emit: Object.prototype.hasOwnProperty.call(proto, 'emit'),
+        close: Object.prototype.hasOwnProperty.call(proto, 'close'),
+      }
+      const originalPortPost = proto.postMessage
+      const originalPortEmit = proto.emit
+      const originalPortClose = proto.close
+      proto.postMessage = function (
+        this: Electron.MessagePortMain,
+        message: unknown,
+        transfer?: Electron.MessagePortMain[],
+      ) {
+        record('port', idFor(this), 'out', message, transfer)
+        return originalPortPost.call(this, message, transfer)
+      }
+      proto.emit = function (
+        this: Electron.MessagePortMain,
+        event: string | symbol,
+        ...args: unknown[]
+      ) {
+        if (event === 'message') {
+          const { data, ports } = args[0] as Electron.MessageEvent
+          record('port', idFor(this), 'in', data, ports)
+        }
+        return originalPortEmit.call(this, event, ...args)
+      }
+      proto.close = function (this: Electron.MessagePortMain) {
+        const id = state.portIds.get(this)
+        if (id !== undefined) state.ports[id].info.open = false
+        return originalPortClose.call(this)
+      }
+
+      state.stop = () => {
+        utilityProcess.fork = originalFork
+        // put the prototype back as it was - methods it inherited stay inherited
+        for (const [name, original] of [
+          ['postMessage', originalPortPost],
+          ['emit', originalPortEmit],
+          ['close', originalPortClose],
+        ] as const) {
+          if (hadOwn[name]) proto[name] = original
+          else delete proto[name]
+        }
+        state.stop = undefined
+      }
+    }),
+  )
+
+  const stop = async () => {
+    await retry(() =>
+      app.evaluate(() => {
+        const state: MainMessagingState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.messaging
+        state?.stop?.()
+      }),
+    )
+    return getCapturedMessages(app)
+  }
+  return {
+    stop,
+    [Symbol.asyncDispose]: async () => {
+      await stop()
+    },
+  }
+}
+
+/**
+ * List the utility processes the app has forked since `startMessageCapture()`,
+ * running or not.
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the processes, in the order they were forked.
+ */
+export function getUtilityProcesses(
+  app: ElectronApplication,
+): Promise<UtilityProcessInfo[]> {
+  return retry(() =>
+    app.evaluate(() => {
+      const state: MainMessagingState | undefined = (globalThis as any)
+        .__electronPlaywrightHelpers?.messaging
+      return Object.values(state?.processes ?? {}).map(({ info }) => info)
+    }),
+  )
+}
+
+/**
+ * List the ports messages have crossed since `startMessageCapture()`.
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @returns A promise that resolves with the ports, in the order they were first seen.
+ */
+export function getCapturedPorts(
+  app: ElectronApplication,
+): Promise<CapturedPortInfo[]> {
+  return retry(() =>
+    app.evaluate(() => {
+      const state: MainMessagingState | undefined = (globalThis as any)
+        .__electronPlaywrightHelpers?.messaging
+      return Object.values(state?.ports ?? {}).map(({ info }) => info)
+    }),
+  )
+}
+
+/**
+ * Post a message into a utility process, as the main process would with
+ * `child.postMessage()`. The process's `process.parentPort` receives it.
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param target - The process: its `id` from `getUtilityProcesses()`, or its `serviceName`.
+ * @param message - The message. It must survive the structured clone to the main process.
+ * @returns A promise that resolves once the message has been posted.
+ * @throws {Error} if there is no such process, or it has exited
+ */
+export function postToUtilityProcess(
+  app: ElectronApplication,
+  target: number | string,
+  message: unknown,
+): Promise<void> {
+  return retry(() =>
+    app.evaluate(
+      (_electron, { target, message }) => {
+        const state: MainMessagingState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.messaging
+        const found = Object.values(state?.processes ?? {}).find(({ info }) =>
+          typeof target === 'number'
+            ? info.id === target
+            : info.serviceName === target,
+        )
+        if (!found) {
+          throw new Error(
+            `No utility process ${JSON.stringify(target)} has been captured`,
+          )
+        }
+        if (!found.info.running) {
+          throw new Error(
+            `Utility process ${JSON.stringify(target)} has exited (code ${found.info.exitCode})`,
+          )
+        }
+        ;(found.child as Electron.UtilityProcess).postMessage(message)
+      },
+      { target, message },
+    ),
+  ).catch((err: unknown) => {
+    if (err instanceof Error && err.message.includes('has been captured')) {
+      throw explainError(err, errorHelp.messageCaptureMissing)
+    }
+    throw err
+  })
+}
+
+/**
+ * Post a message onto a captured port, as the main process would with
+ * `port.postMessage()`. Whatever holds the port's other end receives it.
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param portId - The port's `id`, from `getCapturedPorts()` or a captured message.
+ * @param message - The message. It must survive the structured clone to the main process.
+ * @returns A promise that resolves once the message has been posted.
+ * @throws {Error} if there is no such port, or it has been closed
+ */
+export function postToPort(
+  app: ElectronApplication,
+  portId: number,
+  message: unknown,
+): Promise<void> {
+  return retry(() =>
+    app.evaluate(
+      (_electron, { portId, message }) => {
+        const state: MainMessagingState | undefined = (globalThis as any)
+          .__electronPlaywrightHelpers?.messaging
+        const found = state?.ports[portId]
+        if (!found) throw new Error(`No port ${portId} has been captured`)
+        if (!found.info.open) throw new Error(`Port ${portId} has been closed`)
+        ;(found.port as Electron.MessagePortMain).postMessage(message)
+      },
+      { portId, message },
+    ),
+  ).catch((err: unknown) => {
+    if (err instanceof Error && err.message.includes('has been captured')) {
+      throw explainError(err, errorHelp.messageCaptureMissing)
+    }
+    throw err
+  })
+}
+
+/**
+ * Test a captured message against a `CapturedMessageMatcher`.
+ *
+ * @ignore
+ */
+export function capturedMessageMatches(
+  message: CapturedMessage,
+  matcher: CapturedMessageMatcher,
+): boolean {
+  const { target, id, direction } = matcher
+  if (target !== undefined && message.target !== target) return false
+  if (id !== undefined && message.id !== id) return false
+  if (direction !== undefined && message.direction !== direction) return false
+  return true
+}
+
+/**
+ * Get the messages captured since `startMessageCapture()`, oldest first. The
+ * log survives `stop()`.
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param matcher - Optional. Only return the messages that match.
+ * @returns A promise that resolves with the captured messages.
+ */
+export async function getCapturedMessages(
+  app: ElectronApplication,
+  matcher: CapturedMessageMatcher = {},
+): Promise<CapturedMessage[]> {
+  const log = await retry(() =>
+    app.evaluate(
+      () =>
+        ((globalThis as any).__electronPlaywrightHelpers?.messaging?.log ??
+          []) as CapturedMessage[],
+    ),
+  )
+  return log.filter((message) => capturedMessageMatches(message, matcher))
+}
+
+/**
+ * Wait until a matching message is captured, and return it. A message
+ * already in the log counts.
+ *
+ * @category Messaging
+ *
+ * @param app - The Playwright ElectronApplication instance.
+ * @param matcher - Which messages to consider.
+ * @param predicate - Optional. Runs in the test, on each message that matches.
+ * @param options - Optional. How long to wait, and how often to look. Defaults to 5000ms.
+ * @returns A promise that resolves with the first matching message.
+ * @throws {Error} if no matching message is captured before the timeout
+ */
+export async function waitForCapturedMessage(
+  app: ElectronApplication,
+  matcher: CapturedMessageMatcher,
+  predicate: (message: CapturedMessage) => boolean = () => true,
+  options: Partial<RetryUntilTruthyOptions> = {},
+): Promise<CapturedMessage> {
+  let lastSeen: CapturedMessage[] = []
+  try {
+    return await retryUntilTruthy(async () => {
+      lastSeen = await getCapturedMessages(app, matcher)
+      return lastSeen.find(predicate)
+    }, options)
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.includes('Timeout')) throw err
+    const seen = lastSeen.length
+      ? lastSeen
+          .map(
+            (message) =>
+              `  ${message.target} ${message.id} ${message.direction} ${JSON.stringify(message.data)}`,
+          )
+          .join('\n')
+      : '  (none)'
+    throw explainError(
+      new Error(
+        `waitForCapturedMessage: no message matching ${JSON.stringify(matcher)} passed the predicate. Matching messages:\n${seen}`,
+      ),
+      errorHelp.messageCaptureMissing,
+    )
+  }
+}
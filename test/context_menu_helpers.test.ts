@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict'
+import {
+  clickContextMenuItem,
+  dismissContextMenu,
+  getContextMenus,
+  startContextMenuCapture,
+  waitForContextMenu,
+} from '../src/context_menu_helpers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('Context menus', () => {
+  beforeEach(resetMainProcess)
+
+  const popUp = (
+    Menu: ReturnType<typeof fakeElectron>['Menu'],
+    events: string[],
+  ) => {
+    const menu = Menu.buildFromTemplate([
+      { label: 'Rename', id: 'rename', click: () => events.push('rename') },
+      {
+        label: 'Sort By',
+        submenu: [{ label: 'Name', click: () => events.push('sort') }],
+      },
+    ])
+    menu.on('menu-will-close', () => events.push('will-close'))
+    // the fake's own popup() throws, so this only passes while captured
+    menu.popup({ x: 10, y: 20, callback: () => events.push('callback') })
+    return menu
+  }
+
+  it('should record a popup instead of showing it', async () => {
+    const { app, Menu } = fakeElectron()
+    const capture = await startContextMenuCapture(app)
+    popUp(Menu, [])
+
+    const popup = await waitForContextMenu(app)
+    assert.equal(popup.open, true)
+    assert.deepStrictEqual([popup.x, popup.y], [10, 20])
+    assert.deepStrictEqual(
+      popup.items.map((item) => item.label),
+      ['Rename', 'Sort By'],
+    )
+    assert.equal(popup.items[1].submenu?.[0].label, 'Name')
+
+    await capture.stop()
+    assert.throws(() => popUp(Menu, []), /A native menu popped up/)
+  })
+
+  it('should close the menu, then click the item', async () => {
+    const { app, Menu } = fakeElectron()
+    await using _capture = await startContextMenuCapture(app)
+    const events: string[] = []
+    popUp(Menu, events)
+    await clickContextMenuItem(app, ['Sort By', 'Name'])
+    assert.deepStrictEqual(events, ['will-close', 'callback', 'sort'])
+
+    popUp(Menu, events)
+    await clickContextMenuItem(app, 'rename')
+    assert.equal(events.at(-1), 'rename')
+    const popups = await getContextMenus(app)
+    assert.deepStrictEqual(
+      popups.map((popup) => popup.open),
+      [false, false],
+    )
+  })
+
+  it('should dismiss the open menu without clicking', async () => {
+    const { app, Menu } = fakeElectron()
+    await using _capture = await startContextMenuCapture(app)
+    const events: string[] = []
+    popUp(Menu, events)
+    assert.equal(await dismissContextMenu(app), true)
+    assert.deepStrictEqual(events, ['will-close', 'callback'])
+    assert.equal(await dismissContextMenu(app), false)
+    await assert.rejects(clickContextMenuItem(app, 'rename'), {
+      message: /no context menu is open/,
+    })
+  })
+})
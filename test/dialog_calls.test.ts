@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict'
+import {
+  assertNoUnexpectedDialogs,
+  clearDialogCalls,
+  getDialogCalls,
+  waitForDialogCall,
+} from '../src/dialog_calls'
+import { stubDialog, stubMultipleDialogs } from '../src/dialog_helpers'
+import { stubDialogMatchers } from '../src/dialog_matchers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('dialog call log', () => {
+  beforeEach(resetMainProcess)
+
+  it('should record the options, parent window and answer of each call', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showSaveDialog', matcher: { title: 'Other' }, value: {} },
+      {
+        method: 'showSaveDialog',
+        matcher: {},
+        value: { filePath: '/tmp/report.pdf' },
+      },
+    ])
+
+    const showSaveDialog = dialog.showSaveDialog as (
+      window: object,
+      options: object,
+    ) => Promise<unknown>
+    await showSaveDialog(
+      { id: 7 },
+      {
+        defaultPath: '~/Documents/report.pdf',
+        filters: [{ name: 'PDF', extensions: ['pdf'] }],
+      },
+    )
+
+    const [call] = await getDialogCalls(app)
+    assert.strictEqual(call.method, 'showSaveDialog')
+    assert.deepStrictEqual(call.options, {
+      defaultPath: '~/Documents/report.pdf',
+      filters: [{ name: 'PDF', extensions: ['pdf'] }],
+    })
+    assert.strictEqual(call.windowId, 7)
+    assert.strictEqual(call.stubIndex, 1)
+    assert.deepStrictEqual(call.returnValue, {
+      canceled: false,
+      filePath: '/tmp/report.pdf',
+    })
+    assert.strictEqual(typeof call.timestamp, 'number')
+  })
+
+  it('should record showErrorBox arguments as options', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialog(app, 'showErrorBox')
+
+    const showErrorBox = dialog.showErrorBox as (a: string, b: string) => void
+    showErrorBox('Oops', 'Something broke')
+
+    const [call] = await getDialogCalls(app)
+    assert.deepStrictEqual(call.options, {
+      title: 'Oops',
+      content: 'Something broke',
+    })
+  })
+
+  it('should record calls that fell through to the default', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showMessageBoxSync', matcher: { title: 'Nope' }, value: 3 },
+    ])
+
+    const showMessageBoxSync = dialog.showMessageBoxSync as (
+      options: object,
+    ) => number
+    showMessageBoxSync({ title: 'Other' })
+
+    const [call] = await getDialogCalls(app)
+    assert.strictEqual(call.stubIndex, undefined)
+    assert.strictEqual(call.returnValue, 0)
+  })
+
+  it('should filter by method and clear the log', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubMultipleDialogs(app, [
+      { method: 'showOpenDialogSync', value: ['/a'] },
+      { method: 'showSaveDialogSync', value: '/b' },
+    ])
+
+    dialog.showOpenDialogSync()
+    dialog.showSaveDialogSync()
+
+    const opens = await getDialogCalls(app, { method: 'showOpenDialogSync' })
+    assert.deepStrictEqual(
+      opens.map((call) => call.returnValue),
+      [['/a']],
+    )
+
+    await clearDialogCalls(app)
+    assert.deepStrictEqual(await getDialogCalls(app), [])
+  })
+
+  it('should wait for a matching call', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialog(app, 'showOpenDialogSync', ['/a'])
+
+    const showOpenDialogSync = dialog.showOpenDialogSync as (
+      options: object,
+    ) => string[]
+    setTimeout(() => showOpenDialogSync({ title: 'Import Photos' }), 20)
+
+    const call = await waitForDialogCall(
+      app,
+      { method: 'showOpenDialogSync', options: { title: /photos/i } },
+      { timeout: 1000, poll: 5 },
+    )
+    assert.strictEqual(call.options?.title, 'Import Photos')
+  })
+
+  it('should list the recorded calls when nothing matches in time', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialog(app, 'showMessageBoxSync', 0)
+
+    const showMessageBoxSync = dialog.showMessageBoxSync as (
+      options: object,
+    ) => number
+    showMessageBoxSync({ title: 'Unrelated' })
+
+    await assert.rejects(
+      waitForDialogCall(app, (call) => call.method === 'showOpenDialog', {
+        timeout: 30,
+        poll: 5,
+      }),
+      { message: /showMessageBoxSync\(\{"title":"Unrelated"\}\)/ },
+    )
+  })
+
+  describe('strict mode', () => {
+    it('should stub every method and report unmatched calls once', async () => {
+      const { app, dialog, originals } = fakeElectron()
+      await stubDialogMatchers(
+        app,
+        [
+          {
+            method: 'showMessageBoxSync',
+            matcher: { title: 'Quit?' },
+            value: 1,
+          },
+        ],
+        { strict: true },
+      )
+
+      const showMessageBoxSync = dialog.showMessageBoxSync as (
+        options: object,
+      ) => number
+      assert.strictEqual(showMessageBoxSync({ title: 'Quit?' }), 1)
+      await assertNoUnexpectedDialogs(app)
+
+      assert.notStrictEqual(dialog.showOpenDialog, originals.showOpenDialog)
+      const showOpenDialog = dialog.showOpenDialog as (
+        window: object,
+        options: object,
+      ) => Promise<unknown>
+      assert.deepStrictEqual(
+        await showOpenDialog({ id: 2 }, { title: 'Import' }),
+        { canceled: false, filePaths: [] },
+      )
+      assert.strictEqual(showMessageBoxSync({ title: 'Really?' }), 0)
+
+      await assert.rejects(assertNoUnexpectedDialogs(app), {
+        message:
+          /2 unexpected dialog\(s\):\n {2}showOpenDialog\(\{"title":"Import"\}\) in window 2\n {2}showMessageBoxSync\(\{"title":"Really\?"\}\)/,
+      })
+      await assertNoUnexpectedDialogs(app)
+
+      const calls = await getDialogCalls(app)
+      assert.deepStrictEqual(
+        calls.map((call) => call.unexpected),
+        [undefined, true, true],
+      )
+    })
+
+    it('should not report unmatched calls outside strict mode', async () => {
+      const { app, dialog } = fakeElectron()
+      await stubDialogMatchers(app, [
+        { method: 'showMessageBoxSync', matcher: { title: 'Quit?' }, value: 1 },
+      ])
+
+      const showMessageBoxSync = dialog.showMessageBoxSync as (
+        options: object,
+      ) => number
+      showMessageBoxSync({ title: 'Other' })
+      await assertNoUnexpectedDialogs(app)
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import path from 'path'
+import { createDialogFixture } from '../src/dialog_fixtures'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('dialog fixtures', () => {
+  beforeEach(resetMainProcess)
+
+  it('should build the file tree in a temporary directory', async () => {
+    const { app } = fakeElectron()
+    const files = await createDialogFixture(app, {
+      'notes.txt': 'hello',
+      photos: { 'cat.png': Buffer.from([1, 2, 3]) },
+      empty: {},
+    })
+
+    try {
+      assert.strictEqual(
+        await fs.readFile(path.join(files.root, 'notes.txt'), 'utf8'),
+        'hello',
+      )
+      assert.deepStrictEqual(
+        [...(await fs.readFile(files.path('photos/cat.png')))],
+        [1, 2, 3],
+      )
+      assert.strictEqual(await files.exists('empty'), true)
+      assert.strictEqual(await files.exists('missing.txt'), false)
+    } finally {
+      await files.cleanup()
+    }
+    assert.strictEqual(await files.exists('.'), false)
+  })
+
+  it('should answer open dialogs with paths inside the fixture', async () => {
+    const { app, dialog } = fakeElectron()
+    const files = await createDialogFixture(app, { 'a.txt': 'a', 'b.txt': 'b' })
+
+    await files.open(['a.txt', 'b.txt'])
+    assert.deepStrictEqual(await dialog.showOpenDialog(), {
+      canceled: false,
+      filePaths: [files.path('a.txt'), files.path('b.txt')],
+    })
+    assert.deepStrictEqual(dialog.showOpenDialogSync(), [
+      files.path('a.txt'),
+      files.path('b.txt'),
+    ])
+    await files.cleanup()
+  })
+
+  it('should read back what the app saved', async () => {
+    const { app, dialog, originals } = fakeElectron()
+    const files = await createDialogFixture(app)
+
+    await files.save('out/report.txt', { title: 'Export' })
+    const showSaveDialog = dialog.showSaveDialog as (
+      options: object,
+    ) => Promise<{ filePath?: string }>
+    const { filePath } = await showSaveDialog({ title: 'Export' })
+    await assert.rejects(files.readSaved(), {
+      message: /readSaved: the app has not written out\/report.txt/,
+    })
+    await fs.writeFile(filePath!, 'saved!')
+
+    assert.strictEqual(await files.readSaved(), 'saved!')
+    assert.ok(Buffer.isBuffer(await files.readSaved(undefined, null)))
+
+    await files.cleanup()
+    assert.strictEqual(dialog.showSaveDialog, originals.showSaveDialog)
+  })
+  it('should remove the directory when a restore fails', async () => {
+    const { app } = fakeElectron()
+    const files = await createDialogFixture(app, { 'a.txt': 'a' })
+    const handle = await files.open('a.txt')
+    handle.restore = () => Promise.reject(new Error('the app has closed'))
+
+    await assert.rejects(files.cleanup(), /the app has closed/)
+    assert.strictEqual(await files.exists('.'), false)
+  })
+  it('should refuse paths that lead out of the fixture', async () => {
+    const { app } = fakeElectron()
+    await assert.rejects(
+      createDialogFixture(app, { '../escaped.txt': 'x' }),
+      /is outside the fixture directory/,
+    )
+    const files = await createDialogFixture(app, { 'a.txt': 'a' })
+
+    assert.throws(() => files.path('../x'), /is outside the fixture directory/)
+    await assert.rejects(files.open(path.resolve('/tmp/x')), /outside/)
+    await assert.rejects(files.save('sub/../../x'), /outside/)
+    await assert.rejects(files.exists('..'), /outside/)
+    // a name that only starts with two dots stays inside
+    assert.strictEqual(files.path('..a'), path.join(files.root, '..a'))
+    await files.cleanup()
+  })
+})
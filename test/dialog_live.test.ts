@@ -0,0 +1,168 @@
+import assert from 'node:assert/strict'
+import { getDialogCalls } from '../src/dialog_calls'
+import { onLiveDialog, waitForLiveDialog } from '../src/dialog_live'
+import { restoreAllDialogs, stubDialogMatchers } from '../src/dialog_matchers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('live dialogs', () => {
+  beforeEach(resetMainProcess)
+
+  it('should keep the app waiting until the test responds', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showMessageBox', matcher: { title: 'Delete' }, live: true },
+    ])
+
+    const showMessageBox = dialog.showMessageBox as (
+      window: object,
+      options: object,
+    ) => Promise<unknown>
+    let answered = false
+    const pending = showMessageBox({ id: 3 }, { title: 'Delete' }).then(
+      (result) => {
+        answered = true
+        return result
+      },
+    )
+
+    const live = await waitForLiveDialog(app, { method: 'showMessageBox' })
+    assert.strictEqual(live.method, 'showMessageBox')
+    assert.deepStrictEqual(live.options, { title: 'Delete' })
+    assert.strictEqual(live.windowId, 3)
+    assert.strictEqual(answered, false)
+
+    await live.respond({ response: 1 })
+    assert.deepStrictEqual(await pending, {
+      response: 1,
+      checkboxChecked: false,
+    })
+    const [call] = await getDialogCalls(app)
+    assert.deepStrictEqual(call.returnValue, {
+      response: 1,
+      checkboxChecked: false,
+    })
+  })
+
+  it('should wait for a dialog that opens later', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showOpenDialog', matcher: {}, live: true },
+    ])
+
+    const waiting = waitForLiveDialog(app)
+    setTimeout(() => dialog.showOpenDialog(), 20)
+    const live = await waiting
+    assert.strictEqual(live.method, 'showOpenDialog')
+    await live.respond({ canceled: true })
+  })
+
+  it('should hand each dialog out once', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showSaveDialog', matcher: {}, live: true },
+    ])
+
+    dialog.showSaveDialog()
+    dialog.showSaveDialog()
+    const first = await waitForLiveDialog(app)
+    const second = await waitForLiveDialog(app)
+    assert.notStrictEqual(first.id, second.id)
+    await assert.rejects(waitForLiveDialog(app, { timeout: 50 }), {
+      message: /waitForLiveDialog: no live dialog opened within 50ms/,
+    })
+
+    await first.respond()
+    await assert.rejects(first.respond(), {
+      message: `Live dialog ${first.id} has already been answered`,
+    })
+    await second.respond()
+  })
+
+  it('should reject live stubs for sync methods', async () => {
+    const { app } = fakeElectron()
+
+    await assert.rejects(
+      stubDialogMatchers(app, [
+        // @ts-expect-error - sync methods can't be live
+        { method: 'showMessageBoxSync', matcher: {}, live: true },
+      ]),
+      { message: /showMessageBoxSync can't be live/ },
+    )
+  })
+
+  it('should pass every live dialog to an onLiveDialog() handler', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showMessageBox', matcher: {}, live: true },
+    ])
+
+    const seen: number[] = []
+    const stop = onLiveDialog(app, async (live) => {
+      seen.push(live.id)
+      await live.respond({ response: seen.length })
+    })
+    const showMessageBox = dialog.showMessageBox as (
+      options: object,
+    ) => Promise<{ response: number }>
+    const first = await showMessageBox({})
+    const second = await showMessageBox({})
+    await stop()
+
+    assert.deepStrictEqual([first.response, second.response], [1, 2])
+    assert.strictEqual(seen.length, 2)
+  })
+
+  it('should keep handling dialogs after the handler throws', async () => {
+    const { app, dialog } = fakeElectron()
+    await stubDialogMatchers(app, [
+      { method: 'showMessageBox', matcher: {}, live: true },
+    ])
+
+    let calls = 0
+    const stop = onLiveDialog(app, async (live) => {
+      calls++
+      await live.respond({ response: calls })
+      if (calls === 1) throw new Error('handler broke')
+    })
+    const showMessageBox = dialog.showMessageBox as (
+      options: object,
+    ) => Promise<{ response: number }>
+    await showMessageBox({})
+    const second = await showMessageBox({})
+    assert.strictEqual(second.response, 2)
+
+    await assert.rejects(stop(), /handler broke/)
+  })
+  it('should settle the live dialogs of a restored stub', async () => {
+    const { app, dialog } = fakeElectron()
+    const handle = await stubDialogMatchers(app, [
+      { method: 'showMessageBox', matcher: {}, live: true },
+    ])
+    await stubDialogMatchers(app, [
+      { method: 'showOpenDialog', matcher: {}, live: true },
+    ])
+
+    const showMessageBox = dialog.showMessageBox as (
+      options: object,
+    ) => Promise<unknown>
+    const pending = showMessageBox({})
+    const live = await waitForLiveDialog(app)
+    const open = dialog.showOpenDialog()
+    await handle.restore()
+
+    assert.deepStrictEqual(await pending, {
+      response: 0,
+      checkboxChecked: false,
+    })
+    await assert.rejects(live.respond(), /has already been answered/)
+    // the other handle's dialog is still the test's to answer
+    const other = await waitForLiveDialog(app, { timeout: 50 })
+    assert.strictEqual(other.method, 'showOpenDialog')
+
+    await restoreAllDialogs(app)
+    assert.deepStrictEqual(await open, { canceled: false, filePaths: [] })
+    await assert.rejects(waitForLiveDialog(app, { timeout: 50 }), {
+      message: /no live dialog opened within 50ms/,
+    })
+  })
+})
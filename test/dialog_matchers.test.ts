@@ -0,0 +1,521 @@
+import assert from 'node:assert/strict'
+import type { Page } from 'playwright-core'
+import {
+  stubAllDialogs,
+  stubDialog,
+  stubMultipleDialogs,
+} from '../src/dialog_helpers'
+import { getDialogCalls } from '../src/dialog_calls'
+import {
+  clearDialogMatchers,
+  restoreAllDialogs,
+  stubDialogMatchers,
+} from '../src/dialog_matchers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('dialog stubs', () => {
+  beforeEach(resetMainProcess)
+
+  describe('restoring', () => {
+    it('should restore the methods a handle replaced', async () => {
+      const { app, dialog, originals } = fakeElectron()
+
+      const handle = await stubDialog(app, 'showMessageBox', { response: 1 })
+      assert.deepStrictEqual(await dialog.showMessageBox(), {
+        response: 1,
+        checkboxChecked: false,
+      })
+
+      await handle.restore()
+      assert.strictEqual(dialog.showMessageBox, originals.showMessageBox)
+      assert.deepStrictEqual(handle.methods, ['showMessageBox'])
+    })
+
+    it('should leave a method alone once a later stub owns it', async () => {
+      const { app, dialog } = fakeElectron()
+
+      const first = await stubDialog(app, 'showMessageBoxSync', 1)
+      await stubDialog(app, 'showMessageBoxSync', 2)
+      await first.restore()
+
+      assert.strictEqual(dialog.showMessageBoxSync(), 2)
+    })
+
+    it('should restore the true original after stubbing twice', async () => {
+      const { app, dialog, originals } = fakeElectron()
+
+      await stubDialog(app, 'showOpenDialogSync', ['/one'])
+      const second = await stubDialog(app, 'showOpenDialogSync', ['/two'])
+      await second.restore()
+
+      assert.strictEqual(
+        dialog.showOpenDialogSync,
+        originals.showOpenDialogSync,
+      )
+    })
+
+    it('should restore through Symbol.asyncDispose', async () => {
+      const { app, dialog, originals } = fakeElectron()
+
+      const handle = await stubDialogMatchers(app, [
+        { method: 'showSaveDialog', matcher: {}, value: { canceled: true } },
+      ])
+      await handle[Symbol.asyncDispose]()
+
+      assert.strictEqual(dialog.showSaveDialog, originals.showSaveDialog)
+    })
+
+    it('should restore every stubbed method with restoreAllDialogs()', async () => {
+      const { app, dialog, originals } = fakeElectron()
+
+      await stubAllDialogs(app)
+      await restoreAllDialogs(app)
+
+      assert.deepStrictEqual({ ...dialog }, originals)
+    })
+
+    it('should restore rather than break methods with clearDialogMatchers()', async () => {
+      const { app, dialog, originals } = fakeElectron()
+
+      await stubDialog(app, 'showErrorBox')
+      await clearDialogMatchers(app)
+
+      assert.strictEqual(dialog.showErrorBox, originals.showErrorBox)
+      assert.strictEqual(dialog.showMessageBox, originals.showMessageBox)
+    })
+  })
+
+  describe('matching', () => {
+    it('should return the first matching stub', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showMessageBoxSync',
+          matcher: { title: /delete/i, buttons: 'Yes' },
+          value: 1,
+        },
+        { method: 'showMessageBoxSync', matcher: {}, value: 2 },
+      ])
+
+      const showMessageBoxSync = dialog.showMessageBoxSync as (
+        options: object,
+      ) => number
+      assert.strictEqual(
+        showMessageBoxSync({ title: 'Delete File', buttons: ['No', 'Yes'] }),
+        1,
+      )
+      assert.strictEqual(
+        showMessageBoxSync({ title: 'Delete File', buttons: ['No'] }),
+        2,
+      )
+    })
+
+    it('should find the options after a parent window argument', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showOpenDialog',
+          matcher: { title: 'Pick' },
+          value: { filePaths: ['/picked'] },
+        },
+      ])
+
+      const showOpenDialog = dialog.showOpenDialog as (
+        window: object,
+        options: object,
+      ) => Promise<{ filePaths: string[] }>
+      const result = await showOpenDialog({ id: 1 }, { title: 'Pick' })
+      assert.deepStrictEqual(result.filePaths, ['/picked'])
+    })
+
+    it('should throw on an unmatched dialog when asked to', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(
+        app,
+        [
+          {
+            method: 'showErrorBox',
+            matcher: { title: 'Known' },
+            value: undefined,
+          },
+        ],
+        { throwOnUnmatched: true },
+      )
+
+      assert.throws(() => dialog.showErrorBox(), {
+        message: /No matching stub for showErrorBox/,
+      })
+    })
+
+    it('should match filters and properties', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showOpenDialogSync',
+          matcher: { properties: ['openDirectory'] },
+          value: ['/folder'],
+        },
+        {
+          method: 'showOpenDialogSync',
+          matcher: { filters: { name: /image/i, extensions: ['png'] } },
+          value: ['/image.png'],
+        },
+      ])
+
+      const showOpenDialogSync = dialog.showOpenDialogSync as (
+        options: object,
+      ) => string[]
+      assert.deepStrictEqual(
+        showOpenDialogSync({
+          properties: ['openDirectory', 'createDirectory'],
+        }),
+        ['/folder'],
+      )
+      assert.deepStrictEqual(
+        showOpenDialogSync({
+          properties: ['openFile'],
+          filters: [
+            { name: 'Documents', extensions: ['png'] },
+            { name: 'Images', extensions: ['jpg', 'png'] },
+          ],
+        }),
+        ['/image.png'],
+      )
+      assert.deepStrictEqual(
+        showOpenDialogSync({
+          filters: [{ name: 'Images', extensions: ['gif'] }],
+        }),
+        [],
+      )
+    })
+
+    it('should match defaultId, cancelId and an exact list of buttons', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showMessageBoxSync',
+          matcher: { buttons: ['Cancel', /^Delete/], cancelId: 0 },
+          value: 1,
+        },
+        {
+          method: 'showMessageBoxSync',
+          matcher: { defaultId: 2 },
+          value: 2,
+        },
+      ])
+
+      const showMessageBoxSync = dialog.showMessageBoxSync as (
+        options: object,
+      ) => number
+      assert.strictEqual(
+        showMessageBoxSync({ buttons: ['Cancel', 'Delete All'], cancelId: 0 }),
+        1,
+      )
+      assert.strictEqual(
+        showMessageBoxSync({ buttons: ['Delete All', 'Cancel'], cancelId: 0 }),
+        0,
+      )
+      assert.strictEqual(
+        showMessageBoxSync({
+          buttons: ['Cancel', 'Delete', 'Keep'],
+          cancelId: 0,
+          defaultId: 2,
+        }),
+        2,
+      )
+    })
+
+    it('should match the parent window by title or URL', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showSaveDialogSync',
+          matcher: { parentWindow: { title: 'Settings' } },
+          value: '/settings.json',
+        },
+        {
+          method: 'showSaveDialogSync',
+          matcher: { parentWindow: { url: /editor\.html$/ } },
+          value: '/document.txt',
+        },
+      ])
+
+      const fakeWindow = (title: string, url: string) => ({
+        id: 1,
+        getTitle: () => title,
+        webContents: { getURL: () => url },
+      })
+      const showSaveDialogSync = dialog.showSaveDialogSync as (
+        window?: object,
+        options?: object,
+      ) => string | undefined
+      assert.strictEqual(
+        showSaveDialogSync(fakeWindow('Settings', 'file:///settings.html'), {}),
+        '/settings.json',
+      )
+      assert.strictEqual(
+        showSaveDialogSync(fakeWindow('Untitled', 'file:///editor.html'), {}),
+        '/document.txt',
+      )
+      assert.strictEqual(showSaveDialogSync({}), undefined)
+    })
+  })
+
+  describe('sequences', () => {
+    it('should answer successive calls with successive values', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubMultipleDialogs(app, [
+        { method: 'showMessageBoxSync', values: [1, 0] },
+      ])
+
+      assert.deepStrictEqual(
+        [
+          dialog.showMessageBoxSync(),
+          dialog.showMessageBoxSync(),
+          dialog.showMessageBoxSync(),
+        ],
+        [1, 0, 0],
+      )
+    })
+
+    it('should fill in defaults for each value', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubMultipleDialogs(app, [
+        { method: 'showMessageBox', values: [{ response: 2 }] },
+      ])
+
+      assert.deepStrictEqual(await dialog.showMessageBox(), {
+        response: 2,
+        checkboxChecked: false,
+      })
+    })
+
+    it('should fall through to the next stub once exhausted', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showSaveDialogSync',
+          matcher: {},
+          values: ['/taken.txt'],
+          whenExhausted: 'fallThrough',
+        },
+        { method: 'showSaveDialogSync', matcher: {}, value: '/free.txt' },
+      ])
+
+      assert.strictEqual(dialog.showSaveDialogSync(), '/taken.txt')
+      assert.strictEqual(dialog.showSaveDialogSync(), '/free.txt')
+    })
+
+    it('should fall through to the default with no stub left', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showOpenDialogSync',
+          matcher: {},
+          values: [['/a']],
+          whenExhausted: 'fallThrough',
+        },
+      ])
+
+      dialog.showOpenDialogSync()
+      assert.deepStrictEqual(dialog.showOpenDialogSync(), [])
+    })
+
+    it('should throw once exhausted when asked to', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showMessageBox',
+          matcher: {},
+          values: [{ response: 1 }],
+          whenExhausted: 'throw',
+        },
+      ])
+
+      await dialog.showMessageBox()
+      await assert.rejects(dialog.showMessageBox(), {
+        message: /Dialog stub 0 for showMessageBox has no responses left/,
+      })
+    })
+
+    it('should report how many values each stub has left', async () => {
+      const { app, dialog } = fakeElectron()
+
+      const handle = await stubDialogMatchers(app, [
+        { method: 'showMessageBoxSync', matcher: {}, values: [1, 2, 3] },
+        { method: 'showSaveDialogSync', matcher: {}, value: '/a' },
+      ])
+      dialog.showMessageBoxSync()
+
+      assert.deepStrictEqual(await handle.remaining(), [2, undefined])
+      dialog.showMessageBoxSync()
+      dialog.showMessageBoxSync()
+      dialog.showMessageBoxSync()
+      assert.deepStrictEqual(await handle.remaining(), [0, undefined])
+
+      // the main process lets go of the stubs once they are restored
+      await handle.restore()
+      assert.deepStrictEqual(await handle.remaining(), [])
+      const state = (globalThis as any).__electronPlaywrightHelpers.dialog
+      assert.deepStrictEqual(state.stubs, {})
+    })
+  })
+
+  describe('window scoping', () => {
+    const fakeWindow = (id: number, title: string) => ({
+      id,
+      getTitle: () => title,
+    })
+
+    it('should only answer dialogs from the selected window', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        { method: 'showMessageBoxSync', matcher: {}, window: 2, value: 2 },
+        {
+          method: 'showMessageBoxSync',
+          matcher: {},
+          window: 'Preferences',
+          value: 3,
+        },
+        {
+          method: 'showMessageBoxSync',
+          matcher: {},
+          window: /^Untitled/,
+          value: 4,
+        },
+        { method: 'showMessageBoxSync', matcher: {}, value: 1 },
+      ])
+
+      const showMessageBoxSync = dialog.showMessageBoxSync as (
+        window?: object,
+        options?: object,
+      ) => number
+      assert.deepStrictEqual(
+        [
+          showMessageBoxSync(fakeWindow(2, 'Main'), {}),
+          showMessageBoxSync(fakeWindow(3, 'Preferences'), {}),
+          showMessageBoxSync(fakeWindow(4, 'Untitled 1'), {}),
+          showMessageBoxSync(fakeWindow(5, 'Main'), {}),
+          showMessageBoxSync({}),
+        ],
+        [2, 3, 4, 1, 1],
+      )
+    })
+
+    it("should resolve a Page to its window's id", async () => {
+      const { app, dialog } = fakeElectron()
+      const page = {}
+      Object.assign(app, {
+        browserWindow: async (target: unknown) => {
+          assert.strictEqual(target, page)
+          return {
+            evaluate: async (fn: (win: object) => unknown) => fn({ id: 9 }),
+          }
+        },
+      })
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showSaveDialogSync',
+          matcher: {},
+          window: page as Page,
+          value: '/from-page',
+        },
+      ])
+
+      const showSaveDialogSync = dialog.showSaveDialogSync as (
+        window: object,
+        options: object,
+      ) => string | undefined
+      assert.strictEqual(
+        showSaveDialogSync(fakeWindow(9, 'Any'), {}),
+        '/from-page',
+      )
+      assert.strictEqual(
+        showSaveDialogSync(fakeWindow(8, 'Any'), {}),
+        undefined,
+      )
+    })
+  })
+
+  describe('functions', () => {
+    it('should pick a stub with a matcher function', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showMessageBoxSync',
+          matcher: (options, parentWindow) =>
+            parentWindow?.id === 7 && options.buttons!.length > 2,
+          value: 2,
+        },
+        { method: 'showMessageBoxSync', matcher: {}, value: 1 },
+      ])
+
+      const showMessageBoxSync = dialog.showMessageBoxSync as (
+        window: object,
+        options: object,
+      ) => number
+      const buttons = ['Save', "Don't Save", 'Cancel']
+      assert.strictEqual(showMessageBoxSync({ id: 7 }, { buttons }), 2)
+      assert.strictEqual(showMessageBoxSync({ id: 8 }, { buttons }), 1)
+    })
+
+    it('should compute the answer with a responder', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubMultipleDialogs(app, [
+        {
+          method: 'showMessageBox',
+          respond: (options) => ({
+            response: options.buttons!.indexOf('Replace'),
+          }),
+        },
+      ])
+
+      const showMessageBox = dialog.showMessageBox as (
+        options: object,
+      ) => Promise<unknown>
+      assert.deepStrictEqual(
+        await showMessageBox({ buttons: ['Cancel', 'Keep Both', 'Replace'] }),
+        { response: 2, checkboxChecked: false },
+      )
+      const [call] = await getDialogCalls(app)
+      assert.deepStrictEqual(call.returnValue, {
+        response: 2,
+        checkboxChecked: false,
+      })
+    })
+
+    it('should record an error thrown by a responder', async () => {
+      const { app, dialog } = fakeElectron()
+
+      await stubDialogMatchers(app, [
+        {
+          method: 'showSaveDialogSync',
+          matcher: {},
+          respond: (options) => options.defaultPath!.toUpperCase(),
+        },
+      ])
+
+      const expected =
+        /Dialog stub 0 for showSaveDialogSync: responder threw TypeError/
+      assert.throws(() => dialog.showSaveDialogSync(), { message: expected })
+      const [call] = await getDialogCalls(app)
+      assert.match(call.error!, expected)
+      assert.strictEqual(call.stubIndex, 0)
+    })
+  })
+})
@@ -0,0 +1,375 @@
+import { EventEmitter } from 'node:events'
+import type { ElectronApplication, Page } from 'playwright-core'
+
+/**
+ * A stand-in for Electron's main process. The helpers only ever reach it
+ * through evaluate(), so running the callback right here, against fake
+ * `dialog`, `ipcMain`, `webContents`, `BrowserWindow`, `session`,
+ * `utilityProcess`, `MessageChannelMain`, `Menu`, `Tray` and `app` modules,
+ * exercises exactly the code that would run in Electron.
+ */
+export function fakeElectron() {
+  const dialog = {
+    showMessageBox: async () => ({ response: 99, checkboxChecked: false }),
+    showMessageBoxSync: () => 99,
+    showOpenDialog: async () => ({ canceled: false, filePaths: ['/real'] }),
+    showOpenDialogSync: () => ['/real'],
+    showSaveDialog: async () => ({ canceled: false, filePath: '/real' }),
+    showSaveDialogSync: () => '/real',
+    showErrorBox: (): void => undefined,
+    showCertificateTrustDialog: async (): Promise<void> => undefined,
+  }
+  const originals = { ...dialog }
+  const ipcMain = fakeIpcMain()
+  const electronApp = new EventEmitter()
+  const session = { defaultSession: new FakeSession() }
+  const contents: FakeWebContents[] = []
+  const webContents = {
+    getAllWebContents: () => contents.filter((wc) => !wc.isDestroyed()),
+    fromId: (id: number) => contents.find((wc) => wc.id === id),
+  }
+  const utilityProcess = {
+    fork: (modulePath: string, args?: string[], options?: object) =>
+      new FakeUtilityProcess(modulePath, args, options),
+  }
+  let applicationMenu: FakeMenu | null = null
+  /** a class of its own, so patching its prototype stays in this fake */
+  class Menu extends FakeMenu {
+    static buildFromTemplate = (template: FakeMenuItemOptions[]) =>
+      new Menu(template)
+    static setApplicationMenu = (menu: FakeMenu | null) => {
+      applicationMenu = menu
+    }
+    static getApplicationMenu = (): FakeMenu | null => applicationMenu
+  }
+  /** where setMenu() lives in Electron - a prototype above BrowserWindow's */
+  class BaseWindow {
+    menu: FakeMenu | null = null
+    setMenu(menu: FakeMenu | null) {
+      this.menu = menu
+    }
+    removeMenu() {
+      this.menu = null
+    }
+  }
+  const windows = new Map<number, BrowserWindow>()
+  /** every webContents is shown in a window of the same id */
+  class BrowserWindow extends BaseWindow {
+    constructor(
+      public id: number,
+      public webContents: FakeWebContents,
+    ) {
+      super()
+    }
+    focus() {
+      this.webContents.focus()
+    }
+    static fromId = (id: number): BrowserWindow | undefined => {
+      const wc = webContents.fromId(id)
+      if (!wc) return undefined
+      if (!windows.has(id)) windows.set(id, new BrowserWindow(id, wc))
+      return windows.get(id)
+    }
+    static getAllWindows = () =>
+      webContents.getAllWebContents().map((wc) => BrowserWindow.fromId(wc.id))
+    static getFocusedWindow = (): null => null
+  }
+  class Tray {
+    menu: FakeMenu | null = null
+    destroyed = false
+    setContextMenu(menu: FakeMenu | null) {
+      this.menu = menu
+    }
+    destroy() {
+      this.destroyed = true
+    }
+    isDestroyed() {
+      return this.destroyed
+    }
+  }
+  /** a new renderer, announced the way Electron announces one */
+  const createWebContents = () => {
+    const wc = new FakeWebContents(contents.length + 1, session.defaultSession)
+    contents.push(wc)
+    electronApp.emit('web-contents-created', {}, wc)
+    return wc
+  }
+  const context = {}
+  const pages: Page[] = []
+  /**
+   * A page showing `wc`. Its evaluate() runs the callback from source, as a
+   * renderer would, so it cannot see this module's `require()`.
+   */
+  const createPage = (wc: FakeWebContents) => {
+    const page = {
+      webContents: wc,
+      context: () => context,
+      url: () => `app://window-${wc.id}/`,
+      evaluate: async (fn: (arg: unknown) => unknown, arg: unknown) =>
+        new Function(`return (${fn.toString()})`)()(arg),
+    } as unknown as Page
+    pages.push(page)
+    return page
+  }
+  const app = {
+    context: () => context,
+    windows: () => pages,
+    browserWindow: async (page: { webContents: FakeWebContents }) => ({
+      evaluate: async (fn: (win: unknown) => unknown) =>
+        fn(BrowserWindow.fromId(page.webContents.id)),
+    }),
+    evaluate: async (
+      fn: (electron: unknown, arg: unknown) => unknown,
+      arg: unknown,
+    ) =>
+      fn(
+        {
+          dialog,
+          ipcMain,
+          webContents,
+          session,
+          BrowserWindow,
+          utilityProcess,
+          MessageChannelMain: FakeMessageChannelMain,
+          Menu,
+          Tray,
+          app: electronApp,
+        },
+        arg,
+      ),
+  } as unknown as ElectronApplication
+  return {
+    app,
+    dialog,
+    originals,
+    ipcMain,
+    session,
+    Menu,
+    BrowserWindow,
+    Tray,
+    createWebContents,
+    createPage,
+  }
+}
+
+/**
+ * Forget everything the helpers stashed on the "main process" global, which
+ * in these tests is our own.
+ */
+export function resetMainProcess() {
+  delete (globalThis as any).__electronPlaywrightHelpers
+}
+
+type InvokeHandler = (
+  event: { sender: { id: number } },
+  ...args: unknown[]
+) => unknown
+
+/**
+ * ipcMain as Electron >= 25 has it: an EventEmitter for ipcMain.on(), plus
+ * the private map that ipcMain.handle() writes to.
+ */
+function fakeIpcMain() {
+  const _invokeHandlers = new Map<string, InvokeHandler>()
+  return Object.assign(new EventEmitter(), {
+    _invokeHandlers,
+    handle(channel: string, handler: InvokeHandler) {
+      if (_invokeHandlers.has(channel)) {
+        throw new Error(
+          `Attempted to register a second handler for '${channel}'`,
+        )
+      }
+      _invokeHandlers.set(channel, handler)
+    },
+    removeHandler(channel: string) {
+      _invokeHandlers.delete(channel)
+    },
+    /** what Electron does when a renderer calls ipcRenderer.invoke() */
+    async invoke(channel: string, senderId: number, ...args: unknown[]) {
+      const handler = _invokeHandlers.get(channel)
+      if (!handler) throw new Error(`No handler registered for '${channel}'`)
+      return handler({ sender: { id: senderId } }, ...args)
+    },
+  })
+}
+
+/** Just enough of a WebContents to see what the main process sends it. */
+class FakeWebContents {
+  sent: { channel: string; args: unknown[] }[] = []
+  destroyed = false
+  reloads = 0
+  /** webContents.ipc and the main frame's ipc, both IpcMain-alikes */
+  ipc = fakeIpcMain()
+  mainFrame = {
+    routingId: 1,
+    processId: 1,
+    ipc: fakeIpcMain(),
+    send: (channel: string, ...args: unknown[]) => this.send(channel, ...args),
+  }
+  constructor(
+    public id: number,
+    public session: FakeSession,
+  ) {}
+  send(channel: string, ...args: unknown[]) {
+    this.sent.push({ channel, args })
+  }
+  isDestroyed() {
+    return this.destroyed
+  }
+  getType() {
+    return 'window'
+  }
+  reload() {
+    this.reloads++
+  }
+  /** what a window does when it gets focus and key events */
+  focused = false
+  inputEvents: object[] = []
+  focus() {
+    this.focused = true
+  }
+  sendInputEvent(event: object) {
+    this.inputEvents.push(event)
+  }
+}
+
+/** A session as Electron >= 35 has it, for its preload scripts. */
+class FakeSession {
+  preloadScripts = new Map<string, { type: string; filePath: string }>()
+  registerPreloadScript(script: {
+    id: string
+    type: string
+    filePath: string
+  }) {
+    if (this.preloadScripts.has(script.id)) {
+      throw new Error(`Preload script with ID "${script.id}" already exists`)
+    }
+    this.preloadScripts.set(script.id, script)
+    return script.id
+  }
+  unregisterPreloadScript(id: string) {
+    this.preloadScripts.delete(id)
+  }
+}
+
+/**
+ * A utility process that never starts: it records what the main process
+ * posts to it, and `receive()` plays a message from it.
+ */
+class FakeUtilityProcess extends EventEmitter {
+  posted: unknown[] = []
+  pid = 4242
+  constructor(
+    public modulePath: string,
+    public args?: string[],
+    public options?: object,
+  ) {
+    super()
+  }
+  postMessage(message: unknown) {
+    this.posted.push(message)
+  }
+  receive(message: unknown) {
+    this.emit('message', message)
+  }
+  exit(code: number) {
+    this.emit('exit', code)
+  }
+}
+
+/** A MessagePortMain, entangled with its peer as Electron's are. */
+class FakeMessagePortMain extends EventEmitter {
+  peer: FakeMessagePortMain | undefined
+  closed = false
+  postMessage(message: unknown, transfer: unknown[] = []) {
+    this.peer?.emit('message', { data: message, ports: transfer })
+  }
+  start() {}
+  close() {
+    this.closed = true
+  }
+}
+
+class FakeMessageChannelMain {
+  port1 = new FakeMessagePortMain()
+  port2 = new FakeMessagePortMain()
+  constructor() {
+    this.port1.peer = this.port2
+    this.port2.peer = this.port1
+  }
+}
+
+type FakeMenuItemOptions = {
+  id?: string
+  label?: string
+  type?: 'normal' | 'separator' | 'submenu' | 'checkbox' | 'radio'
+  role?: string
+  accelerator?: string
+  enabled?: boolean
+  visible?: boolean
+  checked?: boolean
+  click?: () => void
+  submenu?: FakeMenuItemOptions[]
+}
+
+let nextCommandId = 1
+
+/**
+ * A MenuItem with the own properties Electron gives one - `click` and the
+ * `menu` back-reference included, so they are as unserializable as the real
+ * ones.
+ */
+class FakeMenuItem {
+  id: string | undefined
+  label: string
+  type: NonNullable<FakeMenuItemOptions['type']>
+  role: string | undefined
+  accelerator: string | undefined
+  enabled: boolean
+  visible: boolean
+  checked: boolean
+  commandId = nextCommandId++
+  submenu: FakeMenu | undefined
+  click: () => void
+  constructor(
+    options: FakeMenuItemOptions,
+    public menu: FakeMenu,
+  ) {
+    this.id = options.id
+    this.label = options.label ?? ''
+    this.type = options.type ?? (options.submenu ? 'submenu' : 'normal')
+    // Electron keeps roles lower-cased
+    this.role = options.role?.toLowerCase()
+    this.accelerator = options.accelerator
+    this.enabled = options.enabled ?? true
+    this.visible = options.visible ?? true
+    this.checked = options.checked ?? false
+    this.submenu = options.submenu && new FakeMenu(options.submenu)
+    this.click = () => {
+      if (this.type === 'checkbox') this.checked = !this.checked
+      if (this.type === 'radio') this.checked = true
+      options.click?.()
+    }
+  }
+}
+
+/** A Menu; popping it up natively is what the helpers must never do. */
+class FakeMenu extends EventEmitter {
+  items: FakeMenuItem[]
+  constructor(template: FakeMenuItemOptions[]) {
+    super()
+    this.items = template.map((options) => new FakeMenuItem(options, this))
+  }
+  popup(_options?: object) {
+    throw new Error('A native menu popped up')
+  }
+  closePopup() {}
+  getMenuItemById(id: string): FakeMenuItem | null {
+    for (const item of this.items) {
+      if (item.id === id) return item
+      const found = item.submenu?.getMenuItemById(id)
+      if (found) return found
+    }
+    return null
+  }
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'node:events'
+import fs from 'node:fs/promises'
+import { installIpcBridge } from '../src/ipc_bridge'
+import {
+  ipcRendererCallAllListeners,
+  ipcRendererCallFirstListener,
+  ipcRendererEmit,
+  ipcRendererInvoke,
+  ipcRendererSend,
+} from '../src/ipc_helpers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+/** Run the bridge's preload the way a context-isolated renderer would. */
+async function runPreload(preloadPath: string) {
+  const ipcRenderer = Object.assign(new EventEmitter(), {
+    sent: [] as unknown[][],
+    send: (...args: unknown[]) => ipcRenderer.sent.push(args),
+    invoke: async (channel: string, ...args: unknown[]) => [channel, ...args],
+  })
+  const contextBridge = {
+    exposeInMainWorld: (key: string, api: unknown) => {
+      ;(globalThis as any)[key] = api
+    },
+  }
+  const source = await fs.readFile(preloadPath, 'utf8')
+  new Function('require', 'process', 'window', source)(
+    () => ({ contextBridge, ipcRenderer }),
+    { contextIsolated: true },
+    globalThis,
+  )
+  return ipcRenderer
+}
+
+describe('IPC bridge', () => {
+  beforeEach(resetMainProcess)
+  afterEach(() => {
+    delete (globalThis as any).__electronPlaywrightHelpersIpc
+  })
+
+  it('should explain how to reach a page without require()', async () => {
+    const { createPage, createWebContents } = fakeElectron()
+    const page = createPage(createWebContents())
+
+    await assert.rejects(ipcRendererSend(page, 'ping'), {
+      message: /Is nodeIntegration: true\?[\s\S]*installIpcBridge/,
+    })
+  })
+
+  it('should register a preload with every session, and remove it', async () => {
+    const { app, session, createWebContents } = fakeElectron()
+    const wc = createWebContents()
+
+    const bridge = await installIpcBridge(app, { reload: true })
+    const [script] = session.defaultSession.preloadScripts.values()
+    assert.strictEqual(script.filePath, bridge.preloadPath)
+    assert.strictEqual(script.type, 'frame')
+    assert.strictEqual(wc.reloads, 1)
+
+    // installing twice keeps the one preload
+    const again = await installIpcBridge(app)
+    assert.strictEqual(again.preloadPath, bridge.preloadPath)
+
+    await bridge.uninstall()
+    assert.strictEqual(session.defaultSession.preloadScripts.size, 0)
+    await assert.rejects(fs.access(bridge.preloadPath))
+  })
+
+  it('should send and invoke from the main process for pages loaded before it', async () => {
+    const { app, ipcMain, createPage, createWebContents } = fakeElectron()
+    const wc = createWebContents()
+    const page = createPage(wc)
+    await using _bridge = await installIpcBridge(app)
+
+    const seen: unknown[] = []
+    wc.ipc.on('ping', (event, arg) => seen.push(['wc', event.sender.id, arg]))
+    ipcMain.on('ping', (event, arg) =>
+      seen.push(['main', event.sender.id, arg]),
+    )
+    await ipcRendererSend(page, 'ping', 1)
+    assert.deepStrictEqual(seen, [
+      ['wc', 1, 1],
+      ['main', 1, 1],
+    ])
+
+    ipcMain.handle('whoami', async (event) => `main ${event.sender.id}`)
+    assert.strictEqual(await ipcRendererInvoke(page, 'whoami'), 'main 1')
+    wc.ipc.handle('whoami', async () => 'webContents')
+    assert.strictEqual(await ipcRendererInvoke(page, 'whoami'), 'webContents')
+    // the send event, less the ways to answer it
+    ipcMain.handle('event', async (event) => Object.keys(event).sort())
+    assert.deepStrictEqual(await ipcRendererInvoke(page, 'event'), [
+      'frameId',
+      'ports',
+      'processId',
+      'sender',
+      'senderFrame',
+      'type',
+    ])
+
+    await assert.rejects(ipcRendererEmit(page, 'add-message'), {
+      message: /installIpcBridge\(\) has been called, but this page/,
+    })
+  })
+
+  it('should go through the preload once it has run', async () => {
+    const { app, createPage, createWebContents } = fakeElectron()
+    const page = createPage(createWebContents())
+    await using bridge = await installIpcBridge(app)
+    const ipcRenderer = await runPreload(bridge.preloadPath)
+
+    const messages: unknown[] = []
+    ipcRenderer.on('add-message', (_event, text) => messages.push(text))
+    ipcRenderer.on('get-data', () => 'data')
+
+    await ipcRendererSend(page, 'ping', 1)
+    assert.deepStrictEqual(ipcRenderer.sent, [['ping', 1]])
+    assert.deepStrictEqual(await ipcRendererInvoke(page, 'add', 2), ['add', 2])
+    assert.strictEqual(
+      await ipcRendererCallFirstListener(page, 'get-data'),
+      'data',
+    )
+    assert.strictEqual(await ipcRendererEmit(page, 'add-message', 'hi'), true)
+    assert.deepStrictEqual(messages, ['hi'])
+    assert.deepStrictEqual(
+      (await ipcRendererCallAllListeners(page, 'get-data')).map(
+        (result) => result.value,
+      ),
+      ['data'],
+    )
+    await assert.rejects(ipcRendererEmit(page, 'nothing'), {
+      message: "No ipcRenderer listeners for 'nothing'",
+    })
+  })
+})
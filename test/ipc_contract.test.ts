@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict'
+import {
+  assertIpcContract,
+  checkIpcContract,
+  getIpcChannels,
+} from '../src/ipc_contract'
+import { installIpcBridge } from '../src/ipc_bridge'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('IPC contracts', () => {
+  beforeEach(resetMainProcess)
+  afterEach(() => {
+    delete (globalThis as any).__electronPlaywrightHelpersIpc
+  })
+
+  it('should list the channels registered in each place', async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    const wc = createWebContents()
+    ipcMain.handle('get-user', async () => undefined)
+    wc.ipc.handle('get-user', async () => undefined)
+    ipcMain.on('new-window', () => undefined)
+    ipcMain.on('new-window', () => undefined)
+
+    const channels = await getIpcChannels(app)
+    assert.deepStrictEqual(channels.handle, {
+      'get-user': ['ipcMain', 'webContents 1'],
+    })
+    assert.deepStrictEqual(channels.on, { 'new-window': 2 })
+    assert.deepStrictEqual(channels.renderer, [])
+  })
+
+  it('should pass an app that matches its contract', async () => {
+    const { app, ipcMain } = fakeElectron()
+    ipcMain.handle('get-user', async () => undefined)
+    ipcMain.on('new-window', () => undefined)
+
+    const report = await checkIpcContract(app, {
+      handle: ['get-user'],
+      on: ['new-window'],
+    })
+    assert.deepStrictEqual(report.problems, [])
+    assert.strictEqual(report.ok, true)
+    await assertIpcContract(app, { handle: ['get-user'] })
+  })
+
+  it('should report missing, unexpected and duplicate channels', async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    const wc = createWebContents()
+    ipcMain.handle('get-user', async () => undefined)
+    wc.mainFrame.ipc.handle('get-user', async () => undefined)
+    ipcMain.handle('debug-dump', async () => undefined)
+    ipcMain.handle('vendor:ping', async () => undefined)
+
+    const report = await checkIpcContract(
+      app,
+      { handle: ['get-user', 'save-file'] },
+      { ignore: [/^vendor:/] },
+    )
+    assert.strictEqual(report.ok, false)
+    assert.deepStrictEqual(report.problems, [
+      {
+        problem: 'missing',
+        kind: 'handle',
+        channel: 'save-file',
+      },
+      {
+        problem: 'unexpected',
+        kind: 'handle',
+        channel: 'debug-dump',
+      },
+      {
+        problem: 'duplicate',
+        kind: 'handle',
+        channel: 'get-user',
+        places: ['ipcMain', 'webContents 1 frame'],
+      },
+    ])
+    await assert.rejects(
+      assertIpcContract(app, { handle: ['get-user', 'save-file'] }),
+      {
+        message:
+          /differ from the contract in 4 way\(s\):\n {2}missing handle 'save-file'\n {2}unexpected handle 'debug-dump'/,
+      },
+    )
+  })
+
+  it("should check each window's renderer listeners", async () => {
+    const { app, createPage, createWebContents } = fakeElectron()
+    createPage(createWebContents())
+    ;(globalThis as any).__electronPlaywrightHelpersIpc = {
+      eventNames: () => ['add-message'],
+    }
+
+    const report = await checkIpcContract(app, {
+      renderer: ['add-message', 'theme-changed'],
+    })
+    assert.deepStrictEqual(report.problems, [
+      {
+        problem: 'missing',
+        kind: 'renderer',
+        channel: 'theme-changed',
+        url: 'app://window-1/',
+      },
+    ])
+  })
+
+  it('should explain channels it cannot read', async () => {
+    const { app, ipcMain, createPage, createWebContents } = fakeElectron()
+    const page = createPage(createWebContents())
+    await assert.rejects(getIpcChannels(app), {
+      message: /nodeIntegration: true\?[\s\S]*installIpcBridge\(app/,
+    })
+    await using _bridge = await installIpcBridge(app)
+    await assert.rejects(getIpcChannels(app, [page]), {
+      message: /installIpcBridge\(\) has been called, but this page/,
+    })
+
+    Object.assign(ipcMain, { _invokeHandlers: undefined })
+    await assert.rejects(getIpcChannels(app, []), {
+      message: /getIpcChannels\(\) lists ipcMain.handle\(\) channels/,
+    })
+  })
+})
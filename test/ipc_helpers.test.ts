@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict'
+import {
+  ipcMainCallAllListeners,
+  ipcMainCallFirstListener,
+  ipcMainEmit,
+} from '../src/ipc_helpers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('ipcMain listener helpers', () => {
+  beforeEach(resetMainProcess)
+
+  it('should pass an empty event without a source', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const events: unknown[] = []
+    ipcMain.on('ping', (event) => events.push(event))
+
+    assert.strictEqual(await ipcMainEmit(app, 'ping', 1), true)
+    assert.deepStrictEqual(events, [{}])
+  })
+
+  it('should build the event from a source window id', async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    createWebContents()
+    const wc = createWebContents()
+    ipcMain.on('ping', (event, arg) => {
+      assert.strictEqual(event.sender, wc)
+      assert.strictEqual(event.senderFrame, wc.mainFrame)
+      assert.strictEqual(event.frameId, 1)
+      assert.strictEqual(event.processId, 1)
+      event.reply('pong', arg)
+    })
+
+    await ipcMainEmit(app, 'ping', 'hi', { source: 2, timeout: 1000 })
+    assert.deepStrictEqual(wc.sent, [{ channel: 'pong', args: ['hi'] }])
+  })
+
+  it('should reply through the webContents when it has no frame', async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    const wc = createWebContents()
+    Object.assign(wc, { mainFrame: undefined })
+    ipcMain.on('ping', (event, arg) => event.reply('pong', arg))
+
+    await ipcMainEmit(app, 'ping', 'hi', { source: 1 })
+    assert.deepStrictEqual(wc.sent, [{ channel: 'pong', args: ['hi'] }])
+  })
+
+  it('should build the event from a source page', async () => {
+    const { app, ipcMain, createPage, createWebContents } = fakeElectron()
+    createWebContents()
+    const page = createPage(createWebContents())
+    ipcMain.on('whoami', (event) => event.sender.id)
+
+    assert.strictEqual(
+      await ipcMainCallFirstListener(app, 'whoami', { source: page }),
+      2,
+    )
+  })
+
+  it("should resolve with a sync listener's returnValue", async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    createWebContents()
+    ipcMain.on('get-config', (event, key) => {
+      event.returnValue = { key }
+    })
+
+    assert.deepStrictEqual(
+      await ipcMainCallFirstListener(app, 'get-config', 'theme', {
+        source: 1,
+      }),
+      { key: 'theme' },
+    )
+    assert.deepStrictEqual(
+      await ipcMainCallFirstListener(app, 'get-config', 'theme'),
+      { key: 'theme' },
+    )
+  })
+
+  it('should pass on a payload that has a source of its own', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const received: unknown[] = []
+    ipcMain.on('open', (event, arg) => received.push(event, arg))
+
+    await ipcMainEmit(app, 'open', { source: 'recent' })
+    assert.deepStrictEqual(received, [{}, { source: 'recent' }])
+  })
+
+  it('should reject a source window that does not exist', async () => {
+    const { app, ipcMain } = fakeElectron()
+    ipcMain.on('ping', () => undefined)
+
+    await assert.rejects(ipcMainEmit(app, 'ping', { source: 7 }), {
+      message: 'No window with id 7',
+    })
+  })
+})
+
+describe('calling all listeners', () => {
+  beforeEach(resetMainProcess)
+
+  it('should call every ipcMain listener in order, awaiting each', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const order: string[] = []
+    ipcMain.on('save', async (_event, name) => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      order.push('first')
+      return `saved ${name}`
+    })
+    ipcMain.on('save', () => {
+      order.push('second')
+      throw new Error('disk full')
+    })
+    ipcMain.on('save', () => {
+      order.push('third')
+    })
+
+    const results = await ipcMainCallAllListeners(app, 'save', 'a.txt')
+    assert.deepStrictEqual(order, ['first', 'second', 'third'])
+    assert.deepStrictEqual(
+      results.map(({ index, value, error }) => ({ index, value, error })),
+      [
+        { index: 0, value: 'saved a.txt', error: undefined },
+        { index: 1, value: undefined, error: 'disk full' },
+        { index: 2, value: undefined, error: undefined },
+      ],
+    )
+    assert.ok(results[0].durationMs >= 5)
+  })
+
+  it('should give every ipcMain listener the same sourced event', async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    createWebContents()
+    ipcMain.on('who', (event) => event.sender.id)
+    ipcMain.on('who', (event) => event.frameId)
+
+    const results = await ipcMainCallAllListeners(app, 'who', { source: 1 })
+    assert.deepStrictEqual(
+      results.map((result) => result.value),
+      [1, 1],
+    )
+    await assert.rejects(ipcMainCallAllListeners(app, 'nobody'), {
+      message: "No ipcMain listeners for 'nobody'",
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict'
+import { mockIpcMainHandler } from '../src/ipc_mocks'
+import { getIpcLog, startIpcRecording } from '../src/ipc_recording'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('ipcMain handler mocks', () => {
+  beforeEach(resetMainProcess)
+
+  it('should reply in place of the app handler, then restore it', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const original = async () => 'real'
+    ipcMain.handle('get-user', original)
+
+    const mock = await mockIpcMainHandler(app, 'get-user', {
+      value: { name: 'Ada' },
+    })
+    assert.deepStrictEqual(await ipcMain.invoke('get-user', 4, 'id-1'), {
+      name: 'Ada',
+    })
+
+    const [call] = await mock.calls()
+    assert.strictEqual(call.channel, 'get-user')
+    assert.deepStrictEqual(call.args, ['id-1'])
+    assert.strictEqual(call.senderId, 4)
+    assert.deepStrictEqual(call.returnValue, { name: 'Ada' })
+
+    await mock.restore()
+    assert.strictEqual(ipcMain._invokeHandlers.get('get-user'), original)
+  })
+
+  it('should remove a mock for a channel the app never handled', async () => {
+    const { app, ipcMain } = fakeElectron()
+
+    const mock = await mockIpcMainHandler(app, 'new-channel', { value: 1 })
+    assert.strictEqual(await ipcMain.invoke('new-channel', 1), 1)
+    await mock[Symbol.asyncDispose]()
+
+    assert.strictEqual(ipcMain._invokeHandlers.has('new-channel'), false)
+  })
+
+  it('should compute replies with a responder', async () => {
+    const { app, ipcMain } = fakeElectron()
+
+    await mockIpcMainHandler(
+      app,
+      'add',
+      async (event, a: number, b: number) => a + b + (event.sender.id ?? 0),
+    )
+    assert.strictEqual(await ipcMain.invoke('add', 10, 1, 2), 13)
+  })
+
+  it('should give sequenced replies and simulated errors', async () => {
+    const { app, ipcMain } = fakeElectron()
+
+    const mock = await mockIpcMainHandler(app, 'fetch', {
+      replies: [{ error: 'ETIMEDOUT' }, { value: 'ok' }],
+      whenExhausted: 'throw',
+    })
+
+    await assert.rejects(ipcMain.invoke('fetch', 1), { message: 'ETIMEDOUT' })
+    assert.strictEqual(await ipcMain.invoke('fetch', 1), 'ok')
+    await assert.rejects(ipcMain.invoke('fetch', 1), {
+      message: "Mock for 'fetch' has no replies left (it had 2)",
+    })
+    assert.deepStrictEqual(
+      (await mock.calls()).map((call) => call.error),
+      [
+        'ETIMEDOUT',
+        undefined,
+        "Mock for 'fetch' has no replies left (it had 2)",
+      ],
+    )
+  })
+
+  it('should pass calls to the original handler once exhausted', async () => {
+    const { app, ipcMain } = fakeElectron()
+    ipcMain.handle('load', async (_event, name) => `real ${name}`)
+
+    await mockIpcMainHandler(app, 'load', {
+      replies: [{ value: 'mocked' }],
+      whenExhausted: 'original',
+    })
+
+    assert.strictEqual(await ipcMain.invoke('load', 1, 'a'), 'mocked')
+    assert.strictEqual(await ipcMain.invoke('load', 1, 'b'), 'real b')
+  })
+
+  it('should restore the app handler after one call with once', async () => {
+    const { app, ipcMain } = fakeElectron()
+    ipcMain.handle('ping', async () => 'real')
+
+    await mockIpcMainHandler(app, 'ping', { value: 'mocked' }, { once: true })
+
+    assert.strictEqual(await ipcMain.invoke('ping', 1), 'mocked')
+    assert.strictEqual(await ipcMain.invoke('ping', 1), 'real')
+  })
+
+  it('should restore the true original after mocking twice', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const original = async () => 'real'
+    ipcMain.handle('ping', original)
+
+    const first = await mockIpcMainHandler(app, 'ping', { value: 1 })
+    const second = await mockIpcMainHandler(app, 'ping', { value: 2 })
+    await first.restore()
+    assert.strictEqual(await ipcMain.invoke('ping', 1), 2)
+
+    await second.restore()
+    assert.strictEqual(ipcMain._invokeHandlers.get('ping'), original)
+  })
+
+  it('should restore the app handler when mocked while recording', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const original = async () => 'real'
+    ipcMain.handle('ping', original)
+
+    const recording = await startIpcRecording(app)
+    const mock = await mockIpcMainHandler(app, 'ping', { value: 'mocked' })
+    assert.strictEqual(await ipcMain.invoke('ping', 1), 'mocked')
+    await mock.restore()
+    await recording.stop()
+
+    assert.strictEqual(ipcMain._invokeHandlers.get('ping'), original)
+    assert.strictEqual(await ipcMain.invoke('ping', 1), 'real')
+    assert.strictEqual((await getIpcLog(app)).length, 1)
+  })
+})
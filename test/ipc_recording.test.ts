@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict'
+import {
+  clearIpcLog,
+  expectIpcMessage,
+  getIpcLog,
+  startIpcRecording,
+  waitForIpcMessage,
+} from '../src/ipc_recording'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('IPC recording', () => {
+  beforeEach(resetMainProcess)
+
+  it('should record sends from renderers, and stop', async () => {
+    const { app, ipcMain } = fakeElectron()
+    const received: unknown[] = []
+    ipcMain.on('save', (_event, doc) => received.push(doc))
+
+    const recording = await startIpcRecording(app)
+    const doc = { name: 'notes.txt' }
+    ipcMain.emit('save', { sender: { id: 2 } }, doc)
+    doc.name = 'changed'
+
+    const [message] = await recording.log()
+    assert.strictEqual(message.direction, 'renderer-to-main')
+    assert.strictEqual(message.kind, 'send')
+    assert.strictEqual(message.channel, 'save')
+    assert.strictEqual(message.webContentsId, 2)
+    assert.deepStrictEqual(message.args, [{ name: 'notes.txt' }])
+    assert.strictEqual(received.length, 1)
+
+    await recording.stop()
+    ipcMain.emit('save', { sender: { id: 2 } }, doc)
+    assert.strictEqual((await getIpcLog(app)).length, 1)
+  })
+
+  it('should record invokes with their reply and timing', async () => {
+    const { app, ipcMain } = fakeElectron()
+    ipcMain.handle('add', async (_event, a, b) => (a as number) + (b as number))
+    ipcMain.handle('fail', async () => {
+      throw new Error('nope')
+    })
+
+    await using _recording = await startIpcRecording(app)
+    assert.strictEqual(await ipcMain.invoke('add', 1, 2, 3), 5)
+    await assert.rejects(ipcMain.invoke('fail', 1), { message: 'nope' })
+
+    const [add, fail] = await getIpcLog(app, { kind: 'invoke' })
+    assert.deepStrictEqual(add.args, [2, 3])
+    assert.strictEqual(add.returnValue, 5)
+    assert.strictEqual(typeof add.duration, 'number')
+    assert.strictEqual(fail.error, 'nope')
+  })
+
+  it('should record sends to existing and new webContents', async () => {
+    const { app, createWebContents } = fakeElectron()
+    const before = createWebContents()
+
+    const recording = await startIpcRecording(app)
+    const after = createWebContents()
+    before.send('theme', 'dark')
+    after.send('theme', 'light')
+    await recording.stop()
+    after.send('theme', 'ignored')
+
+    const log = await getIpcLog(app, { direction: 'main-to-renderer' })
+    assert.deepStrictEqual(
+      log.map((message) => [message.webContentsId, message.args[0]]),
+      [
+        [1, 'dark'],
+        [2, 'light'],
+      ],
+    )
+    assert.strictEqual(after.sent.length, 2)
+  })
+
+  it('should note arguments that cannot be cloned', async () => {
+    const { app, ipcMain } = fakeElectron()
+
+    await startIpcRecording(app)
+    ipcMain.emit('callback', { sender: { id: 1 } }, (): void => undefined)
+
+    const [message] = await getIpcLog(app)
+    assert.match(
+      String(
+        (message.args[0] as { serializationError: string }).serializationError,
+      ),
+      /could not be cloned/,
+    )
+  })
+
+  it('should wait for a message, and fail with the log', async () => {
+    const { app, ipcMain } = fakeElectron()
+
+    await startIpcRecording(app)
+    setTimeout(() => ipcMain.emit('ready', { sender: { id: 1 } }, 42), 20)
+    const ready = await waitForIpcMessage(app, /^rea/, (message) =>
+      message.args.includes(42),
+    )
+    assert.strictEqual(ready.channel, 'ready')
+
+    await assert.rejects(
+      waitForIpcMessage(app, 'never', undefined, { timeout: 50 }),
+      {
+        message:
+          /waitForIpcMessage: no matching message on never[\s\S]*'ready'/,
+      },
+    )
+  })
+
+  it('should expect a message already in the log', async () => {
+    const { app, ipcMain } = fakeElectron()
+
+    await startIpcRecording(app)
+    ipcMain.emit('ping', { sender: { id: 1 } })
+    assert.strictEqual((await expectIpcMessage(app, 'ping')).channel, 'ping')
+
+    await clearIpcLog(app)
+    await assert.rejects(expectIpcMessage(app, 'ping'), {
+      message: /expectIpcMessage: no matching message on ping/,
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { createIpcHelpers } from '../src/ipc_typed'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+interface Channels {
+  handle: {
+    'get-user': (id: string) => Promise<{ name: string }>
+  }
+  on: {
+    'main-data': () => string
+    'new-window': (title: string) => void
+  }
+  renderer: {
+    'add-message': (text: string, id: string) => void
+  }
+}
+
+describe('typed IPC helpers', () => {
+  beforeEach(resetMainProcess)
+  afterEach(() => {
+    delete (globalThis as any).__electronPlaywrightHelpersIpc
+  })
+
+  it('should pass calls and options to the main-process helpers', async () => {
+    const { app, ipcMain, createWebContents } = fakeElectron()
+    createWebContents()
+    ipcMain.handle('get-user', async (_event, id) => ({ name: `user ${id}` }))
+    ipcMain.on('main-data', () => 'data')
+    const titles: unknown[] = []
+    ipcMain.on('new-window', (event, title) =>
+      titles.push([event.sender?.id, title]),
+    )
+
+    const ipc = createIpcHelpers<Channels>(app)
+    const user: { name: string } = await ipc.invoke('get-user', '7')
+    assert.deepStrictEqual(user, { name: 'user 7' })
+    const data: string = await ipc.callFirstListener('main-data', {
+      timeout: 1000,
+    })
+    assert.strictEqual(data, 'data')
+    assert.strictEqual(await ipc.emit('new-window', 'Two', { source: 1 }), true)
+    assert.deepStrictEqual(titles, [[1, 'Two']])
+  })
+
+  it('should pass calls to the renderer helpers of a page', async () => {
+    const { app, createPage, createWebContents } = fakeElectron()
+    const page = createPage(createWebContents())
+    const emitted: unknown[] = []
+    ;(globalThis as any).__electronPlaywrightHelpersIpc = {
+      emit: (channel: string, args: unknown[]) => emitted.push([channel, args]),
+    }
+
+    const ipc = createIpcHelpers<Channels>(app).renderer(page)
+    await ipc.emit('add-message', 'hello', 'message-1')
+    assert.deepStrictEqual(emitted, [['add-message', ['hello', 'message-1']]])
+  })
+
+  it('should reject unknown channels and wrong arguments at compile time', () => {
+    const { app } = fakeElectron()
+    const ipc = createIpcHelpers<Channels>(app)
+    // never run - the compiler is the test
+    const check = () => {
+      // @ts-expect-error - not a channel
+      void ipc.invoke('get-users', '7')
+      // @ts-expect-error - wrong argument type
+      void ipc.invoke('get-user', 7)
+      // @ts-expect-error - a handle channel is not an ipcMain.on() channel
+      void ipc.emit('get-user', '7')
+      // @ts-expect-error - missing argument
+      void ipc.renderer({} as never).emit('add-message', 'hello')
+    }
+    assert.strictEqual(typeof check, 'function')
+  })
+})
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict'
+import {
+  normalizeAccelerator,
+  pressMenuAccelerator,
+} from '../src/menu_accelerators'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('Menu accelerators', () => {
+  beforeEach(resetMainProcess)
+
+  it('should put accelerators in one form per platform', () => {
+    assert.equal(
+      normalizeAccelerator('CmdOrCtrl+Shift+S', 'linux'),
+      'Ctrl+Shift+s',
+    )
+    assert.equal(
+      normalizeAccelerator('shift+control+s', 'win32'),
+      'Ctrl+Shift+s',
+    )
+    assert.equal(
+      normalizeAccelerator('CmdOrCtrl+Shift+S', 'darwin'),
+      'Cmd+Shift+s',
+    )
+    assert.equal(normalizeAccelerator('Super+Esc', 'darwin'), 'Cmd+escape')
+    assert.equal(normalizeAccelerator('CmdOrCtrl++', 'linux'), 'Ctrl+plus')
+    assert.throws(
+      () => normalizeAccelerator('Hyper+S', 'linux'),
+      /Invalid accelerator/,
+    )
+  })
+
+  const withMenu = () => {
+    const fake = fakeElectron()
+    const wc = fake.createWebContents()
+    fake.Menu.setApplicationMenu(
+      fake.Menu.buildFromTemplate([
+        {
+          label: 'File',
+          submenu: [
+            { label: 'Save As…', id: 'save-as', accelerator: 'Alt+Shift+S' },
+            { label: 'Print', accelerator: 'Alt+P' },
+          ],
+        },
+        {
+          label: 'View',
+          submenu: [{ label: 'Preview', accelerator: 'P+Alt' }],
+        },
+      ]),
+    )
+    return { ...fake, wc }
+  }
+
+  it('should send the keys to the window, and return the item', async () => {
+    const { app, wc } = withMenu()
+    const item = await pressMenuAccelerator(app, 'shift+alt+s')
+    assert.equal(item.id, 'save-as')
+    assert.equal(wc.focused, true)
+    assert.deepStrictEqual(wc.inputEvents, [
+      { type: 'keyDown', keyCode: 's', modifiers: ['alt', 'shift'] },
+      { type: 'keyUp', keyCode: 's', modifiers: ['alt', 'shift'] },
+    ])
+  })
+
+  it('should fail when no item, or several, have the accelerator', async () => {
+    const { app, wc } = withMenu()
+    await assert.rejects(pressMenuAccelerator(app, 'Alt+Q'), {
+      message: /no menu item has the accelerator "Alt\+Q"/,
+    })
+    await assert.rejects(pressMenuAccelerator(app, 'Alt+P'), {
+      message:
+        /"Alt\+P" is ambiguous - 2 menu items have it:\n {2}File > Print\n {2}View > Preview/,
+    })
+    assert.deepStrictEqual(wc.inputEvents, [])
+  })
+})
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { clickMenuItemByPath, getMenuItemByPath } from '../src/menu_helpers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('Menu paths', () => {
+  beforeEach(resetMainProcess)
+
+  const withMenu = () => {
+    const clicked: string[] = []
+    const fake = fakeElectron()
+    fake.Menu.setApplicationMenu(
+      fake.Menu.buildFromTemplate([
+        {
+          label: '&File',
+          submenu: [
+            {
+              label: '&Export',
+              submenu: [
+                { label: 'PDF…', click: () => clicked.push('pdf') },
+                { label: 'PNG…', click: () => clicked.push('png') },
+              ],
+            },
+            { type: 'separator' },
+            { label: 'Close', click: () => clicked.push('close file') },
+          ],
+        },
+        {
+          label: 'Window',
+          submenu: [
+            { label: 'Close', click: () => clicked.push('close window') },
+          ],
+        },
+      ]),
+    )
+    return { ...fake, clicked }
+  }
+
+  it('should find the item at a path, ignoring mnemonics', async () => {
+    const { app } = withMenu()
+    const item = await getMenuItemByPath(app, ['File', 'Export', 'PDF…'])
+    assert.equal(item.label, 'PDF…')
+  })
+
+  it('should match RegExp segments against the label', async () => {
+    const { app } = withMenu()
+    const item = await getMenuItemByPath(app, [/^fi/i, 'Export', /^PNG/])
+    assert.equal(item.label, 'PNG…')
+  })
+
+  it('should click the item under the right parent', async () => {
+    const { app, clicked } = withMenu()
+    await clickMenuItemByPath(app, ['Window', 'Close'])
+    await clickMenuItemByPath(app, ['File', 'Close'])
+    assert.deepStrictEqual(clicked, ['close window', 'close file'])
+  })
+
+  it('should name the closest existing path when a segment is missing', async () => {
+    const { app } = withMenu()
+    await assert.rejects(getMenuItemByPath(app, ['File', 'Export', 'PDF...']), {
+      message:
+        /Menu item path "File > Export > PDF..." not found: "File > Export" has no item "PDF...". The closest existing path is "File > Export > PDF…"/,
+    })
+    await assert.rejects(getMenuItemByPath(app, ['File', 'Close', 'Now']), {
+      message: /"File > Close" has no submenu/,
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import type { MenuItemPartial } from '../src/menu_helpers'
+import { lintApplicationMenu } from '../src/menu_lint'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('Menu lint', () => {
+  beforeEach(resetMainProcess)
+
+  it('should find nothing wrong with a clean menu', async () => {
+    const { app, Menu } = fakeElectron()
+    Menu.setApplicationMenu(
+      Menu.buildFromTemplate([
+        {
+          label: 'File',
+          submenu: [
+            { label: 'Open…', id: 'open', accelerator: 'CmdOrCtrl+O' },
+            { type: 'separator' },
+            { label: 'Quit', role: 'quit' },
+          ],
+        },
+      ]),
+    )
+    assert.deepStrictEqual(await lintApplicationMenu(app), [])
+  })
+
+  it('should report every kind of problem', async () => {
+    const { app, Menu } = fakeElectron()
+    Menu.setApplicationMenu(
+      Menu.buildFromTemplate([
+        {
+          label: 'File',
+          submenu: [
+            { type: 'separator' },
+            { label: 'Save As', id: 'save', accelerator: 'CmdOrCtrl+S' },
+            { label: 'Save', id: 'save', accelerator: 'Ctrl+S' },
+            { label: 'Debug', id: 'debug', visible: false },
+            {
+              label: 'Recent',
+              submenu: [{ label: 'None', visible: false, enabled: false }],
+            },
+            { type: 'separator' },
+          ],
+        },
+      ]),
+    )
+    const findings = await lintApplicationMenu(app, {
+      platform: 'linux',
+      rules: { 'no-id-or-role': false },
+    })
+    assert.deepStrictEqual(
+      findings.map(({ rule, path }) => [rule, path.join(' > ')]),
+      [
+        ['leading-separator', 'File > ---'],
+        ['trailing-separator', 'File > ---'],
+        ['missing-ellipsis', 'File > Save As'],
+        ['hidden-but-enabled', 'File > Debug'],
+        ['empty-submenu', 'File > Recent'],
+        ['duplicate-accelerator', 'File > Save As'],
+        ['duplicate-id', 'File > Save As'],
+      ],
+    )
+    assert.deepStrictEqual(findings[5].alsoAt, [['File', 'Save']])
+    assert.equal(
+      findings[5].message,
+      'Accelerator "Ctrl+s" is shared by "File > Save As", "File > Save"',
+    )
+  })
+
+  it('should flag clickable items with neither an id nor a role', async () => {
+    const findings = await lintApplicationMenu([
+      {
+        label: 'Edit',
+        type: 'submenu',
+        submenu: [] as MenuItemPartial['submenu'],
+      },
+      { label: 'Help', type: 'normal' },
+    ])
+    assert.deepStrictEqual(
+      findings.map(({ rule }) => rule),
+      ['empty-submenu', 'no-id-or-role'],
+    )
+  })
+})
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { findMenuItem } from '../src/menu_helpers'
+import { queryMenuItems } from '../src/menu_query'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('Menu queries', () => {
+  beforeEach(resetMainProcess)
+
+  const withMenu = () => {
+    const { app, Menu } = fakeElectron()
+    Menu.setApplicationMenu(
+      Menu.buildFromTemplate([
+        {
+          label: '&File',
+          submenu: [
+            { label: 'Close Tab', id: 'close-tab', accelerator: 'Ctrl+W' },
+            { label: 'Save', id: 'save', enabled: false },
+          ],
+        },
+        {
+          label: 'Window',
+          submenu: [
+            { label: 'Close Window', accelerator: 'Shift+Ctrl+W' },
+            { label: 'Full Screen', role: 'toggleFullScreen' },
+          ],
+        },
+      ]),
+    )
+    return app
+  }
+  const paths = (matches: { path: string[] }[]) =>
+    matches.map(({ path }) => path.join(' > '))
+
+  it('should find every item matching all of the query', async () => {
+    const app = withMenu()
+    assert.deepStrictEqual(
+      paths(await queryMenuItems(app, { label: /^Close/ })),
+      ['File > Close Tab', 'Window > Close Window'],
+    )
+    assert.deepStrictEqual(
+      paths(
+        await queryMenuItems(app, {
+          label: /^Close/,
+          accelerator: 'w+control+shift',
+        }),
+      ),
+      ['Window > Close Window'],
+    )
+    assert.deepStrictEqual(
+      paths(await queryMenuItems(app, { role: 'toggleFullScreen' })),
+      ['Window > Full Screen'],
+    )
+    assert.deepStrictEqual(
+      paths(
+        await queryMenuItems(app, {
+          enabled: false,
+          predicate: (_item, path) => path[0] === 'File',
+        }),
+      ),
+      ['File > Save'],
+    )
+  })
+
+  it('should let findMenuItem() return all matches, or insist on one', async () => {
+    const app = withMenu()
+    const all = await findMenuItem(app, 'enabled', true, undefined, {
+      match: 'all',
+    })
+    assert.equal(all.length, 5)
+    const save = await findMenuItem(app, 'id', 'save', undefined, {
+      match: 'unique',
+    })
+    assert.equal(save?.label, 'Save')
+    await assert.rejects(
+      findMenuItem(app, 'enabled', true, undefined, { match: 'unique' }),
+      { message: /5 menu items have enabled = true/ },
+    )
+  })
+
+  it('should compare the accelerators of a menu passed in for a platform', async () => {
+    const menu = [
+      { label: 'Copy', accelerator: 'Cmd+C' },
+      { label: 'Paste', accelerator: 'Ctrl+V' },
+    ]
+    const labels = async (platform: NodeJS.Platform) =>
+      (
+        await queryMenuItems(menu, { accelerator: 'CmdOrCtrl+C' }, { platform })
+      ).map(({ item }) => item.label)
+    assert.deepStrictEqual(await labels('darwin'), ['Copy'])
+    assert.deepStrictEqual(await labels('win32'), [])
+  })
+})
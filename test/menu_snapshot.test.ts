@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict'
+import type { MenuItemPartial } from '../src/menu_helpers'
+import { diffMenus, serializeMenu, waitForMenu } from '../src/menu_snapshot'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+const fileMenu = (items: MenuItemPartial[]): MenuItemPartial[] => [
+  {
+    label: 'File',
+    type: 'submenu',
+    role: 'fileMenu',
+    // MenuItemPartial's submenu is typed as a Menu as well
+    submenu: items as MenuItemPartial['submenu'],
+  },
+]
+
+const menu = fileMenu([
+  {
+    label: 'New Window',
+    id: 'new-window',
+    type: 'normal',
+    accelerator: 'CmdOrCtrl+N',
+    enabled: true,
+    commandId: 12,
+  },
+  {
+    label: 'Save File',
+    id: 'save-file',
+    type: 'normal',
+    enabled: false,
+    commandId: 13,
+  },
+  { type: 'separator', enabled: true },
+  { label: 'Word Wrap', type: 'checkbox', checked: true, enabled: true },
+  { label: 'Quit My App', type: 'normal', role: 'quit', enabled: true },
+])
+
+describe('Menu snapshots', () => {
+  it('should write a menu out as an outline', async () => {
+    assert.equal(
+      await serializeMenu(menu),
+      [
+        'File  role=fileMenu',
+        '  New Window  accelerator=CmdOrCtrl+N',
+        '  Save File  disabled',
+        '  ---',
+        '  [x] Word Wrap',
+        '  Quit My App  role=quit',
+      ].join('\n'),
+    )
+  })
+
+  it('should write only the fields asked for', async () => {
+    assert.equal(
+      await serializeMenu(menu, { fields: ['id', 'type'] }),
+      [
+        'File',
+        '  New Window  id=new-window',
+        '  Save File  id=save-file',
+        '  ---',
+        '  Word Wrap  type=checkbox',
+        '  Quit My App',
+      ].join('\n'),
+    )
+  })
+
+  it('should find nothing between two captures of the same menu', () => {
+    const again = structuredClone(menu)
+    again[0].submenu![0].commandId = 99
+    assert.deepStrictEqual(diffMenus(menu, again), {
+      same: true,
+      added: [],
+      removed: [],
+      changed: [],
+    })
+  })
+
+  it('should list added, removed and changed items', () => {
+    const after = fileMenu([
+      { ...menu[0].submenu![0], label: 'New Tab' },
+      { ...menu[0].submenu![1], enabled: true },
+      { type: 'separator', enabled: true },
+      { label: 'Close', type: 'normal', enabled: true },
+      { ...menu[0].submenu![4] },
+    ])
+    const diff = diffMenus(menu, after)
+    assert.equal(diff.same, false)
+    assert.deepStrictEqual(
+      diff.added.map((entry) => entry.path),
+      [['File', 'Close']],
+    )
+    assert.deepStrictEqual(
+      diff.removed.map((entry) => entry.path),
+      [['File', 'Word Wrap']],
+    )
+    assert.deepStrictEqual(diff.changed, [
+      {
+        path: ['File', 'New Tab'],
+        field: 'label',
+        before: 'New Window',
+        after: 'New Tab',
+      },
+      {
+        path: ['File', 'Save File'],
+        field: 'enabled',
+        before: false,
+        after: true,
+      },
+    ])
+  })
+
+  describe('waitForMenu', () => {
+    beforeEach(resetMainProcess)
+
+    const editMenu = () => {
+      const { app, Menu } = fakeElectron()
+      const menu = Menu.buildFromTemplate([
+        {
+          label: 'Edit',
+          submenu: [
+            { label: 'Undo', role: 'undo', enabled: false },
+            { label: 'Redo', role: 'redo', enabled: false },
+          ],
+        },
+      ])
+      Menu.setApplicationMenu(menu)
+      const undo = menu.items[0].submenu!.items[0]
+      return { app, undo }
+    }
+    const undoTyping = (menu: MenuItemPartial[]) => {
+      const undo = menu
+        .find((item) => item.label === 'Edit')
+        ?.submenu?.find((item) => item.role === 'undo')
+      return undo?.enabled === true && undo.label === 'Undo Typing'
+    }
+
+    it('should resolve once the menu satisfies the predicate', async () => {
+      const { app, undo } = editMenu()
+      setTimeout(() => {
+        undo.enabled = true
+        undo.label = 'Undo Typing'
+      }, 50)
+      const menu = await waitForMenu(app, undoTyping, { poll: 10 })
+      assert.equal(menu[0].submenu![0].label, 'Undo Typing')
+    })
+
+    it('should list the items the predicate checked on timeout', async () => {
+      const { app } = editMenu()
+      await assert.rejects(waitForMenu(app, undoTyping, { timeout: 50 }), {
+        message:
+          /did not satisfy the predicate within 50ms. The items it checked, as last seen:\n {2}Edit > Undo {2}disabled {2}role=undo\n\n/,
+      })
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict'
+import {
+  clickMenuItemById,
+  getApplicationMenu,
+  getMenuItemById,
+  waitForMenuItem,
+} from '../src/menu_helpers'
+import { startMenuCapture } from '../src/menu_sources'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+describe('Menu sources', () => {
+  beforeEach(resetMainProcess)
+
+  it('should read and click a window menu set while capturing', async () => {
+    const { app, Menu, BrowserWindow, createWebContents, createPage } =
+      fakeElectron()
+    Menu.setApplicationMenu(Menu.buildFromTemplate([{ label: 'App' }]))
+    const page = createPage(createWebContents())
+    await using _capture = await startMenuCapture(app)
+    const clicks: string[] = []
+    BrowserWindow.fromId(1)?.setMenu(
+      Menu.buildFromTemplate([
+        {
+          label: 'Window',
+          submenu: [
+            { label: 'Reload', id: 'reload', click: () => clicks.push('r') },
+          ],
+        },
+      ]),
+    )
+
+    const menu = await getApplicationMenu(app, { source: { window: page } })
+    assert.deepStrictEqual(
+      menu.map((item) => item.label),
+      ['Window'],
+    )
+    const item = await getMenuItemById(app, 'reload', {
+      source: { window: 1 },
+    })
+    assert.equal(item.label, 'Reload')
+    await waitForMenuItem(app, 'reload', { source: { window: 1 } })
+    await clickMenuItemById(app, 'reload', { source: { window: page } })
+    assert.deepStrictEqual(clicks, ['r'])
+    // the application menu is still the default
+    assert.equal((await getApplicationMenu(app))[0].label, 'App')
+    // the window still got its menu
+    assert.equal(BrowserWindow.fromId(1)?.menu?.items[0].label, 'Window')
+  })
+
+  it('should number trays in the order they set a context menu', async () => {
+    const { app, Menu, Tray } = fakeElectron()
+    await using _capture = await startMenuCapture(app)
+    const first = new Tray()
+    const second = new Tray()
+    second.setContextMenu(Menu.buildFromTemplate([{ label: 'Second' }]))
+    first.setContextMenu(Menu.buildFromTemplate([{ label: 'First' }]))
+    second.setContextMenu(Menu.buildFromTemplate([{ label: 'Second again' }]))
+
+    const label = async (source: 'tray' | { tray: number }) =>
+      (await getApplicationMenu(app, { source }))[0].label
+    assert.equal(await label('tray'), 'Second again')
+    assert.equal(await label({ tray: 2 }), 'First')
+
+    first.destroy()
+    await assert.rejects(label({ tray: 2 }), /tray 2 was destroyed/)
+    await assert.rejects(label({ tray: 3 }), /no tray 3 - 2 captured/)
+  })
+
+  it('should explain menus it has not seen', async () => {
+    const { app, Menu, BrowserWindow, Tray, createWebContents } = fakeElectron()
+    createWebContents()
+    BrowserWindow.fromId(1)?.setMenu(Menu.buildFromTemplate([]))
+    new Tray().setContextMenu(Menu.buildFromTemplate([]))
+
+    const source = { window: 1 }
+    await assert.rejects(
+      getApplicationMenu(app, { source }),
+      (err: Error) =>
+        err.message.includes('no menu captured for window 1') &&
+        err.message.includes('startMenuCapture()'),
+    )
+    await assert.rejects(
+      getApplicationMenu(app, { source: { window: 2 } }),
+      /no window with id 2/,
+    )
+    await assert.rejects(
+      getMenuItemById(app, 'x', { source: 'tray' }),
+      /no tray menu captured/,
+    )
+    await assert.rejects(
+      clickMenuItemById(app, 'x', { source: 'dock' }),
+      /the dock is only on macOS/,
+    )
+  })
+
+  it('should see a removed menu, and stop capturing', async () => {
+    const { app, Menu, BrowserWindow, createWebContents } = fakeElectron()
+    createWebContents()
+    const win = BrowserWindow.fromId(1)
+    const capture = await startMenuCapture(app)
+    win?.setMenu(Menu.buildFromTemplate([{ label: 'Window', id: 'w' }]))
+    win?.removeMenu()
+    await assert.rejects(
+      waitForMenuItem(app, 'w', { source: { window: 1 } }),
+      /window 1 has no menu/,
+    )
+
+    await capture.stop()
+    win?.setMenu(Menu.buildFromTemplate([{ label: 'Unseen' }]))
+    await assert.rejects(
+      getApplicationMenu(app, { source: { window: 1 } }),
+      /window 1 has no menu/,
+    )
+  })
+})
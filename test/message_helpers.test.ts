@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict'
+import {
+  getCapturedMessages,
+  getCapturedPorts,
+  getUtilityProcesses,
+  postToPort,
+  postToUtilityProcess,
+  startMessageCapture,
+  waitForCapturedMessage,
+} from '../src/message_helpers'
+import { fakeElectron, resetMainProcess } from './fake_electron'
+
+/** what the app would do, in the fake main process */
+function appMain(app: ReturnType<typeof fakeElectron>['app']) {
+  return app.evaluate(({ utilityProcess, MessageChannelMain }) => ({
+    utilityProcess,
+    MessageChannelMain,
+  }))
+}
+
+describe('messaging capture', () => {
+  beforeEach(resetMainProcess)
+
+  it('should list utility processes and record their messages', async () => {
+    const { app } = fakeElectron()
+    const capture = await startMessageCapture(app)
+    const { utilityProcess } = await appMain(app)
+
+    const child = utilityProcess.fork('worker.js', [], {
+      serviceName: 'exporter',
+    })
+    child.postMessage({ job: 1 })
+    ;(child as unknown as { receive(m: unknown): void }).receive({ done: 1 })
+
+    const [info] = await getUtilityProcesses(app)
+    assert.deepStrictEqual(info, {
+      id: 1,
+      pid: 4242,
+      modulePath: 'worker.js',
+      serviceName: 'exporter',
+      running: true,
+    })
+    const messages = await getCapturedMessages(app, {
+      target: 'utilityProcess',
+    })
+    assert.deepStrictEqual(
+      messages.map(({ direction, data }) => [direction, data]),
+      [
+        ['out', { job: 1 }],
+        ['in', { done: 1 }],
+      ],
+    )
+
+    await postToUtilityProcess(app, 'exporter', { job: 2 })
+    assert.deepStrictEqual(
+      (child as unknown as { posted: unknown[] }).posted.at(-1),
+      { job: 2 },
+    )
+
+    await capture.stop()
+    assert.strictEqual(utilityProcess.fork('other.js').pid, 4242)
+    assert.strictEqual((await getUtilityProcesses(app)).length, 1)
+  })
+
+  it('should refuse to post to a process that has exited', async () => {
+    const { app } = fakeElectron()
+    await startMessageCapture(app)
+    const { utilityProcess } = await appMain(app)
+    const child = utilityProcess.fork('worker.js')
+    ;(child as unknown as { exit(code: number): void }).exit(3)
+
+    await assert.rejects(postToUtilityProcess(app, 1, 'hi'), {
+      message: 'Utility process 1 has exited (code 3)',
+    })
+    await assert.rejects(postToUtilityProcess(app, 'nope', 'hi'), {
+      message:
+        /No utility process "nope" has been captured[\s\S]*startMessageCapture/,
+    })
+  })
+
+  it('should capture port traffic, and post onto a captured port', async () => {
+    const { app } = fakeElectron()
+    await using _capture = await startMessageCapture(app)
+    const { MessageChannelMain } = await appMain(app)
+
+    const { port1, port2 } = new MessageChannelMain()
+    const received: unknown[] = []
+    port2.on('message', (event) => received.push(event.data))
+    port1.postMessage('ping')
+
+    const ports = await getCapturedPorts(app)
+    assert.deepStrictEqual(ports, [
+      { id: 1, open: true },
+      { id: 2, open: true },
+    ])
+    const messages = await getCapturedMessages(app, { target: 'port' })
+    assert.deepStrictEqual(
+      messages.map(({ id, direction, data }) => [id, direction, data]),
+      [
+        [1, 'out', 'ping'],
+        [2, 'in', 'ping'],
+      ],
+    )
+
+    // post from the main process's end, as if the app had
+    await postToPort(app, 1, 'pong')
+    assert.deepStrictEqual(received, ['ping', 'pong'])
+
+    port1.close()
+    await assert.rejects(postToPort(app, 1, 'late'), {
+      message: 'Port 1 has been closed',
+    })
+  })
+
+  it('should wait for a captured message', async () => {
+    const { app } = fakeElectron()
+    await startMessageCapture(app)
+    const { utilityProcess } = await appMain(app)
+    const child = utilityProcess.fork('worker.js') as unknown as {
+      receive(m: unknown): void
+    }
+
+    setTimeout(() => child.receive({ progress: 100 }), 20)
+    const done = await waitForCapturedMessage(
+      app,
+      { target: 'utilityProcess', direction: 'in' },
+      (message) => (message.data as { progress: number }).progress === 100,
+    )
+    assert.strictEqual(done.id, 1)
+
+    await assert.rejects(
+      waitForCapturedMessage(app, { id: 9 }, undefined, { timeout: 50 }),
+      { message: /waitForCapturedMessage: no message matching {"id":9}/ },
+    )
+  })
+})